@@ -0,0 +1,272 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import configuration from "./configuration";
+import { SwiftExecution } from "./tasks/SwiftExecution";
+import { findBuildProgress, lineBreakRegex } from "./utilities/tasks";
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import stripAnsi = require("strip-ansi");
+
+/** A step of a build, such as compiling the files of a module or linking a product. */
+export interface BuildStep {
+    description: string;
+    /** The module or product the step belongs to, if it could be determined. */
+    module?: string;
+    /** When the step started, in milliseconds since the start of the build. */
+    start: number;
+    /** How long the step took, in milliseconds. */
+    duration: number;
+}
+
+/**
+ * A build recorded in the timeline. Large packages have thousands of steps, so only
+ * the timings of each module and the slowest steps are kept.
+ */
+export interface BuildRecord {
+    /** The name of the task that ran the build. */
+    task: string;
+    /** When the build started, in milliseconds since the epoch. */
+    time: number;
+    /** The wall time of the build, in milliseconds. */
+    duration: number;
+    succeeded: boolean;
+    /** The number of steps of the build. */
+    stepCount: number;
+    /** The modules of the build, ordered by when each module started building. */
+    modules: ModuleTiming[];
+    /** The slowest steps of the build, slowest first. */
+    slowestSteps: BuildStep[];
+}
+
+/** When a module started and finished building, relative to the start of the build. */
+export interface ModuleTiming {
+    module: string;
+    start: number;
+    end: number;
+    /** The number of steps of the module. */
+    stepCount: number;
+    /** The slowest steps of the module, slowest first. */
+    slowestSteps: BuildStep[];
+}
+
+/** The number of slowest steps kept for each build and each of its modules. */
+export const slowestStepCount = 5;
+
+const moduleRegex =
+    /^(?:Compiling(?: plugin)?|Emitting module|Linking|Wrapping AST for|Merging module|Building)\s+([^\s,]+)/;
+
+/**
+ * Finds the module a build step belongs to from its description, such as
+ * `MyLibrary` for `Compiling MyLibrary main.swift` or `Emitting module MyLibrary`.
+ */
+export function moduleOfStep(description: string): string | undefined {
+    const match = moduleRegex.exec(description);
+    if (!match) {
+        return undefined;
+    }
+    // `Linking` is followed by the path of the product on some platforms
+    return match[1].split(/[\\/]/).pop();
+}
+
+/**
+ * Builds a {@link BuildRecord} from the output of a `swift` task as it is written.
+ *
+ * SwiftPM only reports when a step starts, so each step is assumed to last until
+ * the next step starts, or the build finishes. Steps run in parallel, so these
+ * durations are how long each step held up the reported progress rather than the
+ * time the compiler spent on it.
+ */
+export class BuildRecorder {
+    private buffer = "";
+    private steps: BuildStep[] = [];
+    private lastProgress?: string;
+
+    constructor(
+        private task: string,
+        private time: number
+    ) {}
+
+    /** Parses the output of the task, written at the given time. */
+    write(data: string, time: number) {
+        const lines = (this.buffer + stripAnsi(data)).split(lineBreakRegex);
+        this.buffer = lines.pop() ?? "";
+        for (const line of lines) {
+            this.parseLine(line, time);
+        }
+    }
+
+    /**
+     * Finishes the build.
+     *
+     * @returns The recorded build, or `undefined` if the task didn't report any build steps
+     */
+    finish(time: number, succeeded: boolean): BuildRecord | undefined {
+        this.parseLine(this.buffer, time);
+        this.buffer = "";
+        const duration = time - this.time;
+        this.endStep(duration);
+        if (this.steps.length === 0) {
+            return undefined;
+        }
+        return {
+            task: this.task,
+            time: this.time,
+            duration,
+            succeeded,
+            stepCount: this.steps.length,
+            modules: moduleTimings(this.steps),
+            slowestSteps: slowestSteps(this.steps),
+        };
+    }
+
+    private parseLine(line: string, time: number) {
+        const progress = findBuildProgress(line.trim());
+        // The progress animation redraws the same step when the terminal is resized
+        if (!progress || line.trim() === this.lastProgress) {
+            return;
+        }
+        this.lastProgress = line.trim();
+        const start = time - this.time;
+        this.endStep(start);
+        this.steps.push({
+            description: progress.description,
+            module: moduleOfStep(progress.description),
+            start,
+            duration: -1,
+        });
+    }
+
+    private endStep(end: number) {
+        const step = this.steps[this.steps.length - 1];
+        if (step && step.duration < 0) {
+            step.duration = Math.max(0, end - step.start);
+        }
+    }
+}
+
+/**
+ * Groups the steps of a build by module, ordered by when each module started building.
+ */
+export function moduleTimings(steps: BuildStep[]): ModuleTiming[] {
+    const modules = new Map<string, { start: number; end: number; steps: BuildStep[] }>();
+    for (const step of steps) {
+        if (!step.module) {
+            continue;
+        }
+        const timing = modules.get(step.module);
+        if (timing) {
+            timing.end = Math.max(timing.end, step.start + step.duration);
+            timing.steps.push(step);
+        } else {
+            modules.set(step.module, {
+                start: step.start,
+                end: step.start + step.duration,
+                steps: [step],
+            });
+        }
+    }
+    return [...modules]
+        .map(([module, { start, end, steps }]) => ({
+            module,
+            start,
+            end,
+            stepCount: steps.length,
+            slowestSteps: slowestSteps(steps),
+        }))
+        .sort((a, b) => a.start - b.start);
+}
+
+/** Returns the {@link slowestStepCount} slowest steps, slowest first. */
+export function slowestSteps(steps: BuildStep[]): BuildStep[] {
+    return [...steps].sort((a, b) => b.duration - a.duration).slice(0, slowestStepCount);
+}
+
+/**
+ * Keeps a history of the builds of each folder in the workspace state,
+ * recorded from the output of `swift` tasks, so build times that creep upward over
+ * time can be noticed and traced to the modules responsible.
+ */
+export class BuildTimeline implements vscode.Disposable {
+    private static STORAGE_KEY = "swift.buildTimeline";
+
+    /** Fires with the folder whose history changed. */
+    private readonly didChangeEmitter = new vscode.EventEmitter<string>();
+    public readonly onDidChange = this.didChangeEmitter.event;
+    private onDidStartTaskDisposable: vscode.Disposable;
+
+    constructor(private memento: vscode.Memento) {
+        this.onDidStartTaskDisposable = vscode.tasks.onDidStartTask(event =>
+            this.observeTask(event.execution.task)
+        );
+    }
+
+    dispose() {
+        this.onDidStartTaskDisposable.dispose();
+        this.didChangeEmitter.dispose();
+    }
+
+    /** Returns the recorded builds of a folder, newest first. */
+    builds(folderPath: string): BuildRecord[] {
+        return this.allBuilds()[folderPath] ?? [];
+    }
+
+    /** Records a build, dropping the oldest builds once `swift.buildTimelineHistorySize` is reached. */
+    async record(folderPath: string, build: BuildRecord) {
+        const builds = [build, ...this.builds(folderPath)];
+        await this.update(folderPath, builds.slice(0, configuration.buildTimelineHistorySize));
+    }
+
+    async clear(folderPath: string) {
+        await this.update(folderPath, []);
+    }
+
+    private observeTask(task: vscode.Task) {
+        if (task.definition.type !== "swift" || !(task.execution instanceof SwiftExecution)) {
+            return;
+        }
+        const execution = task.execution;
+        const folderPath = execution.options.cwd;
+        if (!folderPath) {
+            return;
+        }
+        const recorder = new BuildRecorder(task.name, Date.now());
+        const disposables = [
+            execution.onDidWrite(data => recorder.write(data, Date.now())),
+            execution.onDidClose(exitCode => {
+                disposables.forEach(d => d.dispose());
+                const build = recorder.finish(Date.now(), exitCode === 0);
+                if (build) {
+                    void this.record(folderPath, build);
+                }
+            }),
+        ];
+    }
+
+    private allBuilds(): { [folderPath: string]: BuildRecord[] } {
+        return this.memento.get<{ [folderPath: string]: BuildRecord[] }>(
+            BuildTimeline.STORAGE_KEY,
+            {}
+        );
+    }
+
+    private async update(folderPath: string, builds: BuildRecord[]) {
+        await this.memento.update(BuildTimeline.STORAGE_KEY, {
+            ...this.allBuilds(),
+            [folderPath]: builds,
+        });
+        this.didChangeEmitter.fire(folderPath);
+    }
+}
@@ -0,0 +1,212 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { BuildDiagnosticsEvent } from "./DiagnosticsManager";
+import { WorkspaceContext } from "./WorkspaceContext";
+import { BuildFlags } from "./toolchain/BuildFlags";
+import { isPathInsidePath } from "./utilities/filesystem";
+
+export enum HotspotKind {
+    function = "function",
+    expression = "expression",
+}
+
+/** A function body or expression that took longer than the threshold to type-check. */
+export interface Hotspot {
+    kind: HotspotKind;
+    /** What was type-checked, such as `Instance method 'layout()'` or `Expression`. */
+    name: string;
+    /** How long type-checking took, in milliseconds. */
+    duration: number;
+    file: string;
+    range: vscode.Range;
+}
+
+/** The hotspots found by the latest analysis of a folder. */
+export interface HotspotAnalysis {
+    target: string;
+    /** The threshold in milliseconds above which function bodies and expressions were reported. */
+    threshold: number;
+    time: number;
+    hotspots: Hotspot[];
+}
+
+export enum HotspotSortOrder {
+    duration = "duration",
+    location = "location",
+}
+
+const functionBodiesFlag = "-warn-long-function-bodies=";
+const expressionsFlag = "-warn-long-expression-type-checking=";
+
+/**
+ * The arguments passed to `swift build` to make the compiler warn about function bodies
+ * and expressions that take longer than the threshold to type-check. The target is built
+ * into its own scratch path, as changing the compiler flags of the regular build would
+ * make both it and the next regular build rebuild everything.
+ */
+export function compileTimeAnalysisArgs(
+    folder: string,
+    target: string,
+    threshold: number
+): string[] {
+    return [
+        "build",
+        "--target",
+        target,
+        "--scratch-path",
+        path.join(BuildFlags.buildDirectoryFromWorkspacePath(folder, true), "hotspots"),
+        "-Xswiftc",
+        "-Xfrontend",
+        "-Xswiftc",
+        `${functionBodiesFlag}${threshold}`,
+        "-Xswiftc",
+        "-Xfrontend",
+        "-Xswiftc",
+        `${expressionsFlag}${threshold}`,
+    ];
+}
+
+/**
+ * Whether a `swift build` was run by the Find Compile-Time Hotspots command. The warnings
+ * of these builds aren't real warnings, so they are left out of the Problems view and the
+ * build warning history.
+ */
+export function isCompileTimeAnalysis(args: string[]): boolean {
+    return args.some(arg => arg.startsWith(functionBodiesFlag));
+}
+
+/**
+ * Parses a hotspot from a warning such as
+ * `Instance method 'layout()' took 312ms to type-check (limit: 100ms)`.
+ */
+export function parseHotspot(file: string, diagnostic: vscode.Diagnostic): Hotspot | undefined {
+    if (diagnostic.severity !== vscode.DiagnosticSeverity.Warning) {
+        return undefined;
+    }
+    const match = /^(.+) took (\d+)ms to type-check \(limit: \d+ms\)$/.exec(diagnostic.message);
+    if (!match) {
+        return undefined;
+    }
+    const name = match[1];
+    return {
+        kind: name.toLowerCase() === "expression" ? HotspotKind.expression : HotspotKind.function,
+        name,
+        duration: parseInt(match[2]),
+        file,
+        range: diagnostic.range,
+    };
+}
+
+/** Sorts hotspots slowest first, or by file and line. */
+export function sortHotspots(hotspots: Hotspot[], order: HotspotSortOrder): Hotspot[] {
+    return [...hotspots].sort((a, b) =>
+        order === HotspotSortOrder.duration
+            ? b.duration - a.duration || a.file.localeCompare(b.file)
+            : a.file.localeCompare(b.file) || a.range.start.line - b.range.start.line
+    );
+}
+
+/**
+ * Collects the function bodies and expressions reported as slow to type-check by the
+ * builds of the Find Compile-Time Hotspots command, keeping the latest analysis of
+ * each folder.
+ */
+export class CompileTimeHotspots implements vscode.Disposable {
+    private static SORT_ORDER_STORAGE_KEY = "swift.compileTimeHotspotsSortOrder";
+    private analyses = new Map<string, HotspotAnalysis>();
+    private disposables: vscode.Disposable[];
+
+    /** Fires with the folder whose analysis changed, or `undefined` if the sort order changed. */
+    private readonly didChangeEmitter = new vscode.EventEmitter<string | undefined>();
+    public readonly onDidChange = this.didChangeEmitter.event;
+
+    constructor(
+        private workspaceContext: WorkspaceContext,
+        private memento: vscode.Memento
+    ) {
+        this.disposables = [
+            this.didChangeEmitter,
+            workspaceContext.diagnostics.onDidProvideBuildDiagnostics(event => {
+                if (isCompileTimeAnalysis(event.args)) {
+                    this.record(event).catch(error =>
+                        workspaceContext.logger.error(
+                            `Failed to collect compile-time hotspots: ${error}`
+                        )
+                    );
+                }
+            }),
+        ];
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Returns the latest analysis of a folder. */
+    analysis(folderPath: string): HotspotAnalysis | undefined {
+        return this.analyses.get(folderPath);
+    }
+
+    get sortOrder(): HotspotSortOrder {
+        return this.memento.get<HotspotSortOrder>(
+            CompileTimeHotspots.SORT_ORDER_STORAGE_KEY,
+            HotspotSortOrder.duration
+        );
+    }
+
+    async setSortOrder(order: HotspotSortOrder) {
+        await this.memento.update(CompileTimeHotspots.SORT_ORDER_STORAGE_KEY, order);
+        this.didChangeEmitter.fire(undefined);
+    }
+
+    clear(folderPath: string) {
+        this.analyses.delete(folderPath);
+        this.didChangeEmitter.fire(folderPath);
+    }
+
+    private async record(event: BuildDiagnosticsEvent) {
+        const target = event.args[event.args.indexOf("--target") + 1];
+        const thresholdArg = event.args.find(arg => arg.startsWith(functionBodiesFlag)) ?? "";
+        const folderContext = this.workspaceContext.folders.find(
+            folder => folder.folder.fsPath === event.folder
+        );
+        const targetPath = (await folderContext?.swiftPackage.targets)?.find(
+            ({ name }) => name === target
+        )?.path;
+        const hotspots: Hotspot[] = [];
+        event.diagnostics.forEach((diagnostics, file) => {
+            // Dependencies are rebuilt with the same flags, only keep the chosen target
+            if (targetPath && !isPathInsidePath(file, path.join(event.folder, targetPath))) {
+                return;
+            }
+            for (const diagnostic of diagnostics) {
+                const hotspot = parseHotspot(file, diagnostic);
+                if (hotspot) {
+                    hotspots.push(hotspot);
+                }
+            }
+        });
+        this.analyses.set(event.folder, {
+            target: target ?? "",
+            threshold: parseInt(thresholdArg.substring(functionBodiesFlag.length)),
+            time: Date.now(),
+            hotspots,
+        });
+        this.didChangeEmitter.fire(event.folder);
+    }
+}
@@ -0,0 +1,199 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import { PackageResolvedPin } from "./SwiftPackage";
+import { BuildFlags } from "./toolchain/BuildFlags";
+import { Version } from "./utilities/version";
+
+/** How far a pinned version is behind the latest release. */
+export enum UpdateKind {
+    patch = "patch",
+    minor = "minor",
+    major = "major",
+}
+
+/** A newer release of a pinned dependency. */
+export interface DependencyUpdate {
+    identity: string;
+    current: string;
+    latest: string;
+    kind: UpdateKind;
+}
+
+/**
+ * Parses a release tag such as `1.2.3` or `v1.2.3`. Pre-release tags
+ * are ignored as SwiftPM doesn't resolve to them by default.
+ */
+export function parseReleaseTag(tag: string): Version | undefined {
+    const match = /^v?(\d+)\.(\d+)(?:\.(\d+))?$/.exec(tag);
+    if (!match) {
+        return undefined;
+    }
+    return new Version(parseInt(match[1]), parseInt(match[2]), parseInt(match[3] ?? "0"));
+}
+
+/**
+ * Compares a pinned version with the release tags of its repository.
+ *
+ * @returns The latest release, or `undefined` if the pinned version is up to date
+ */
+export function latestRelease(
+    current: string,
+    tags: string[]
+): { latest: string; kind: UpdateKind } | undefined {
+    const currentVersion = parseReleaseTag(current);
+    if (!currentVersion) {
+        return undefined;
+    }
+    let latest: { tag: string; version: Version } | undefined;
+    for (const tag of tags) {
+        const version = parseReleaseTag(tag);
+        if (version && version.isGreaterThan(latest?.version ?? currentVersion)) {
+            latest = { tag, version };
+        }
+    }
+    if (!latest) {
+        return undefined;
+    }
+    let kind = UpdateKind.patch;
+    if (latest.version.major !== currentVersion.major) {
+        kind = UpdateKind.major;
+    } else if (latest.version.minor !== currentVersion.minor) {
+        kind = UpdateKind.minor;
+    }
+    return { latest: latest.tag, kind };
+}
+
+/**
+ * Returns true if a dependency pinned at `version` is at least at the release
+ * its update was offered for.
+ */
+export function isUpdateComplete(version: string, update: DependencyUpdate): boolean {
+    const pinned = parseReleaseTag(version);
+    const latest = parseReleaseTag(update.latest);
+    return !!pinned && !!latest && pinned.isGreaterThanOrEqual(latest);
+}
+
+/**
+ * Reads the tag names of a git repository from its `refs/tags` folder and
+ * `packed-refs` file, so no `git` process needs to be run.
+ */
+export async function readTags(repository: string): Promise<string[]> {
+    const tags = new Set<string>();
+    const packedRefs = await fs
+        .readFile(path.join(repository, "packed-refs"), "utf8")
+        .catch(() => "");
+    for (const line of packedRefs.split(/\r?\n/)) {
+        const match = /^[0-9a-f]+ refs\/tags\/(.+)$/.exec(line);
+        if (match) {
+            tags.add(match[1]);
+        }
+    }
+    const readRefs = async (folder: string, prefix: string) => {
+        const entries = await fs.readdir(folder, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries) {
+            if (entry.isDirectory()) {
+                await readRefs(path.join(folder, entry.name), `${prefix}${entry.name}/`);
+            } else {
+                tags.add(`${prefix}${entry.name}`);
+            }
+        }
+    };
+    await readRefs(path.join(repository, "refs", "tags"), "");
+    return [...tags];
+}
+
+/**
+ * Normalizes a repository URL so the location in `Package.resolved` matches
+ * the URL of the repository's mirror.
+ */
+function normalizeLocation(location: string): string {
+    return location
+        .trim()
+        .replace(/\/+$/, "")
+        .replace(/\.git$/, "")
+        .toLowerCase();
+}
+
+/**
+ * Reads the URL of the `origin` remote from a repository's `config` file.
+ */
+async function repositoryLocation(repository: string): Promise<string | undefined> {
+    const config = await fs.readFile(path.join(repository, "config"), "utf8").catch(() => "");
+    const match = /\[remote "origin"\][^[]*?^\s*url\s*=\s*(.+)$/m.exec(config);
+    return match?.[1];
+}
+
+/**
+ * Finds the repositories SwiftPM has cloned into `.build/repositories`,
+ * keyed by their normalized location.
+ */
+async function swiftPMRepositories(folder: string): Promise<Map<string, string>> {
+    const repositoriesPath = path.join(
+        BuildFlags.buildDirectoryFromWorkspacePath(folder, true),
+        "repositories"
+    );
+    const entries = await fs.readdir(repositoriesPath, { withFileTypes: true }).catch(() => []);
+    const repositories = new Map<string, string>();
+    for (const entry of entries) {
+        if (!entry.isDirectory()) {
+            continue;
+        }
+        const repository = path.join(repositoriesPath, entry.name);
+        const location = await repositoryLocation(repository);
+        if (location) {
+            repositories.set(normalizeLocation(location), repository);
+        }
+    }
+    return repositories;
+}
+
+/**
+ * Compares the version of each pin in `Package.resolved` with the tags of the
+ * repository SwiftPM cloned it from. This only reads the repositories already in
+ * `.build/repositories`, so it works offline but only knows about the tags that
+ * were fetched the last time the package was resolved.
+ *
+ * Pins to a branch or revision are skipped as they have no version to compare.
+ *
+ * @returns The dependencies with a newer release, keyed by identity
+ */
+export async function checkDependencyUpdates(
+    folder: string,
+    pins: PackageResolvedPin[]
+): Promise<Map<string, DependencyUpdate>> {
+    const updates = new Map<string, DependencyUpdate>();
+    const versionedPins = pins.filter(pin => pin.state.version);
+    if (versionedPins.length === 0) {
+        return updates;
+    }
+    const repositories = await swiftPMRepositories(folder);
+    for (const pin of versionedPins) {
+        const repository = repositories.get(normalizeLocation(pin.location));
+        if (!repository || !pin.state.version) {
+            continue;
+        }
+        const release = latestRelease(pin.state.version, await readTags(repository));
+        if (release) {
+            updates.set(pin.identity, {
+                identity: pin.identity,
+                current: pin.state.version,
+                ...release,
+            });
+        }
+    }
+    return updates;
+}
@@ -0,0 +1,206 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { BuildDiagnosticsEvent } from "./DiagnosticsManager";
+
+/** A warning reported by a build, relative to the folder that was built. */
+export interface WarningRecord {
+    file: string;
+    line: number;
+    message: string;
+}
+
+/** The warnings reported by a single build. */
+export interface BuildWarnings {
+    time: number;
+    warnings: WarningRecord[];
+}
+
+export enum WarningStatus {
+    /** The warning was reported by the latest build but not by the one before it. */
+    new = "new",
+    /** The warning was reported by the latest build and the one before it. */
+    longStanding = "longStanding",
+    /** The warning was reported by the build before the latest but not by the latest. */
+    fixed = "fixed",
+}
+
+export interface ClassifiedWarning extends WarningRecord {
+    status: WarningStatus;
+    /** When the warning was first reported by an uninterrupted run of builds. */
+    firstSeen: number;
+}
+
+/**
+ * Warnings are matched between builds by their file and message, as the line
+ * a warning is reported on moves as the code around it is edited.
+ */
+function warningKey(warning: WarningRecord): string {
+    return `${warning.file}\0${warning.message}`;
+}
+
+function countWarnings(build: BuildWarnings): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const warning of build.warnings) {
+        const key = warningKey(warning);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * Compares the latest build with the build before it. When there is only one
+ * build all of its warnings are treated as long-standing, so a codebase with
+ * existing warnings doesn't start out with every warning marked as new.
+ *
+ * @param builds The builds of a folder, oldest first
+ */
+export function classifyWarnings(builds: BuildWarnings[]): ClassifiedWarning[] {
+    const latest = builds[builds.length - 1];
+    if (!latest) {
+        return [];
+    }
+    const previous = builds[builds.length - 2];
+    const counts = builds.map(countWarnings);
+    const previousCounts = previous ? counts[counts.length - 2] : counts[counts.length - 1];
+
+    const firstSeen = (key: string, occurrence: number) => {
+        let index = builds.length - 1;
+        while (index > 0 && (counts[index - 1].get(key) ?? 0) > occurrence) {
+            index--;
+        }
+        return builds[index].time;
+    };
+
+    const result: ClassifiedWarning[] = [];
+    const occurrences = new Map<string, number>();
+    for (const warning of latest.warnings) {
+        const key = warningKey(warning);
+        const occurrence = occurrences.get(key) ?? 0;
+        occurrences.set(key, occurrence + 1);
+        const isNew = occurrence >= (previousCounts.get(key) ?? 0);
+        result.push({
+            ...warning,
+            status: isNew ? WarningStatus.new : WarningStatus.longStanding,
+            firstSeen: isNew ? latest.time : firstSeen(key, occurrence),
+        });
+    }
+    if (previous) {
+        const latestCounts = counts[counts.length - 1];
+        const fixedOccurrences = new Map<string, number>();
+        for (const warning of previous.warnings) {
+            const key = warningKey(warning);
+            const occurrence = fixedOccurrences.get(key) ?? 0;
+            fixedOccurrences.set(key, occurrence + 1);
+            if (occurrence >= (latestCounts.get(key) ?? 0)) {
+                result.push({
+                    ...warning,
+                    status: WarningStatus.fixed,
+                    firstSeen: firstSeen(key, occurrence),
+                });
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Converts the diagnostics of a build into the warnings recorded in the history.
+ */
+export function buildWarnings(event: BuildDiagnosticsEvent, time: number): BuildWarnings {
+    const warnings: WarningRecord[] = [];
+    event.diagnostics.forEach((diagnostics, file) => {
+        for (const diagnostic of diagnostics) {
+            if (diagnostic.severity !== vscode.DiagnosticSeverity.Warning) {
+                continue;
+            }
+            warnings.push({
+                file: path.relative(event.folder, file),
+                line: diagnostic.range.start.line + 1,
+                message: diagnostic.message,
+            });
+        }
+    });
+    warnings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+    return { time, warnings };
+}
+
+/**
+ * Keeps a rolling history of the warnings reported by the builds of each folder
+ * in the workspace state, so the warnings introduced by the latest build can be
+ * told apart from the ones the codebase already had.
+ */
+export class DiagnosticHistory {
+    private static STORAGE_KEY = "swift.diagnosticHistory";
+    private static FILTER_STORAGE_KEY = "swift.diagnosticHistoryFilter";
+    /** The number of builds kept for each folder. */
+    static readonly maxBuilds = 10;
+
+    /** Fires with the folder whose history changed, or `undefined` if the filter changed. */
+    private readonly didChangeEmitter = new vscode.EventEmitter<string | undefined>();
+    public readonly onDidChange = this.didChangeEmitter.event;
+
+    constructor(private memento: vscode.Memento) {}
+
+    /** Returns the recorded builds of a folder, oldest first. */
+    builds(folderPath: string): BuildWarnings[] {
+        return this.allBuilds()[folderPath] ?? [];
+    }
+
+    /** Classifies the warnings of the latest build of a folder. */
+    warnings(folderPath: string): ClassifiedWarning[] {
+        return classifyWarnings(this.builds(folderPath));
+    }
+
+    /** Records the warnings of a build, dropping the oldest build if the history is full. */
+    async record(event: BuildDiagnosticsEvent, time: number = Date.now()) {
+        const builds = [...this.builds(event.folder), buildWarnings(event, time)];
+        await this.update(event.folder, builds.slice(-DiagnosticHistory.maxBuilds));
+    }
+
+    async clear(folderPath: string) {
+        await this.update(folderPath, []);
+    }
+
+    /** The status of the warnings shown in the Build Warnings view, or all warnings if `undefined`. */
+    get filter(): WarningStatus | undefined {
+        return this.memento.get<WarningStatus>(DiagnosticHistory.FILTER_STORAGE_KEY);
+    }
+
+    async setFilter(filter: WarningStatus | undefined) {
+        await this.memento.update(DiagnosticHistory.FILTER_STORAGE_KEY, filter);
+        this.didChangeEmitter.fire(undefined);
+    }
+
+    dispose() {
+        this.didChangeEmitter.dispose();
+    }
+
+    private allBuilds(): { [folderPath: string]: BuildWarnings[] } {
+        return this.memento.get<{ [folderPath: string]: BuildWarnings[] }>(
+            DiagnosticHistory.STORAGE_KEY,
+            {}
+        );
+    }
+
+    private async update(folderPath: string, builds: BuildWarnings[]) {
+        await this.memento.update(DiagnosticHistory.STORAGE_KEY, {
+            ...this.allBuilds(),
+            [folderPath]: builds,
+        });
+        this.didChangeEmitter.fire(folderPath);
+    }
+}
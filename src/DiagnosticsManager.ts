@@ -11,14 +11,24 @@
 // SPDX-License-Identifier: Apache-2.0
 //
 //===----------------------------------------------------------------------===//
+import { convertPathToPattern, glob } from "fast-glob";
 import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
 
+import { isCompileTimeAnalysis } from "./CompileTimeHotspots";
 import { WorkspaceContext } from "./WorkspaceContext";
 import configuration from "./configuration";
 import { SwiftExecution } from "./tasks/SwiftExecution";
+import { BuildFlags } from "./toolchain/BuildFlags";
 import { validFileTypes } from "./utilities/filesystem";
+import {
+    SerializedDiagnostic,
+    SerializedDiagnosticSeverity,
+    SerializedLocation,
+    SerializedRange,
+    parseSerializedDiagnostics,
+} from "./utilities/serializedDiagnostics";
 import { checkIfBuildComplete, lineBreakRegex } from "./utilities/tasks";
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -29,8 +39,35 @@ interface ParsedDiagnostic {
     diagnostic: vscode.Diagnostic;
 }
 
+/**
+ * A fix suggested by the compiler for a `swiftc` diagnostic. The fix either
+ * belongs to the diagnostic itself or to one of its notes.
+ */
+export interface DiagnosticFix {
+    title: string;
+    edits: { uri: vscode.Uri; range: vscode.Range; newText: string }[];
+}
+
+/**
+ * A `swiftc` diagnostic read from the compiler's serialized diagnostics,
+ * which carries the fixes suggested by the compiler.
+ */
+interface FixableDiagnostic extends vscode.Diagnostic {
+    fixes?: DiagnosticFix[];
+    /** When the build the fixes were read from started. */
+    fixesBuildTime?: number;
+}
+
 type DiagnosticsMap = Map<string, vscode.Diagnostic[]>;
 
+/** The `swiftc` diagnostics reported by a build, keyed by file path. */
+export interface BuildDiagnosticsEvent {
+    folder: string;
+    /** The arguments of the `swift build` task. */
+    args: string[];
+    diagnostics: ReadonlyMap<string, vscode.Diagnostic[]>;
+}
+
 type SourcePredicate = (source: string) => boolean;
 
 type DiagnosticPredicate = (diagnostic: vscode.Diagnostic) => boolean;
@@ -64,6 +101,13 @@ export class DiagnosticsManager implements vscode.Disposable {
         vscode.languages.createDiagnosticCollection("swift");
     allDiagnostics: Map<string, vscode.Diagnostic[]> = new Map();
     private disposed = false;
+    private buildDiagnosticsEmitter = new vscode.EventEmitter<BuildDiagnosticsEvent>();
+
+    /**
+     * Fires with the `swiftc` diagnostics of each `swift build` task once they
+     * have been provided.
+     */
+    onDidProvideBuildDiagnostics = this.buildDiagnosticsEmitter.event;
 
     constructor(context: WorkspaceContext) {
         this.onDidChangeConfigurationDisposible = vscode.workspace.onDidChangeConfiguration(e => {
@@ -80,25 +124,40 @@ export class DiagnosticsManager implements vscode.Disposable {
             if (task.definition.type !== "swift") {
                 return;
             }
-            if (!this.includeSwiftcDiagnostics()) {
+            const swiftExecution = task.execution as SwiftExecution;
+            // The warnings of compile-time analysis builds are only reported to the
+            // Compile-Time Hotspots view, not the Problems view
+            const isAnalysis = isCompileTimeAnalysis(swiftExecution.args);
+            if (!isAnalysis && !this.includeSwiftcDiagnostics()) {
                 return;
             }
             // Provide new list of diagnostics
-            const swiftExecution = task.execution as SwiftExecution;
-            const provideDiagnostics: Promise<DiagnosticsMap> =
-                this.parseDiagnostics(swiftExecution);
+            const startTime = Date.now();
+            const provideDiagnostics: Promise<DiagnosticsMap> = this.parseDiagnostics(
+                swiftExecution
+            ).then(map => this.mergeSerializedDiagnostics(map, swiftExecution, startTime));
 
             provideDiagnostics
                 .then(map => {
-                    // Clean up old "swiftc" diagnostics
-                    this.removeSwiftcDiagnostics();
-                    map.forEach((diagnostics, uri) => {
-                        this.handleDiagnostics(
-                            vscode.Uri.file(uri),
-                            DiagnosticsManager.isSwiftc,
-                            diagnostics
-                        );
-                    });
+                    if (!isAnalysis) {
+                        // Clean up old "swiftc" diagnostics
+                        this.removeSwiftcDiagnostics();
+                        map.forEach((diagnostics, uri) => {
+                            this.handleDiagnostics(
+                                vscode.Uri.file(uri),
+                                DiagnosticsManager.isSwiftc,
+                                diagnostics
+                            );
+                        });
+                    }
+                    const cwd = swiftExecution.options.cwd;
+                    if (cwd && swiftExecution.args.includes("build")) {
+                        this.buildDiagnosticsEmitter.fire({
+                            folder: cwd,
+                            args: swiftExecution.args,
+                            diagnostics: map,
+                        });
+                    }
                 })
                 .catch(e => context.logger.error(`Failed to provide "swiftc" diagnostics: ${e}`));
         });
@@ -113,6 +172,13 @@ export class DiagnosticsManager implements vscode.Disposable {
                 this.diagnosticCollection.delete(uri);
             }
         });
+        // The ranges of compiler fixes no longer match a file once it is edited, including
+        // by applying the fixes themselves
+        this.onDidChangeTextDocumentDisposable = vscode.workspace.onDidChangeTextDocument(e => {
+            if (e.contentChanges.length > 0) {
+                this.removeFixes(e.document.uri);
+            }
+        });
     }
 
     /**
@@ -274,6 +340,102 @@ export class DiagnosticsManager implements vscode.Disposable {
         return removed;
     }
 
+    /**
+     * Returns the compiler suggested fixes for a `swiftc` diagnostic.
+     *
+     * @param uri {@link vscode.Uri Uri} of the file the diagnostic applies to
+     * @param diagnostic The diagnostic, usually provided by a {@link vscode.CodeActionContext}
+     */
+    fixes(uri: vscode.Uri, diagnostic: vscode.Diagnostic): DiagnosticFix[] {
+        if (!isSwiftc(diagnostic)) {
+            return [];
+        }
+        const match = this.allDiagnostics
+            .get(uri.fsPath)
+            ?.find(
+                d =>
+                    isSwiftc(d) &&
+                    d.range.isEqual(diagnostic.range) &&
+                    d.message === diagnostic.message
+            );
+        return match ? this.currentFixes(match, new Map()) : [];
+    }
+
+    /**
+     * Returns the compiler suggested fixes for every `swiftc` diagnostic that has them.
+     *
+     * @param uri Only return fixes for diagnostics in this file
+     */
+    allFixes(uri?: vscode.Uri): { uri: vscode.Uri; fixes: DiagnosticFix[] }[] {
+        const result: { uri: vscode.Uri; fixes: DiagnosticFix[] }[] = [];
+        const changedFiles = new Map<string, boolean>();
+        this.allDiagnostics.forEach((diagnostics, fsPath) => {
+            if (uri && uri.fsPath !== fsPath) {
+                return;
+            }
+            for (const diagnostic of diagnostics) {
+                const fixes = this.currentFixes(diagnostic, changedFiles);
+                if (fixes.length > 0) {
+                    result.push({ uri: vscode.Uri.file(fsPath), fixes });
+                }
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Returns the fixes of a `swiftc` diagnostic, or none if any file they edit changed
+     * since the build that suggested them, as their ranges may no longer match its contents.
+     *
+     * @param changedFiles Whether each file checked so far has changed, keyed by file path
+     */
+    private currentFixes(
+        diagnostic: vscode.Diagnostic,
+        changedFiles: Map<string, boolean>
+    ): DiagnosticFix[] {
+        const { fixes, fixesBuildTime } = diagnostic as FixableDiagnostic;
+        if (!isSwiftc(diagnostic) || !fixes || fixesBuildTime === undefined) {
+            return [];
+        }
+        const isChanged = (fsPath: string) => {
+            let changed = changedFiles.get(fsPath);
+            if (changed === undefined) {
+                changed = this.isChangedSince(fsPath, fixesBuildTime);
+                changedFiles.set(fsPath, changed);
+            }
+            return changed;
+        };
+        const edits = fixes.flatMap(fix => fix.edits);
+        return edits.some(edit => isChanged(edit.uri.fsPath)) ? [] : fixes;
+    }
+
+    /** Whether a file has unsaved edits or was saved after the given time. */
+    private isChangedSince(fsPath: string, time: number): boolean {
+        const document = vscode.workspace.textDocuments.find(d => d.uri.fsPath === fsPath);
+        if (document?.isDirty) {
+            return true;
+        }
+        try {
+            return fs.statSync(fsPath).mtimeMs > time;
+        } catch {
+            return true;
+        }
+    }
+
+    /** Removes the compiler suggested fixes that edit a file. */
+    private removeFixes(uri: vscode.Uri) {
+        this.allDiagnostics.forEach(diagnostics => {
+            for (const diagnostic of diagnostics as FixableDiagnostic[]) {
+                if (
+                    diagnostic.fixes?.some(fix => fix.edits.some(e => e.uri.fsPath === uri.fsPath))
+                ) {
+                    delete diagnostic.fixes;
+                    delete diagnostic.fixesBuildTime;
+                }
+            }
+        });
+    }
+
     /**
      * Clear the `swift` diagnostics collection. Mostly meant for testing purposes.
      */
@@ -285,9 +447,11 @@ export class DiagnosticsManager implements vscode.Disposable {
     dispose() {
         this.disposed = true;
         this.diagnosticCollection.dispose();
+        this.buildDiagnosticsEmitter.dispose();
         this.onDidStartTaskDisposible.dispose();
         this.onDidChangeConfigurationDisposible.dispose();
         this.onDidDeleteDisposible.dispose();
+        this.onDidChangeTextDocumentDisposable.dispose();
         this.workspaceFileWatcher.dispose();
     }
 
@@ -391,6 +555,207 @@ export class DiagnosticsManager implements vscode.Disposable {
         });
     }
 
+    /**
+     * Replaces the diagnostics parsed from the task output with the diagnostics the
+     * compiler serialized to `.dia` files. These keep the full range,
+     * category and fix-its of each diagnostic. Files the compiler did not write
+     * serialized diagnostics for, such as C files, keep the parsed diagnostics.
+     */
+    private async mergeSerializedDiagnostics(
+        parsedDiagnostics: DiagnosticsMap,
+        swiftExecution: SwiftExecution,
+        startTime: number
+    ): Promise<DiagnosticsMap> {
+        const cwd = swiftExecution.options.cwd;
+        if (!cwd) {
+            return parsedDiagnostics;
+        }
+        // Builds with their own scratch path, such as compile-time analysis builds, write
+        // their serialized diagnostics there
+        const scratchPathIndex = swiftExecution.args.lastIndexOf("--scratch-path");
+        const buildPath =
+            scratchPathIndex >= 0 && scratchPathIndex + 1 < swiftExecution.args.length
+                ? path.resolve(cwd, swiftExecution.args[scratchPathIndex + 1])
+                : BuildFlags.buildDirectoryFromWorkspacePath(cwd, true);
+        const serializedDiagnostics = await this.readSerializedDiagnostics(buildPath, startTime);
+        serializedDiagnostics.forEach((diagnostics, uri) =>
+            parsedDiagnostics.set(uri, diagnostics)
+        );
+        return parsedDiagnostics;
+    }
+
+    private async readSerializedDiagnostics(
+        buildPath: string,
+        since: number
+    ): Promise<DiagnosticsMap> {
+        const diagnostics: DiagnosticsMap = new Map();
+        // Serialized diagnostics are written to `.build/<triple>/<configuration>/<target>.build`.
+        // Don't follow the `.build/<configuration>` symlinks so each file is only read once.
+        const entries = await glob(`${convertPathToPattern(buildPath)}/*/*/*.build/*.dia`, {
+            followSymbolicLinks: false,
+            stats: true,
+        });
+        // Incremental builds only rewrite the serialized diagnostics of files that were
+        // recompiled, the rest still describe the current state of their file. Read every
+        // file of the configurations that were built, or of the most recently built
+        // configuration if nothing needed to be recompiled.
+        const configurationPath = (file: string) => path.dirname(path.dirname(file));
+        let builtConfigurations = new Set(
+            entries
+                .filter(entry => (entry.stats?.mtimeMs ?? 0) >= since)
+                .map(entry => configurationPath(entry.path))
+        );
+        if (builtConfigurations.size === 0 && entries.length > 0) {
+            const latest = entries.reduce((a, b) =>
+                (a.stats?.mtimeMs ?? 0) >= (b.stats?.mtimeMs ?? 0) ? a : b
+            );
+            builtConfigurations = new Set([configurationPath(latest.path)]);
+        }
+        for (const entry of entries) {
+            if (!builtConfigurations.has(configurationPath(entry.path))) {
+                continue;
+            }
+            let serialized: SerializedDiagnostic[];
+            try {
+                serialized = parseSerializedDiagnostics(await fs.promises.readFile(entry.path));
+            } catch {
+                // The file is being written or was produced by an incompatible compiler
+                continue;
+            }
+            for (const serializedDiagnostic of serialized) {
+                const result = this.serializedDiagnostic(serializedDiagnostic, since);
+                if (!result) {
+                    continue;
+                }
+                const currentUriDiagnostics = diagnostics.get(result.uri) ?? [];
+                // The same diagnostic is serialized for each file in a module that is
+                // affected by it, such as a diagnostic in a macro expansion
+                if (
+                    currentUriDiagnostics.find(
+                        d =>
+                            d.message === result.diagnostic.message &&
+                            d.range.isEqual(result.diagnostic.range)
+                    )
+                ) {
+                    continue;
+                }
+                diagnostics.set(result.uri, [...currentUriDiagnostics, result.diagnostic]);
+            }
+        }
+        return diagnostics;
+    }
+
+    /**
+     * Converts a serialized diagnostic, keeping the fixes suggested by the compiler.
+     *
+     * @param buildTime When the build that serialized the diagnostic started
+     */
+    private serializedDiagnostic(
+        serialized: SerializedDiagnostic,
+        buildTime: number
+    ): ParsedDiagnostic | undefined {
+        const severity = this.serializedSeverity(serialized.severity);
+        if (severity === undefined) {
+            return;
+        }
+        let location = serialized.location;
+        let range = location && this.serializedRange(location, serialized.ranges);
+        // If the diagnostic comes from a macro expansion the location is within a generated
+        // buffer that doesn't exist on disk. Use the note with the expansion location instead.
+        if (!location || !this.isValidUri(location.file)) {
+            const note = serialized.notes.find(n => n.location && this.isValidUri(n.location.file));
+            location = note?.location;
+            range = note?.location && this.serializedRange(note.location, note.ranges);
+        }
+        if (!location || !range) {
+            return;
+        }
+
+        const diagnostic: FixableDiagnostic = new vscode.Diagnostic(
+            range,
+            this.capitalize(serialized.message),
+            severity
+        );
+        diagnostic.source = DiagnosticsManager.swiftc;
+        if (serialized.category) {
+            diagnostic.code = serialized.category;
+        }
+        if (serialized.category === "deprecation") {
+            diagnostic.tags = [vscode.DiagnosticTag.Deprecated];
+        } else if (serialized.category === "no-usage") {
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        }
+        const notes = serialized.notes.filter(n => n.location && this.isValidUri(n.location.file));
+        if (notes.length > 0) {
+            diagnostic.relatedInformation = notes.map(
+                n =>
+                    new vscode.DiagnosticRelatedInformation(
+                        new vscode.Location(
+                            vscode.Uri.file(n.location!.file),
+                            this.serializedRange(n.location!, n.ranges)
+                        ),
+                        this.capitalize(n.message)
+                    )
+            );
+        }
+        const fixes = [serialized, ...serialized.notes]
+            .filter(d => d.fixIts.length > 0)
+            .map(d => ({
+                title: d === serialized ? `Fix: ${diagnostic.message}` : this.capitalize(d.message),
+                edits: d.fixIts.map(fixIt => ({
+                    uri: vscode.Uri.file(fixIt.range.start.file),
+                    range: this.vscodeRange(fixIt.range),
+                    newText: fixIt.text,
+                })),
+            }));
+        if (fixes.length > 0) {
+            diagnostic.fixes = fixes;
+            diagnostic.fixesBuildTime = buildTime;
+        }
+        return { uri: vscode.Uri.file(location.file).fsPath, diagnostic };
+    }
+
+    /**
+     * The range of a serialized diagnostic is the highlighted range that starts at its
+     * location, or an empty range at its location if nothing is highlighted.
+     */
+    private serializedRange(location: SerializedLocation, ranges: SerializedRange[]): vscode.Range {
+        const highlight = ranges.find(
+            r =>
+                r.start.file === location.file &&
+                r.start.line === location.line &&
+                r.start.column === location.column
+        );
+        if (highlight) {
+            return this.vscodeRange(highlight);
+        }
+        return this.range(location.line.toString(), location.column.toString());
+    }
+
+    private vscodeRange(range: SerializedRange): vscode.Range {
+        // Serialized locations are 1-based but vscode expects 0-based lines and columns
+        return new vscode.Range(
+            new vscode.Position(range.start.line - 1, range.start.column - 1),
+            new vscode.Position(range.end.line - 1, range.end.column - 1)
+        );
+    }
+
+    private serializedSeverity(
+        severity: SerializedDiagnosticSeverity
+    ): vscode.DiagnosticSeverity | undefined {
+        switch (severity) {
+            case SerializedDiagnosticSeverity.error:
+            case SerializedDiagnosticSeverity.fatal:
+                return vscode.DiagnosticSeverity.Error;
+            case SerializedDiagnosticSeverity.warning:
+                return vscode.DiagnosticSeverity.Warning;
+            case SerializedDiagnosticSeverity.remark:
+                return vscode.DiagnosticSeverity.Information;
+            default:
+                return undefined;
+        }
+    }
+
     private isValidUri(uri: string): boolean {
         try {
             fs.accessSync(uri, fs.constants.F_OK);
@@ -468,5 +833,6 @@ export class DiagnosticsManager implements vscode.Disposable {
     private onDidStartTaskDisposible: vscode.Disposable;
     private onDidChangeConfigurationDisposible: vscode.Disposable;
     private onDidDeleteDisposible: vscode.Disposable;
+    private onDidChangeTextDocumentDisposable: vscode.Disposable;
     private workspaceFileWatcher: vscode.FileSystemWatcher;
 }
@@ -16,12 +16,14 @@ import * as vscode from "vscode";
 
 import { BackgroundCompilation } from "./BackgroundCompilation";
 import { LinuxMain } from "./LinuxMain";
+import { PinChange } from "./PackageResolvedChanges";
 import { PackageWatcher } from "./PackageWatcher";
 import { SwiftPackage, Target, TargetType } from "./SwiftPackage";
 import { TestExplorer } from "./TestExplorer/TestExplorer";
 import { TestRunManager } from "./TestExplorer/TestRunManager";
 import { TestRunProxy } from "./TestExplorer/TestRunner";
 import { FolderOperation, WorkspaceContext } from "./WorkspaceContext";
+import { TestCoverage } from "./coverage/LcovResults";
 import { SwiftLogger } from "./logging/SwiftLogger";
 import { TaskQueue } from "./tasks/TaskQueue";
 import { SwiftToolchain } from "./toolchain/toolchain";
@@ -34,6 +36,14 @@ export class FolderContext implements vscode.Disposable {
     public taskQueue: TaskQueue;
     public testExplorer?: TestExplorer;
     public resolvedTestExplorer: Promise<TestExplorer>;
+    /** Coverage results of the last test run with code coverage */
+    public latestCoverage?: TestCoverage;
+    /** JUnit XML report of the last Test Explorer run */
+    public latestJUnitReport?: string;
+    /** Identifiers of the tests that failed in the last Test Explorer run */
+    public latestFailedTestIds?: string[];
+    /** Changes to the pins of Package.resolved the last time it changed */
+    public resolvedChanges: PinChange[] = [];
     private testExplorerResolver?: (testExplorer: TestExplorer) => void;
     private packageWatcher: PackageWatcher;
     private testRunManager: TestRunManager;
@@ -0,0 +1,417 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { createHash } from "crypto";
+import { glob } from "fast-glob";
+import { existsSync } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { FolderContext } from "./FolderContext";
+import { FolderOperation, WorkspaceContext } from "./WorkspaceContext";
+import { SwiftExecution } from "./tasks/SwiftExecution";
+import { isPathInsidePath } from "./utilities/filesystem";
+import { getErrorDescription } from "./utilities/utilities";
+import { Version } from "./utilities/version";
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import debounce = require("lodash.debounce");
+
+export enum GeneratedSourceChange {
+    added = "added",
+    modified = "modified",
+    removed = "removed",
+}
+
+/** The folder a build tool plugin writes the files it generates for a target to. */
+export interface PluginOutput {
+    package: string;
+    target: string;
+    plugin: string;
+    /** Path of the folder relative to `.build/plugins/outputs`. */
+    folder: string;
+}
+
+/** How the generated sources of a folder changed in the latest generation. */
+interface Generation {
+    time: number;
+    /** The changed files, keyed by their path relative to `.build/plugins/outputs`. */
+    changes: { [file: string]: GeneratedSourceChange };
+}
+
+const newPluginLayoutVersion = new Version(6, 0, 0);
+
+/** Returns the folder build tool plugins write their outputs to. */
+export function pluginOutputsPath(folderPath: string): string {
+    return path.join(folderPath, ".build", "plugins", "outputs");
+}
+
+/**
+ * Parses the package, target and plugin from the path of a plugin output folder relative to
+ * `.build/plugins/outputs`. The folders follow the pattern
+ * `<package>/<target>/destination/<plugin>` since Swift 6.0, and
+ * `<package>/<target>/<plugin>` before that.
+ */
+export function parsePluginOutput(folder: string, swiftVersion: Version): PluginOutput | undefined {
+    const components = folder.split(/[\\/]/);
+    const newLayout = swiftVersion.isGreaterThanOrEqual(newPluginLayoutVersion);
+    if (components.length !== (newLayout ? 4 : 3)) {
+        return undefined;
+    }
+    return {
+        package: components[0],
+        target: components[1],
+        plugin: components[components.length - 1],
+        folder: components.join("/"),
+    };
+}
+
+/** Lists the files in a folder recursively, relative to the folder and using `/` separators. */
+async function listFiles(folder: string): Promise<string[]> {
+    if (!existsSync(folder)) {
+        return [];
+    }
+    return await glob("**/*", { cwd: folder, onlyFiles: true, dot: true });
+}
+
+/**
+ * Compares the files generated by build tool plugins with a snapshot of the previous generation.
+ *
+ * @param previousFolder The snapshot of `.build/plugins/outputs` taken after the previous build
+ * @param currentFolder The `.build/plugins/outputs` folder
+ * @returns The changed files, keyed by their path relative to the folders
+ */
+export async function compareGenerations(
+    previousFolder: string,
+    currentFolder: string
+): Promise<{ [file: string]: GeneratedSourceChange }> {
+    const previousFiles = new Set(await listFiles(previousFolder));
+    const currentFiles = await listFiles(currentFolder);
+    const changes: { [file: string]: GeneratedSourceChange } = {};
+    for (const file of currentFiles) {
+        if (!previousFiles.delete(file)) {
+            changes[file] = GeneratedSourceChange.added;
+            continue;
+        }
+        const [previous, current] = await Promise.all([
+            fs.readFile(path.join(previousFolder, file)),
+            fs.readFile(path.join(currentFolder, file)),
+        ]);
+        if (!previous.equals(current)) {
+            changes[file] = GeneratedSourceChange.modified;
+        }
+    }
+    for (const file of previousFiles) {
+        changes[file] = GeneratedSourceChange.removed;
+    }
+    return changes;
+}
+
+/**
+ * Polls for the existence of a folder at the given path every 2.5 seconds.
+ * Notifies via the provided callbacks when the folder becomes available or is deleted.
+ */
+function watchForFolder(
+    folderPath: string,
+    onAvailable: () => void,
+    onDeleted: () => void
+): vscode.Disposable {
+    const POLL_INTERVAL = 2500;
+    let folderExists = existsSync(folderPath);
+
+    if (folderExists) {
+        onAvailable();
+    }
+
+    const interval = setInterval(() => {
+        const nowExists = existsSync(folderPath);
+        if (nowExists && !folderExists) {
+            folderExists = true;
+            onAvailable();
+        } else if (!nowExists && folderExists) {
+            folderExists = false;
+            onDeleted();
+        }
+    }, POLL_INTERVAL);
+
+    return {
+        dispose: () => clearInterval(interval),
+    };
+}
+
+/**
+ * Keeps track of the sources build tool plugins generate for the targets of each folder.
+ *
+ * The outputs of the current folder are watched for changes. After each build the outputs are
+ * copied to a snapshot. When the next build changes any of the generated sources, that
+ * snapshot is kept as the previous generation, so the sources can be compared with it.
+ * Snapshots are only copied while no build of the folder is running, so they never contain
+ * the outputs of a build in progress.
+ */
+export class GeneratedSources implements vscode.Disposable {
+    private static STORAGE_KEY = "swift.generatedSources";
+    /** The number of running builds of each folder. */
+    private runningBuilds = new Map<string, number>();
+    /** The number of builds of each folder started since the extension was activated. */
+    private startedBuilds = new Map<string, number>();
+    /** The latest snapshot operation of each folder, so they run one at a time. */
+    private snapshotOperations = new Map<string, Promise<void>>();
+    private outputWatcher?: vscode.FileSystemWatcher;
+    private outputFolderWatcher?: vscode.Disposable;
+    private disposables: vscode.Disposable[];
+
+    /** Fires with the folder whose generated sources changed. */
+    private readonly didChangeEmitter = new vscode.EventEmitter<string>();
+    public readonly onDidChange = this.didChangeEmitter.event;
+
+    /** Fires {@link onDidChange} once a burst of writes to the generated sources is over. */
+    private fireDidChange = debounce(
+        (folderPath: string) => this.didChangeEmitter.fire(folderPath),
+        500
+    );
+
+    constructor(
+        private workspaceContext: WorkspaceContext,
+        private storagePath: string,
+        private memento: vscode.Memento
+    ) {
+        this.disposables = [
+            this.didChangeEmitter,
+            workspaceContext.onDidChangeFolders(({ folder, operation }) => {
+                if (operation === FolderOperation.focus && folder) {
+                    this.watchOutputs(folder);
+                }
+            }),
+            vscode.tasks.onDidStartTask(event => this.observeTask(event.execution.task)),
+        ];
+    }
+
+    dispose() {
+        this.fireDidChange.cancel();
+        this.outputWatcher?.dispose();
+        this.outputFolderWatcher?.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Lists the plugin output folders of a folder, sorted by target and plugin. */
+    async outputs(folderContext: FolderContext): Promise<PluginOutput[]> {
+        const outputsPath = pluginOutputsPath(folderContext.folder.fsPath);
+        if (!existsSync(outputsPath)) {
+            return [];
+        }
+        const version = folderContext.toolchain.swiftVersion;
+        const depth = version.isGreaterThanOrEqual(newPluginLayoutVersion) ? 4 : 3;
+        const folders = await glob("*/".repeat(depth).slice(0, -1), {
+            cwd: outputsPath,
+            onlyDirectories: true,
+            deep: depth,
+        });
+        return folders
+            .map(folder => parsePluginOutput(folder, version))
+            .filter((output): output is PluginOutput => output !== undefined)
+            .sort((a, b) => a.target.localeCompare(b.target) || a.plugin.localeCompare(b.plugin));
+    }
+
+    /**
+     * Lists the sources of a plugin output folder, including the sources that were
+     * removed in the latest generation, keyed by their path relative to `.build/plugins/outputs`.
+     */
+    async files(
+        folderPath: string,
+        output: PluginOutput
+    ): Promise<{ file: string; change?: GeneratedSourceChange }[]> {
+        const files = await listFiles(path.join(pluginOutputsPath(folderPath), output.folder));
+        const changes = this.generation(folderPath)?.changes ?? {};
+        const prefix = `${output.folder}/`;
+        const removed = Object.keys(changes).filter(
+            file => file.startsWith(prefix) && changes[file] === GeneratedSourceChange.removed
+        );
+        return [...files.map(file => `${prefix}${file}`), ...removed]
+            .sort()
+            .map(file => ({ file, change: changes[file] }));
+    }
+
+    /** Returns when the latest generation that changed the sources of a folder happened. */
+    generationTime(folderPath: string): number | undefined {
+        return this.generation(folderPath)?.time;
+    }
+
+    /**
+     * Returns the path of a generated source as it was before the latest generation, or
+     * `undefined` if the source didn't exist then.
+     *
+     * @param file Path of the source relative to `.build/plugins/outputs`
+     */
+    previousGeneration(folderPath: string, file: string): string | undefined {
+        const previous = path.join(this.snapshotPath(folderPath, "previous"), file);
+        return existsSync(previous) ? previous : undefined;
+    }
+
+    /**
+     * Finds the folder a generated source belongs to and its path relative to
+     * `.build/plugins/outputs`.
+     */
+    findGeneratedSource(fsPath: string): { folder: FolderContext; file: string } | undefined {
+        for (const folder of this.workspaceContext.folders) {
+            const outputsPath = pluginOutputsPath(folder.folder.fsPath);
+            if (isPathInsidePath(fsPath, outputsPath)) {
+                const file = path.relative(outputsPath, fsPath).split(path.sep).join("/");
+                return { folder, file };
+            }
+        }
+        return undefined;
+    }
+
+    private watchOutputs(folderContext: FolderContext) {
+        this.outputWatcher?.dispose();
+        this.outputFolderWatcher?.dispose();
+
+        const folderPath = folderContext.folder.fsPath;
+        this.takeInitialSnapshot(folderPath);
+        const fire = () => this.fireDidChange(folderPath);
+        const outputsPath = pluginOutputsPath(folderPath);
+        this.outputFolderWatcher = watchForFolder(
+            outputsPath,
+            () => {
+                this.outputWatcher = vscode.workspace.createFileSystemWatcher(
+                    new vscode.RelativePattern(outputsPath, "**")
+                );
+                this.outputWatcher.onDidCreate(fire);
+                this.outputWatcher.onDidDelete(fire);
+                this.outputWatcher.onDidChange(fire);
+                fire();
+            },
+            () => {
+                this.outputWatcher?.dispose();
+                fire();
+            }
+        );
+    }
+
+    private observeTask(task: vscode.Task) {
+        if (
+            task.definition.type !== "swift" ||
+            task.group !== vscode.TaskGroup.Build ||
+            !(task.execution instanceof SwiftExecution)
+        ) {
+            return;
+        }
+        const execution = task.execution;
+        const folderPath = execution.options.cwd;
+        if (!folderPath) {
+            return;
+        }
+        this.runningBuilds.set(folderPath, (this.runningBuilds.get(folderPath) ?? 0) + 1);
+        this.startedBuilds.set(folderPath, (this.startedBuilds.get(folderPath) ?? 0) + 1);
+        const disposable = execution.onDidClose(() => {
+            disposable.dispose();
+            const running = (this.runningBuilds.get(folderPath) ?? 1) - 1;
+            this.runningBuilds.set(folderPath, running);
+            // Wait for the builds of the same folder that overlap to finish
+            if (running === 0) {
+                this.enqueueSnapshotOperation(folderPath, () => this.finishGeneration(folderPath));
+            }
+        });
+    }
+
+    /** Takes the first snapshot of a folder, so the changes of its next build are known. */
+    private takeInitialSnapshot(folderPath: string) {
+        this.enqueueSnapshotOperation(folderPath, async () => {
+            if (!existsSync(this.snapshotPath(folderPath, "current"))) {
+                await this.takeSnapshot(folderPath);
+            }
+        });
+    }
+
+    private enqueueSnapshotOperation(folderPath: string, operation: () => Promise<void>) {
+        const previousOperation = this.snapshotOperations.get(folderPath) ?? Promise.resolve();
+        this.snapshotOperations.set(
+            folderPath,
+            previousOperation
+                .then(operation)
+                .catch(error =>
+                    this.workspaceContext.logger.error(
+                        `Failed to compare the generated sources of ${folderPath}: ${getErrorDescription(error)}`
+                    )
+                )
+        );
+    }
+
+    /**
+     * Copies the outputs of a folder to its current snapshot. The copy is discarded if a build
+     * of the folder starts while it is taken.
+     */
+    private async takeSnapshot(folderPath: string) {
+        if (this.runningBuilds.get(folderPath)) {
+            return;
+        }
+        const startedBuilds = this.startedBuilds.get(folderPath);
+        const pending = this.snapshotPath(folderPath, "pending");
+        await fs.rm(pending, { recursive: true, force: true });
+        await fs.mkdir(pending, { recursive: true });
+        const outputsPath = pluginOutputsPath(folderPath);
+        if (existsSync(outputsPath)) {
+            await fs.cp(outputsPath, pending, { recursive: true });
+        }
+        if (this.startedBuilds.get(folderPath) !== startedBuilds) {
+            await fs.rm(pending, { recursive: true, force: true });
+            return;
+        }
+        const current = this.snapshotPath(folderPath, "current");
+        await fs.rm(current, { recursive: true, force: true });
+        await fs.rename(pending, current);
+    }
+
+    /**
+     * Keeps the current snapshot as the previous generation if the build changed the generated
+     * sources, and takes a new snapshot of them.
+     */
+    private async finishGeneration(folderPath: string) {
+        const current = this.snapshotPath(folderPath, "current");
+        if (!existsSync(current)) {
+            await this.takeSnapshot(folderPath);
+            return;
+        }
+        const changes = await compareGenerations(current, pluginOutputsPath(folderPath));
+        if (Object.keys(changes).length === 0) {
+            return;
+        }
+        const previous = this.snapshotPath(folderPath, "previous");
+        await fs.rm(previous, { recursive: true, force: true });
+        await fs.rename(current, previous);
+        await this.memento.update(GeneratedSources.STORAGE_KEY, {
+            ...this.allGenerations(),
+            [folderPath]: { time: Date.now(), changes },
+        });
+        this.didChangeEmitter.fire(folderPath);
+        await this.takeSnapshot(folderPath);
+    }
+
+    private snapshotPath(folderPath: string, name: "pending" | "current" | "previous"): string {
+        const hash = createHash("sha256").update(folderPath).digest("hex").substring(0, 16);
+        return path.join(this.storagePath, "generated-sources", hash, name);
+    }
+
+    private generation(folderPath: string): Generation | undefined {
+        return this.allGenerations()[folderPath];
+    }
+
+    private allGenerations(): { [folderPath: string]: Generation } {
+        return this.memento.get<{ [folderPath: string]: Generation }>(
+            GeneratedSources.STORAGE_KEY,
+            {}
+        );
+    }
+}
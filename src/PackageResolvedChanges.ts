@@ -0,0 +1,118 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { PackageResolved, PackageResolvedPinState } from "./SwiftPackage";
+import { Version } from "./utilities/version";
+
+export enum PinChangeKind {
+    added = "added",
+    removed = "removed",
+    upgraded = "upgraded",
+    downgraded = "downgraded",
+    /** The revision or branch changed without moving to a higher or lower version. */
+    changed = "changed",
+}
+
+/** A change to a pin between two versions of `Package.resolved`. */
+export interface PinChange {
+    identity: string;
+    kind: PinChangeKind;
+    previous?: PackageResolvedPinState;
+    current?: PackageResolvedPinState;
+    /** Reasons the change should be reviewed, such as a downgrade. */
+    warnings: string[];
+}
+
+/** The order changes are listed in, so the ones most likely to be a mistake come first. */
+const kindOrder = [
+    PinChangeKind.downgraded,
+    PinChangeKind.upgraded,
+    PinChangeKind.changed,
+    PinChangeKind.added,
+    PinChangeKind.removed,
+];
+
+/**
+ * Describes the state of a pin as its version, or branch or abbreviated revision
+ * if it isn't pinned to a version.
+ */
+export function describePinState(state: PackageResolvedPinState): string {
+    return state.version ?? state.branch ?? state.revision.substring(0, 7);
+}
+
+function changeKind(
+    previous: PackageResolvedPinState,
+    current: PackageResolvedPinState
+): PinChangeKind | undefined {
+    if (
+        previous.revision === current.revision &&
+        previous.version === current.version &&
+        previous.branch === current.branch
+    ) {
+        return undefined;
+    }
+    const previousVersion = previous.version ? Version.fromString(previous.version) : undefined;
+    const currentVersion = current.version ? Version.fromString(current.version) : undefined;
+    if (previousVersion && currentVersion) {
+        if (currentVersion.isGreaterThan(previousVersion)) {
+            return PinChangeKind.upgraded;
+        } else if (currentVersion.isLessThan(previousVersion)) {
+            return PinChangeKind.downgraded;
+        }
+    }
+    return PinChangeKind.changed;
+}
+
+/**
+ * Compares the pins of two versions of `Package.resolved`, returning the pins that were
+ * added, removed or changed. Downgrades and pins to a branch are flagged with a warning,
+ * as they are easily missed in a large diff of the resolved file.
+ *
+ * @param previous The contents of `Package.resolved` before the change, if it existed
+ * @param current The contents of `Package.resolved` after the change, if it exists
+ */
+export function comparePackageResolved(
+    previous: PackageResolved | undefined,
+    current: PackageResolved | undefined
+): PinChange[] {
+    const previousPins = new Map((previous?.pins ?? []).map(pin => [pin.identity, pin.state]));
+    const currentPins = new Map((current?.pins ?? []).map(pin => [pin.identity, pin.state]));
+    const changes: PinChange[] = [];
+    for (const [identity, state] of currentPins) {
+        const previousState = previousPins.get(identity);
+        const kind = previousState ? changeKind(previousState, state) : PinChangeKind.added;
+        if (!kind) {
+            continue;
+        }
+        const warnings: string[] = [];
+        if (kind === PinChangeKind.downgraded && previousState) {
+            warnings.push(
+                `Downgraded from ${describePinState(previousState)} to ${describePinState(state)}`
+            );
+        }
+        if (state.branch) {
+            warnings.push(`Pinned to branch "${state.branch}"`);
+        }
+        changes.push({ identity, kind, previous: previousState, current: state, warnings });
+    }
+    for (const [identity, state] of previousPins) {
+        if (!currentPins.has(identity)) {
+            changes.push({ identity, kind: PinChangeKind.removed, previous: state, warnings: [] });
+        }
+    }
+    return changes.sort(
+        (a, b) =>
+            kindOrder.indexOf(a.kind) - kindOrder.indexOf(b.kind) ||
+            a.identity.localeCompare(b.identity)
+    );
+}
@@ -16,6 +16,7 @@ import * as path from "path";
 import * as vscode from "vscode";
 
 import { FolderContext } from "./FolderContext";
+import { PinChange, PinChangeKind, comparePackageResolved } from "./PackageResolvedChanges";
 import { FolderOperation } from "./WorkspaceContext";
 import { SwiftLogger } from "./logging/SwiftLogger";
 import { BuildFlags } from "./toolchain/BuildFlags";
@@ -175,17 +176,50 @@ export class PackageWatcher {
     /**
      * Handles a create or change event for **Package.resolved**.
      *
-     * This will resolve any changes in the Package.resolved.
+     * This will resolve any changes in the Package.resolved, and record
+     * how its pins changed so they can be reviewed.
      */
     private async handlePackageResolvedChange() {
-        const packageResolvedHash = this.folderContext.swiftPackage.resolved?.fileHash;
+        const previousResolved = this.folderContext.swiftPackage.resolved;
         await this.folderContext.reloadPackageResolved();
         // if file contents has changed then send resolve updated message
-        if (this.folderContext.swiftPackage.resolved?.fileHash !== packageResolvedHash) {
+        if (this.folderContext.swiftPackage.resolved?.fileHash !== previousResolved?.fileHash) {
+            this.folderContext.resolvedChanges = comparePackageResolved(
+                previousResolved,
+                this.folderContext.swiftPackage.resolved
+            );
+            void this.warnAboutResolvedChanges(this.folderContext.resolvedChanges);
             await this.folderContext.fireEvent(FolderOperation.resolvedUpdated);
         }
     }
 
+    /**
+     * Shows a warning if Package.resolved downgraded a dependency or pinned one to a branch.
+     */
+    private async warnAboutResolvedChanges(changes: PinChange[]) {
+        const identities = (list: PinChange[]) => list.map(change => change.identity).join(", ");
+        const downgraded = changes.filter(change => change.kind === PinChangeKind.downgraded);
+        const branches = changes.filter(change => change.current?.branch);
+        const reasons: string[] = [];
+        if (downgraded.length > 0) {
+            reasons.push(`downgraded ${identities(downgraded)}`);
+        }
+        if (branches.length > 0) {
+            reasons.push(`pinned ${identities(branches)} to a branch`);
+        }
+        if (reasons.length === 0) {
+            return;
+        }
+        this.logger.warn(`Package.resolved ${reasons.join(" and ")}`, this.folderContext.name);
+        const selected = await vscode.window.showWarningMessage(
+            `Package.resolved for ${this.folderContext.name} ${reasons.join(" and ")}.`,
+            "Review Changes"
+        );
+        if (selected === "Review Changes") {
+            await vscode.commands.executeCommand("swift.packageResolvedChanges.focus");
+        }
+    }
+
     /**
      * Handles a create or change event for **.build/workspace-state.json**.
      *
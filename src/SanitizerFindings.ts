@@ -0,0 +1,410 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { WorkspaceContext } from "./WorkspaceContext";
+import { LaunchConfigType } from "./debugger/debugAdapter";
+import { SwiftExecution } from "./tasks/SwiftExecution";
+import { isPathInsidePath } from "./utilities/filesystem";
+import { lineBreakRegex } from "./utilities/tasks";
+import { regexEscapedString } from "./utilities/utilities";
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import stripAnsi = require("strip-ansi");
+
+/** A frame of a stack trace in a sanitizer report. */
+export interface SanitizerStackFrame {
+    index: number;
+    symbol: string;
+    file?: string;
+    line?: number;
+    column?: number;
+}
+
+/** A stack trace in a sanitizer report, such as where the memory was freed. */
+export interface SanitizerStack {
+    /** What the stack shows, such as `freed by thread T0 here`. Empty for the first stack. */
+    title: string;
+    frames: SanitizerStackFrame[];
+}
+
+/** An error or warning reported by AddressSanitizer, ThreadSanitizer or UBSan. */
+export interface SanitizerReport {
+    /** The sanitizer that reported it, such as `AddressSanitizer`. */
+    tool: string;
+    /** The kind of issue, such as `heap-use-after-free` or `data race`. */
+    kind: string;
+    message: string;
+    stacks: SanitizerStack[];
+}
+
+/** A sanitizer report and how often it has been reported. */
+export interface SanitizerFinding {
+    key: string;
+    report: SanitizerReport;
+    /** The name of the task or debug session that last reported it. */
+    origin: string;
+    count: number;
+    lastSeen: number;
+}
+
+const headerRegex =
+    /^(?:==\d+==)?(?:ERROR|WARNING): (AddressSanitizer|LeakSanitizer|ThreadSanitizer): (.*)$/;
+const summaryRegex = /^SUMMARY: \w+Sanitizer:/;
+const frameRegex = /^\s*#(\d+)\s+(?:0x[0-9a-fA-F]+ in )?(.*)$/;
+const frameModuleRegex = /\s+\([^()]*\+0x[0-9a-fA-F]+\)$/;
+const frameLocationRegex = /\s+(\S+\.\w+):(\d+)(?::(\d+))?$/;
+const runtimeErrorRegex = /^(\S+\.\w+):(\d+):(\d+): runtime error: (.*)$/;
+
+/**
+ * Parses sanitizer reports from program output, which can be appended as it is written.
+ *
+ * A report starts with the `ERROR:` or `WARNING:` line of AddressSanitizer or ThreadSanitizer
+ * and ends with its `SUMMARY:` line. UBSan reports each `runtime error` on a single line.
+ */
+export class SanitizerReportParser {
+    private remainingData = "";
+    private report?: SanitizerReport;
+
+    /** Appends output, returning the reports it completes. */
+    append(output: string): SanitizerReport[] {
+        const lines = (this.remainingData + stripAnsi(output)).split(lineBreakRegex);
+        this.remainingData = lines.pop() ?? "";
+        return lines.flatMap(line => this.parseLine(line));
+    }
+
+    /** Returns the report the output ended in the middle of, as the program may have crashed. */
+    end(): SanitizerReport[] {
+        const reports = this.parseLine(this.remainingData);
+        this.remainingData = "";
+        if (this.report) {
+            reports.push(this.report);
+            this.report = undefined;
+        }
+        return reports;
+    }
+
+    private parseLine(line: string): SanitizerReport[] {
+        const header = headerRegex.exec(line);
+        if (header) {
+            const previous = this.report ? [this.report] : [];
+            const message = header[2].replace(/\s*\(pid=\d+\)$/, "");
+            this.report = {
+                tool: header[1],
+                kind: message.replace(/ on (unknown )?address.*$/, ""),
+                message: `${header[1]}: ${message}`,
+                stacks: [],
+            };
+            return previous;
+        }
+        const runtimeError = runtimeErrorRegex.exec(line);
+        if (runtimeError) {
+            const message = runtimeError[4];
+            return [
+                {
+                    tool: "UndefinedBehaviorSanitizer",
+                    kind: message.replace(/:.*$/, ""),
+                    message: `runtime error: ${message}`,
+                    stacks: [
+                        {
+                            title: "",
+                            frames: [
+                                {
+                                    index: 0,
+                                    symbol: "",
+                                    file: runtimeError[1],
+                                    line: parseInt(runtimeError[2]),
+                                    column: parseInt(runtimeError[3]),
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ];
+        }
+        const report = this.report;
+        if (!report) {
+            return [];
+        }
+        if (summaryRegex.test(line)) {
+            this.report = undefined;
+            return [report];
+        }
+        const frame = parseStackFrame(line);
+        if (frame) {
+            if (report.stacks.length === 0) {
+                report.stacks.push({ title: "", frames: [] });
+            }
+            report.stacks[report.stacks.length - 1].frames.push(frame);
+        } else if (line.trim().endsWith(":")) {
+            report.stacks.push({ title: line.trim().slice(0, -1), frames: [] });
+        }
+        return [];
+    }
+}
+
+/**
+ * Parses a frame of a sanitizer stack trace, such as
+ * `#0 0x100003f1c in Foo.bar() /path/to/File.swift:12:5` or
+ * `#1 closure #1 in Foo.bar() File.swift:12 (Foo:arm64+0x1000)`.
+ */
+export function parseStackFrame(line: string): SanitizerStackFrame | undefined {
+    const match = frameRegex.exec(line);
+    if (!match) {
+        return undefined;
+    }
+    const frame: SanitizerStackFrame = { index: parseInt(match[1]), symbol: "" };
+    let rest = match[2].replace(frameModuleRegex, "");
+    const location = frameLocationRegex.exec(rest);
+    if (location) {
+        frame.file = location[1];
+        frame.line = parseInt(location[2]);
+        frame.column = location[3] ? parseInt(location[3]) : undefined;
+        rest = rest.substring(0, location.index);
+    }
+    frame.symbol = rest.trim();
+    return frame;
+}
+
+/**
+ * Identifies repeated reports of the same issue, such as the same data race reported by
+ * each iteration of a test, by the kind of issue and the frames of its first stack.
+ */
+export function sanitizerFindingKey(report: SanitizerReport): string {
+    const frames = (report.stacks[0]?.frames ?? []).map(
+        frame => `${frame.symbol}@${frame.file ?? ""}:${frame.line ?? ""}`
+    );
+    return [report.tool, report.kind, ...frames].join("|");
+}
+
+/**
+ * Returns true if a frame of a sanitizer report is in the function of a test, such as
+ * `closure #1 in CounterTests.testIncrement()` for the XCTest `MyTests.CounterTests/testIncrement`
+ * or `Parsing.empty()` for the swift-testing test `MyTests.Parsing/empty()`.
+ */
+export function reportMentionsTest(report: SanitizerReport, testId: string): boolean {
+    const targetEnd = testId.indexOf(".");
+    if (targetEnd === -1) {
+        return false;
+    }
+    const target = testId.substring(0, targetEnd);
+    const components = testId.substring(targetEnd + 1).split("/");
+    // Tests with the same name in different files end in their location
+    if (/\.swift:\d+:\d+$/.test(components[components.length - 1])) {
+        components.pop();
+    }
+    const functionName = components.pop()!.replace(/\(.*$/, "");
+    const name = [...components, functionName].join(".");
+    const regex = new RegExp(
+        `(^|[^\\w.])(${regexEscapedString(target)}\\.)?${regexEscapedString(name)}\\(`
+    );
+    return report.stacks.some(stack => stack.frames.some(frame => regex.test(frame.symbol)));
+}
+
+/**
+ * Collects the reports of AddressSanitizer, ThreadSanitizer and UBSan from the output of
+ * `swift` tasks and debug sessions, and shows them as diagnostics in the Problems panel.
+ */
+export class SanitizerFindings implements vscode.Disposable {
+    private findingsByKey = new Map<string, SanitizerFinding>();
+    private diagnosticCollection = vscode.languages.createDiagnosticCollection("sanitizer");
+    private disposables: vscode.Disposable[];
+
+    private readonly didChangeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this.didChangeEmitter.event;
+
+    /** Fires with the findings reported by the output of a folder. */
+    private readonly didReportEmitter = new vscode.EventEmitter<{
+        cwd?: string;
+        findings: SanitizerFinding[];
+    }>();
+    public readonly onDidReport = this.didReportEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        const trackerFactory: vscode.DebugAdapterTrackerFactory = {
+            createDebugAdapterTracker: session => this.createDebugAdapterTracker(session),
+        };
+        this.disposables = [
+            this.diagnosticCollection,
+            this.didChangeEmitter,
+            this.didReportEmitter,
+            vscode.tasks.onDidStartTask(event => this.observeTask(event.execution.task)),
+            vscode.debug.registerDebugAdapterTrackerFactory(
+                LaunchConfigType.CODE_LLDB,
+                trackerFactory
+            ),
+            vscode.debug.registerDebugAdapterTrackerFactory(
+                LaunchConfigType.LLDB_DAP,
+                trackerFactory
+            ),
+        ];
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** The findings, most recently reported first. */
+    get findings(): SanitizerFinding[] {
+        return [...this.findingsByKey.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+    }
+
+    /**
+     * Adds reports, counting repeated reports of the same issue as a single finding.
+     *
+     * @param reports The reports to add
+     * @param origin The name of the task or debug session the reports are from
+     * @param cwd The folder relative file paths in the reports are relative to
+     */
+    add(reports: SanitizerReport[], origin: string, cwd?: string) {
+        if (reports.length === 0) {
+            return;
+        }
+        const findings = reports.map(report => {
+            const resolved = resolveReportPaths(report, cwd);
+            const key = sanitizerFindingKey(resolved);
+            const finding = {
+                key,
+                report: resolved,
+                origin,
+                count: (this.findingsByKey.get(key)?.count ?? 0) + 1,
+                lastSeen: Date.now(),
+            };
+            this.findingsByKey.set(key, finding);
+            return finding;
+        });
+        this.updateDiagnostics();
+        this.didChangeEmitter.fire();
+        this.didReportEmitter.fire({ cwd, findings });
+    }
+
+    clear() {
+        this.findingsByKey.clear();
+        this.updateDiagnostics();
+        this.didChangeEmitter.fire();
+    }
+
+    /**
+     * Returns the frame a finding is shown at: the first frame in the workspace,
+     * or the first frame with a location if none are.
+     */
+    primaryFrame(finding: SanitizerFinding): SanitizerStackFrame | undefined {
+        const frames = finding.report.stacks.flatMap(stack => stack.frames).filter(f => f.file);
+        return (
+            frames.find(frame =>
+                this.workspaceContext.folders.some(folder =>
+                    isPathInsidePath(frame.file!, folder.folder.fsPath)
+                )
+            ) ?? frames[0]
+        );
+    }
+
+    private observeTask(task: vscode.Task) {
+        if (task.definition.type !== "swift" || !(task.execution instanceof SwiftExecution)) {
+            return;
+        }
+        const execution = task.execution;
+        const parser = new SanitizerReportParser();
+        const cwd = execution.options.cwd;
+        const onDidWrite = execution.onDidWrite(data =>
+            this.add(parser.append(data), task.name, cwd)
+        );
+        const onDidClose = execution.onDidClose(() => {
+            onDidWrite.dispose();
+            onDidClose.dispose();
+            this.add(parser.end(), task.name, cwd);
+        });
+    }
+
+    private createDebugAdapterTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+        const parser = new SanitizerReportParser();
+        const cwd = session.configuration.cwd;
+        return {
+            onDidSendMessage: message => {
+                if (
+                    message?.type === "event" &&
+                    message.event === "output" &&
+                    message.body?.category !== "console"
+                ) {
+                    this.add(parser.append(message.body.output ?? ""), session.name, cwd);
+                }
+            },
+            onWillStopSession: () => this.add(parser.end(), session.name, cwd),
+        };
+    }
+
+    private updateDiagnostics() {
+        const diagnostics = new Map<string, vscode.Diagnostic[]>();
+        for (const finding of this.findings) {
+            const frame = this.primaryFrame(finding);
+            if (!frame?.file) {
+                continue;
+            }
+            const diagnostic = new vscode.Diagnostic(
+                frameRange(frame),
+                finding.count > 1
+                    ? `${finding.report.message} (reported ${finding.count} times)`
+                    : finding.report.message,
+                finding.report.tool === "AddressSanitizer" ||
+                finding.report.tool === "LeakSanitizer"
+                    ? vscode.DiagnosticSeverity.Error
+                    : vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = finding.report.tool;
+            diagnostic.code = finding.report.kind;
+            diagnostic.relatedInformation = finding.report.stacks.flatMap(stack =>
+                stack.frames
+                    .filter(f => f.file)
+                    .map(
+                        f =>
+                            new vscode.DiagnosticRelatedInformation(
+                                new vscode.Location(vscode.Uri.file(f.file!), frameRange(f)),
+                                `${stack.title ? `${stack.title}: ` : ""}#${f.index} ${f.symbol}`
+                            )
+                    )
+            );
+            diagnostics.set(frame.file, [...(diagnostics.get(frame.file) ?? []), diagnostic]);
+        }
+        this.diagnosticCollection.clear();
+        diagnostics.forEach((fileDiagnostics, file) =>
+            this.diagnosticCollection.set(vscode.Uri.file(file), fileDiagnostics)
+        );
+    }
+}
+
+/** Returns the range of the line a frame is at. */
+export function frameRange(frame: SanitizerStackFrame): vscode.Range {
+    const line = Math.max((frame.line ?? 1) - 1, 0);
+    const column = Math.max((frame.column ?? 1) - 1, 0);
+    return new vscode.Range(line, column, line, column);
+}
+
+function resolveReportPaths(report: SanitizerReport, cwd?: string): SanitizerReport {
+    if (!cwd) {
+        return report;
+    }
+    return {
+        ...report,
+        stacks: report.stacks.map(stack => ({
+            ...stack,
+            frames: stack.frames.map(frame =>
+                frame.file && !path.isAbsolute(frame.file)
+                    ? { ...frame, file: path.resolve(cwd, frame.file) }
+                    : frame
+            ),
+        })),
+    };
+}
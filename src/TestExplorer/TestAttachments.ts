@@ -0,0 +1,145 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+
+/** How an attachment is previewed. */
+export type TestAttachmentKind = "image" | "json" | "text" | "other";
+
+/** The attachments a single test recorded during a test run. */
+export interface TestAttachments {
+    testId: string;
+    label: string;
+    uri?: vscode.Uri;
+    /** Paths of the attachment files */
+    attachments: string[];
+}
+
+/** The tests that recorded attachments during a test run. */
+export interface TestAttachmentRun {
+    /** The label of the run profile, such as "Run Tests" */
+    name: string;
+    folder: string;
+    started: number;
+    tests: TestAttachments[];
+}
+
+const imageExtensions = [".png", ".jpg", ".jpeg", ".gif", ".bmp", ".webp", ".svg"];
+const textExtensions = [
+    ".txt",
+    ".log",
+    ".md",
+    ".csv",
+    ".xml",
+    ".html",
+    ".yaml",
+    ".yml",
+    ".diff",
+    ".patch",
+    ".swift",
+];
+
+/** The largest number of characters of a text attachment shown in a test message */
+const maxPreviewLength = 4000;
+
+/** Returns how an attachment is previewed, based on its file extension. */
+export function attachmentKind(filePath: string): TestAttachmentKind {
+    const extension = path.extname(filePath).toLowerCase();
+    if (imageExtensions.includes(extension)) {
+        return "image";
+    } else if (extension === ".json") {
+        return "json";
+    } else if (textExtensions.includes(extension)) {
+        return "text";
+    }
+    return "other";
+}
+
+/**
+ * Creates a test message that previews attachments: images are shown inline, and
+ * the contents of text and JSON attachments are shown in code blocks. Every attachment
+ * links to its file.
+ */
+export async function attachmentMessage(attachments: string[]): Promise<vscode.TestMessage> {
+    const markdown = new vscode.MarkdownString(
+        `**${attachments.length} attachment${attachments.length === 1 ? "" : "s"}**\n\n`
+    );
+    for (const attachment of attachments) {
+        const name = path.basename(attachment);
+        const uri = vscode.Uri.file(attachment);
+        const kind = attachmentKind(attachment);
+        if (kind === "image") {
+            markdown.appendMarkdown(`[${name}](${uri})\n\n![${name}](${uri})\n\n`);
+            continue;
+        }
+        markdown.appendMarkdown(`[${name}](${uri})\n\n`);
+        if (kind === "other") {
+            continue;
+        }
+        let contents: string;
+        try {
+            contents = await fs.readFile(attachment, "utf8");
+        } catch {
+            markdown.appendText("The attachment could not be read.\n\n");
+            continue;
+        }
+        if (kind === "json") {
+            try {
+                contents = JSON.stringify(JSON.parse(contents), undefined, 2);
+            } catch {
+                // Show the JSON as it was written
+            }
+        }
+        if (contents.length > maxPreviewLength) {
+            contents = `${contents.substring(0, maxPreviewLength)}\n…`;
+        }
+        markdown.appendCodeblock(contents, kind === "json" ? "json" : "");
+    }
+    return new vscode.TestMessage(markdown);
+}
+
+/**
+ * Keeps the attachments recorded by the latest test runs, most recent first.
+ */
+export class TestAttachmentStore implements vscode.Disposable {
+    /** The number of test runs attachments are kept for */
+    static readonly maxRuns = 10;
+
+    private _runs: TestAttachmentRun[] = [];
+    private didChangeEmitter = new vscode.EventEmitter<void>();
+
+    public readonly onDidChange = this.didChangeEmitter.event;
+
+    dispose() {
+        this.didChangeEmitter.dispose();
+    }
+
+    get runs(): TestAttachmentRun[] {
+        return this._runs;
+    }
+
+    add(run: TestAttachmentRun) {
+        if (run.tests.length === 0) {
+            return;
+        }
+        this._runs = [run, ...this._runs].slice(0, TestAttachmentStore.maxRuns);
+        this.didChangeEmitter.fire();
+    }
+
+    clear() {
+        this._runs = [];
+        this.didChangeEmitter.fire();
+    }
+}
@@ -28,6 +28,7 @@ import { LSPTestDiscovery } from "./LSPTestDiscovery";
 import { parseTestsFromSwiftTestListOutput } from "./SPMTestDiscovery";
 import { TestCodeLensProvider } from "./TestCodeLensProvider";
 import * as TestDiscovery from "./TestDiscovery";
+import { flakyTag } from "./TestHistory";
 import { TestRunProxy, TestRunner } from "./TestRunner";
 import { flattenTestItemCollection } from "./TestUtils";
 
@@ -79,6 +80,17 @@ export class TestExplorer {
             this.codeLensProvider,
             ...this.testRunProfiles,
             this.onTestItemsDidChange(() => this.updateSwiftTestContext()),
+            this.onTestItemsDidChange(() => this.updateFlakyTests()),
+            folderContext.workspaceContext.testHistory.onDidChange(folderPath => {
+                if (folderPath === folderContext.folder.fsPath) {
+                    this.updateFlakyTests();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration("swift.flakyTestThreshold")) {
+                    this.updateFlakyTests();
+                }
+            }),
             this.discoverUpdatedTestsAfterBuild(folderContext),
         ];
     }
@@ -254,6 +266,31 @@ export class TestExplorer {
         });
     }
 
+    /**
+     * Tags the tests the test history finds flaky, and shows their flakiness score.
+     * Discovering tests replaces the tags of the test items, so this runs after every update.
+     */
+    private updateFlakyTests() {
+        const flakyTests = new Map(
+            this.folderContext.workspaceContext.testHistory
+                .flakyTests(this.folderContext.folder.fsPath)
+                .map(({ testId, score }) => [testId, score])
+        );
+        for (const item of flattenTestItemCollection(this.controller.items)) {
+            const score = flakyTests.get(item.id);
+            const isTagged = item.tags.some(tag => tag.id === flakyTag.id);
+            if (score !== undefined) {
+                if (!isTagged) {
+                    item.tags = [...item.tags, flakyTag];
+                }
+                item.description = `flaky ${Math.round(score * 100)}%`;
+            } else if (isTagged) {
+                item.tags = item.tags.filter(tag => tag.id !== flakyTag.id);
+                item.description = undefined;
+            }
+        }
+    }
+
     private updateTests(
         controller: vscode.TestController,
         tests: TestDiscovery.TestClass[],
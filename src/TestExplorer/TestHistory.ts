@@ -0,0 +1,279 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import configuration from "../configuration";
+import { TestKind } from "./TestKind";
+import { TestRunProxy, TestRunState } from "./TestRunner";
+
+/** The tag of tests whose results keep changing between test runs. */
+export const flakyTag = new vscode.TestTag("flaky");
+
+/** The result of a test in a single test run. */
+export interface TestResultRecord {
+    passed: boolean;
+    time: number;
+    /** How long the test took in milliseconds, if it was reported */
+    duration?: number;
+}
+
+/** A test that keeps passing and failing across test runs. */
+export interface FlakyTest {
+    testId: string;
+    /** The flakiness score, between 0 and 1 */
+    score: number;
+}
+
+/** A test and how long it took in its latest runs. */
+export interface SlowTest {
+    testId: string;
+    /** Durations of the latest runs in milliseconds, oldest first */
+    durations: number[];
+    /** The median duration of the runs before the latest one */
+    median?: number;
+    /** Whether the latest run took much longer than the median of the runs before it */
+    isRegression: boolean;
+}
+
+/** The number of earlier durations the rolling median is computed from */
+const medianWindow = 10;
+/** The number of earlier durations needed before a test can be flagged as slower */
+const minMedianDurations = 3;
+/** Increases in duration of fewer milliseconds than this aren't flagged, however large */
+const minRegressionIncrease = 50;
+
+/** Returns the median of some values, or `undefined` if there are none. */
+export function median(values: number[]): number | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Compares the latest duration of a test with the median of the durations before it.
+ *
+ * @param durations The durations of the test in milliseconds, oldest first
+ * @param threshold How many percent slower than the median the latest run has to be
+ * to be flagged
+ */
+export function durationRegression(
+    durations: number[],
+    threshold: number
+): { median?: number; isRegression: boolean } {
+    const earlier = durations.slice(-medianWindow - 1, -1);
+    const earlierMedian = median(earlier);
+    if (earlierMedian === undefined || earlier.length < minMedianDurations) {
+        return { median: earlierMedian, isRegression: false };
+    }
+    const latest = durations[durations.length - 1];
+    return {
+        median: earlierMedian,
+        isRegression:
+            latest - earlierMedian >= minRegressionIncrease &&
+            latest >= earlierMedian * (1 + threshold / 100),
+    };
+}
+
+/**
+ * Returns how often the result of a test changes between consecutive runs, from 0
+ * for a test that always passes or always fails to 1 for a test that alternates.
+ *
+ * @param results The results of the test, oldest first
+ */
+export function flakinessScore(results: TestResultRecord[]): number {
+    if (results.length < 2) {
+        return 0;
+    }
+    let changes = 0;
+    for (let i = 1; i < results.length; i++) {
+        if (results[i].passed !== results[i - 1].passed) {
+            changes++;
+        }
+    }
+    return changes / (results.length - 1);
+}
+
+/**
+ * Returns the results of the test cases in a test run. Suites and the results of the
+ * arguments of parameterized tests are left out, and tests that both passed and failed,
+ * such as a test that passed before the sanitizer reported an issue in it, have failed.
+ */
+export function testRunResults(
+    runState: TestRunState
+): { testId: string; passed: boolean; duration?: number }[] {
+    const failed = new Set(
+        [...runState.failed.map(({ test }) => test), ...runState.errored].filter(isTestCase)
+    );
+    const passed = new Set(runState.passed.filter(test => isTestCase(test) && !failed.has(test)));
+    const result = (test: vscode.TestItem, passed: boolean) => ({
+        testId: test.id,
+        passed,
+        duration: runState.durations.get(test),
+    });
+    return [
+        ...[...failed].map(test => result(test, false)),
+        ...[...passed].map(test => result(test, true)),
+    ];
+}
+
+/**
+ * Returns the identifiers of the test cases that failed or errored in a test run.
+ * swift-testing can't run a single argument of a parameterized test, so the test
+ * is returned in place of its failed arguments.
+ */
+export function failedTestIds(runState: TestRunState): string[] {
+    const tests = [...runState.failed.map(({ test }) => test), ...runState.errored].map(test =>
+        isParameterizedTestResult(test) && test.parent ? test.parent : test
+    );
+    return [...new Set(tests.filter(isTestCase).map(test => test.id))];
+}
+
+/**
+ * Returns true if a test item is a test case rather than a suite or the result of
+ * an argument of a parameterized test.
+ */
+export function isTestCase(test: vscode.TestItem): boolean {
+    return (
+        !isParameterizedTestResult(test) &&
+        Array.from(test.children).every(([, child]) => isParameterizedTestResult(child))
+    );
+}
+
+function isParameterizedTestResult(test: vscode.TestItem): boolean {
+    return test.tags.some(tag => tag.id === TestRunProxy.Tags.PARAMETERIZED_TEST_RESULT);
+}
+
+/**
+ * Returns true if the results of a test run of this kind are kept in the test history.
+ * Sanitizers, the debugger, coverage and release builds change how long tests take, and
+ * sanitizers fail tests that otherwise pass, so only plain test runs are recorded.
+ */
+export function recordsTestHistory(testKind: TestKind): boolean {
+    return (
+        (testKind === TestKind.standard || testKind === TestKind.parallel) &&
+        configuration.sanitizer === "off"
+    );
+}
+
+/**
+ * Keeps the results of the latest runs of each test of a folder in the workspace
+ * storage, to find the tests that are flaky.
+ */
+export class TestHistoryStore implements vscode.Disposable {
+    private static STORAGE_KEY = "swift.testHistory";
+    /** The number of results kept for each test */
+    static readonly maxResults = 20;
+    /** The number of results a test needs before it can be flaky */
+    static readonly minResults = 5;
+
+    private readonly didChangeEmitter = new vscode.EventEmitter<string>();
+    public readonly onDidChange = this.didChangeEmitter.event;
+
+    constructor(private memento: vscode.Memento) {}
+
+    dispose() {
+        this.didChangeEmitter.dispose();
+    }
+
+    /** Returns the results of a test, oldest first. */
+    results(folderPath: string, testId: string): TestResultRecord[] {
+        return this.folderHistory(folderPath)[testId] ?? [];
+    }
+
+    /**
+     * Records the results of a test run of a folder, unless the kind of test run
+     * isn't kept in the history.
+     */
+    async record(folderPath: string, testKind: TestKind, runState: TestRunState) {
+        if (!recordsTestHistory(testKind)) {
+            return;
+        }
+        const results = testRunResults(runState);
+        if (results.length === 0) {
+            return;
+        }
+        const history = this.folderHistory(folderPath);
+        const time = Date.now();
+        for (const { testId, passed, duration } of results) {
+            history[testId] = [...(history[testId] ?? []), { passed, time, duration }].slice(
+                -TestHistoryStore.maxResults
+            );
+        }
+        await this.update(folderPath, history);
+    }
+
+    /**
+     * Returns the tests of a folder whose flakiness score is at least the
+     * `swift.flakyTestThreshold` setting, most flaky first.
+     */
+    flakyTests(folderPath: string): FlakyTest[] {
+        const threshold = configuration.flakyTestThreshold;
+        return Object.entries(this.folderHistory(folderPath))
+            .filter(([, results]) => results.length >= TestHistoryStore.minResults)
+            .map(([testId, results]) => ({ testId, score: flakinessScore(results) }))
+            .filter(({ score }) => score > 0 && score >= threshold)
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Returns the tests of a folder that have a recorded duration, slowest first by
+     * their latest duration. Tests that took much longer than usual in their latest run,
+     * according to the `swift.testDurationRegressionThreshold` setting, are flagged.
+     */
+    slowestTests(folderPath: string): SlowTest[] {
+        const threshold = configuration.testDurationRegressionThreshold;
+        return Object.entries(this.folderHistory(folderPath))
+            .map(([testId, results]) => {
+                const durations = results.flatMap(({ duration }) =>
+                    duration !== undefined ? [duration] : []
+                );
+                return { testId, durations, ...durationRegression(durations, threshold) };
+            })
+            .filter(({ durations }) => durations.length > 0)
+            .sort(
+                (a, b) => b.durations[b.durations.length - 1] - a.durations[a.durations.length - 1]
+            );
+    }
+
+    async clear(folderPath: string) {
+        await this.update(folderPath, {});
+    }
+
+    private folderHistory(folderPath: string): FolderTestHistory {
+        const all = this.memento.get<{ [folderPath: string]: FolderTestHistory }>(
+            TestHistoryStore.STORAGE_KEY,
+            {}
+        );
+        return { ...(all[folderPath] ?? {}) };
+    }
+
+    private async update(folderPath: string, history: FolderTestHistory) {
+        const all = this.memento.get<{ [folderPath: string]: FolderTestHistory }>(
+            TestHistoryStore.STORAGE_KEY,
+            {}
+        );
+        await this.memento.update(TestHistoryStore.STORAGE_KEY, {
+            ...all,
+            [folderPath]: history,
+        });
+        this.didChangeEmitter.fire(folderPath);
+    }
+}
+
+interface FolderTestHistory {
+    [testId: string]: TestResultRecord[];
+}
@@ -0,0 +1,185 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { isTestCase } from "./TestHistory";
+import { TestRunState } from "./TestRunner";
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import stripAnsi = require("strip-ansi");
+
+type TestCaseResult = "passed" | "failed" | "errored" | "skipped";
+
+interface TestCase {
+    test: vscode.TestItem;
+    result: TestCaseResult;
+    messages: readonly vscode.TestMessage[];
+}
+
+/**
+ * Escapes text for XML, removing the ANSI escape codes and the control characters
+ * XML 1.0 doesn't allow, which test output can contain.
+ */
+function escapeXml(text: string): string {
+    return (
+        stripAnsi(text)
+            // eslint-disable-next-line no-control-regex
+            .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, "")
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&apos;")
+    );
+}
+
+function seconds(milliseconds: number | undefined): string {
+    return ((milliseconds ?? 0) / 1000).toFixed(3);
+}
+
+/** Returns the test item of the test target a test belongs to. */
+function testTarget(test: vscode.TestItem): vscode.TestItem {
+    let target = test;
+    while (target.parent) {
+        target = target.parent;
+    }
+    return target;
+}
+
+/** Formats a failure message with its location and the expected and actual values. */
+function describeMessage(message: vscode.TestMessage): string {
+    const text = typeof message.message === "string" ? message.message : message.message.value;
+    const lines = [text];
+    if (message.expectedOutput !== undefined && message.actualOutput !== undefined) {
+        lines.push(`Expected: ${message.expectedOutput}`, `Actual: ${message.actualOutput}`);
+    }
+    if (message.location) {
+        const { uri, range } = message.location;
+        lines.push(`at ${uri.fsPath}:${range.start.line + 1}:${range.start.character + 1}`);
+    }
+    return lines.join("\n");
+}
+
+/** Returns the result of each test case in a test run. */
+function testCases(runState: TestRunState): TestCase[] {
+    const cases = new Map<vscode.TestItem, TestCase>();
+    const add = (
+        tests: vscode.TestItem[],
+        result: TestCaseResult,
+        messages: readonly vscode.TestMessage[] = []
+    ) => {
+        for (const test of tests.filter(isTestCase)) {
+            const existing = cases.get(test);
+            if (existing) {
+                existing.messages = [...existing.messages, ...messages];
+            } else {
+                cases.set(test, { test, result, messages });
+            }
+        }
+    };
+    // Earlier results take precedence, a test that failed and then passed has failed
+    add(runState.errored, "errored");
+    for (const { test, message } of runState.failed) {
+        add([test], "failed", Array.isArray(message) ? message : [message]);
+    }
+    add(runState.passed, "passed");
+    add(runState.skipped, "skipped");
+    return [...cases.values()];
+}
+
+function testCaseXml(testCase: TestCase, runState: TestRunState): string[] {
+    const { test, result, messages } = testCase;
+    const target = testTarget(test);
+    const className = test.parent && test.parent !== target ? test.parent.id : target.id;
+    const attributes = [
+        `classname="${escapeXml(className)}"`,
+        `name="${escapeXml(test.label)}"`,
+        `time="${seconds(runState.durations.get(test))}"`,
+    ];
+    if (test.uri) {
+        attributes.push(`file="${escapeXml(test.uri.fsPath)}"`);
+        if (test.range) {
+            attributes.push(`line="${test.range.start.line + 1}"`);
+        }
+    }
+
+    const children: string[] = [];
+    if (result === "failed" || result === "errored") {
+        const element = result === "failed" ? "failure" : "error";
+        // Errored tests, such as tests that crashed, have no messages to describe them
+        const descriptions =
+            messages.length > 0
+                ? messages.map(describeMessage)
+                : [result === "failed" ? "Test failed" : "Test errored"];
+        const summary = descriptions[0].split("\n")[0];
+        children.push(
+            `      <${element} message="${escapeXml(summary)}" type="${element}">${escapeXml(descriptions.join("\n\n"))}</${element}>`
+        );
+    } else if (result === "skipped") {
+        children.push("      <skipped/>");
+    }
+    const output = runState.testOutput.get(test);
+    if (output && output.length > 0) {
+        const text = output.join("").replace(/\r\n/g, "\n");
+        children.push(`      <system-out>${escapeXml(text)}</system-out>`);
+    }
+
+    if (children.length === 0) {
+        return [`    <testcase ${attributes.join(" ")}/>`];
+    }
+    return [`    <testcase ${attributes.join(" ")}>`, ...children, "    </testcase>"];
+}
+
+function counts(cases: TestCase[], runState: TestRunState): string {
+    const count = (result: TestCaseResult) => cases.filter(c => c.result === result).length;
+    const time = cases.reduce((acc, { test }) => acc + (runState.durations.get(test) ?? 0), 0);
+    return `tests="${cases.length}" failures="${count("failed")}" errors="${count("errored")}" skipped="${count("skipped")}" time="${seconds(time)}"`;
+}
+
+/**
+ * Creates a JUnit XML report of a Test Explorer run, with a test suite for each test target.
+ * Test cases include their failure messages with their source locations and the output
+ * linked to them. The output of the whole run can't be split by test target, so it is
+ * added to every test suite.
+ *
+ * @param name The name of the report, such as the name of the run profile
+ * @param runState The state of the test run after it ended
+ * @param timestamp When the test run started
+ */
+export function createJUnitReport(name: string, runState: TestRunState, timestamp: number): string {
+    const cases = testCases(runState);
+    const targets = new Map<vscode.TestItem, TestCase[]>();
+    for (const testCase of cases) {
+        const target = testTarget(testCase.test);
+        targets.set(target, [...(targets.get(target) ?? []), testCase]);
+    }
+
+    const lines = [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<testsuites name="${escapeXml(name)}" ${counts(cases, runState)} timestamp="${new Date(timestamp).toISOString()}">`,
+    ];
+    const output = runState.output.join("").replace(/\r\n/g, "\n");
+    for (const [target, targetCases] of targets) {
+        lines.push(
+            `  <testsuite name="${escapeXml(target.label)}" ${counts(targetCases, runState)}>`,
+            ...targetCases.flatMap(testCase => testCaseXml(testCase, runState)),
+            ...(output.trim().length > 0
+                ? [`    <system-out>${escapeXml(output)}</system-out>`]
+                : []),
+            "  </testsuite>"
+        );
+    }
+    lines.push("</testsuites>", "");
+    return lines.join("\n");
+}
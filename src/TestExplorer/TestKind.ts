@@ -26,6 +26,10 @@ export enum TestKind {
     release = "Run Tests (Release Mode)",
     // run tests compiled in release mode with debugger
     debugRelease = "Debug Tests (Release Mode)",
+    // run tests built with the address sanitizer
+    addressSanitizer = "Run With Address Sanitizer",
+    // run tests built with the thread sanitizer
+    threadSanitizer = "Run With Thread Sanitizer",
 }
 
 export function isDebugging(testKind: TestKind): boolean {
@@ -35,3 +39,15 @@ export function isDebugging(testKind: TestKind): boolean {
 export function isRelease(testKind: TestKind): boolean {
     return testKind === TestKind.release || testKind === TestKind.debugRelease;
 }
+
+/** Returns the sanitizer a test kind builds the tests with, if any. */
+export function sanitizerForTestKind(testKind: TestKind): "address" | "thread" | undefined {
+    switch (testKind) {
+        case TestKind.addressSanitizer:
+            return "address";
+        case TestKind.threadSanitizer:
+            return "thread";
+        default:
+            return undefined;
+    }
+}
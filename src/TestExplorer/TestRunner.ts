@@ -18,6 +18,7 @@ import * as stream from "stream";
 import * as vscode from "vscode";
 
 import { FolderContext } from "../FolderContext";
+import { SanitizerFinding, frameRange, reportMentionsTest } from "../SanitizerFindings";
 import { WorkspaceContext } from "../WorkspaceContext";
 import configuration from "../configuration";
 import { TestCoverage } from "../coverage/LcovResults";
@@ -42,8 +43,11 @@ import {
     execFile,
     getErrorDescription,
 } from "../utilities/utilities";
+import { attachmentMessage } from "./TestAttachments";
 import { TestClass, runnableTag, upsertTestItem } from "./TestDiscovery";
-import { TestKind, isDebugging, isRelease } from "./TestKind";
+import { failedTestIds } from "./TestHistory";
+import { createJUnitReport } from "./TestJUnitReport";
+import { TestKind, isDebugging, isRelease, sanitizerForTestKind } from "./TestKind";
 import {
     SwiftTestingOutputParser,
     SymbolRenderer,
@@ -56,7 +60,7 @@ import {
     XCTestOutputParser,
 } from "./TestParsers/XCTestOutputParser";
 import { TestRunArguments } from "./TestRunArguments";
-import { reduceTestItemChildren } from "./TestUtils";
+import { flattenTestItemCollection, reduceTestItemChildren } from "./TestUtils";
 import { TestXUnitParser } from "./TestXUnitParser";
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -77,8 +81,12 @@ export interface TestRunState {
     skipped: vscode.TestItem[];
     errored: vscode.TestItem[];
     enqueued: Set<vscode.TestItem>;
+    /** Durations of the tests that finished, in milliseconds */
+    durations: Map<vscode.TestItem, number>;
     unknown: number;
     output: string[];
+    /** The output of each test, as far as it can be linked to a test */
+    testOutput: Map<vscode.TestItem, string[]>;
 }
 
 export class TestRunProxy {
@@ -107,8 +115,10 @@ export class TestRunProxy {
             skipped: [],
             errored: [],
             enqueued: new Set<vscode.TestItem>(),
+            durations: new Map<vscode.TestItem, number>(),
             unknown: 0,
             output: [],
+            testOutput: new Map<vscode.TestItem, string[]>(),
         };
     }
 
@@ -284,6 +294,7 @@ export class TestRunProxy {
     public passed(test: vscode.TestItem, duration?: number) {
         this.clearEnqueuedTest(test);
         this.runState.passed.push(test);
+        this.recordDurationOf(test, duration);
         this.clearPendingTest(test);
         this.testRun?.passed(test, this.recordDuration ? duration : undefined);
     }
@@ -295,6 +306,7 @@ export class TestRunProxy {
     ) {
         this.clearEnqueuedTest(test);
         this.runState.failed.push({ test, message });
+        this.recordDurationOf(test, duration);
         this.clearPendingTest(test);
         this.testRun?.failed(test, message, this.recordDuration ? duration : undefined);
     }
@@ -306,10 +318,18 @@ export class TestRunProxy {
     ) {
         this.clearEnqueuedTest(test);
         this.runState.errored.push(test);
+        this.recordDurationOf(test, duration);
         this.clearPendingTest(test);
         this.testRun?.errored(test, message, this.recordDuration ? duration : undefined);
     }
 
+    // Durations are kept for the test history even when they aren't shown in the Test Explorer
+    private recordDurationOf(test: vscode.TestItem, duration: number | undefined) {
+        if (duration !== undefined) {
+            this.runState.durations.set(test, duration);
+        }
+    }
+
     /**
      * Skip any pending tests.
      * Call this method when a test run is cancelled to mark the pending tests as skipped.
@@ -349,7 +369,7 @@ export class TestRunProxy {
 
         this.queuedOutput = [];
 
-        this.reportAttachments();
+        await this.reportAttachments();
         this.testRun?.end();
         this.testRunCompleteEmitter.fire();
         this.token.dispose();
@@ -381,23 +401,53 @@ export class TestRunProxy {
         }
     }
 
-    private reportAttachments() {
-        const attachmentKeys = Object.keys(this.attachments);
-        if (attachmentKeys.length > 0) {
-            let attachment = "";
-            const totalAttachments = attachmentKeys.reduce((acc, key) => {
-                const attachments = this.attachments[key];
-                attachment = attachments.length ? attachments[0] : attachment;
-                return acc + attachments.length;
-            }, 0);
-
-            if (attachment) {
-                attachment = path.dirname(attachment);
-                this.appendOutput(
-                    `${SymbolRenderer.eventMessageSymbol(TestSymbol.attachment)} ${SymbolRenderer.ansiEscapeCodePrefix}90mRecorded ${totalAttachments} attachment${totalAttachments === 1 ? "" : "s"} to ${attachment}${SymbolRenderer.resetANSIEscapeCode}`
+    /**
+     * Links the attachments recorded during the run to the tests that recorded them, adds
+     * a preview of them to the failure messages and lists them in the Test Attachments view.
+     */
+    private async reportAttachments() {
+        const tests = Object.keys(this.attachments)
+            .map(key => ({ test: this.testItems[+key], attachments: this.attachments[key] }))
+            .filter(({ test, attachments }) => test && attachments.length > 0);
+        if (tests.length === 0) {
+            return;
+        }
+
+        const symbol = SymbolRenderer.eventMessageSymbol(TestSymbol.attachment);
+        for (const { test, attachments } of tests) {
+            for (const attachment of attachments) {
+                this.appendOutputToTest(
+                    `${symbol} ${SymbolRenderer.ansiEscapeCodePrefix}90mRecorded attachment ${attachment}${SymbolRenderer.resetANSIEscapeCode}\r\n`,
+                    test
                 );
             }
+            // Messages are added to the ones the test already failed with
+            if (this.testRun && this.runState.failed.some(failure => failure.test === test)) {
+                this.testRun.failed(test, await attachmentMessage(attachments));
+            } else if (this.testRun && this.runState.errored.includes(test)) {
+                this.testRun.errored(test, await attachmentMessage(attachments));
+            }
         }
+
+        const totalAttachments = tests.reduce(
+            (acc, { attachments }) => acc + attachments.length,
+            0
+        );
+        this.appendOutput(
+            `${symbol} ${SymbolRenderer.ansiEscapeCodePrefix}90mRecorded ${totalAttachments} attachment${totalAttachments === 1 ? "" : "s"} to ${path.dirname(tests[0].attachments[0])}${SymbolRenderer.resetANSIEscapeCode}`
+        );
+
+        this.folderContext.workspaceContext.testAttachments.add({
+            name: this.testRunRequest.profile?.label ?? "Test Run",
+            folder: this.folderContext.name,
+            started: Date.now(),
+            tests: tests.map(({ test, attachments }) => ({
+                testId: test.id,
+                label: test.label,
+                uri: test.uri,
+                attachments,
+            })),
+        });
     }
 
     private performAppendOutput(
@@ -408,6 +458,12 @@ export class TestRunProxy {
     ) {
         testRun.appendOutput(output, location, test);
         this.runState.output.push(stripAnsi(output));
+        if (test) {
+            this.runState.testOutput.set(test, [
+                ...(this.runState.testOutput.get(test) ?? []),
+                stripAnsi(output),
+            ]);
+        }
     }
 
     private prependIterationToOutput(output: string): string {
@@ -426,6 +482,7 @@ export class TestRunProxy {
 
         // Compute final coverage numbers if any coverage info has been captured during the run.
         await this.coverage.computeCoverage(this.testRun);
+        this.folderContext.latestCoverage = this.coverage;
     }
 
     static Tags = {
@@ -585,6 +642,55 @@ export class TestRunner {
                 false,
                 runnableTag
             ),
+            // Add sanitizer profiles
+            ...[TestKind.addressSanitizer, TestKind.threadSanitizer].map(testKind =>
+                controller.createRunProfile(
+                    testKind,
+                    vscode.TestRunProfileKind.Run,
+                    async (request, token) => {
+                        await this.handleTestRunRequest(
+                            testKind,
+                            request,
+                            folderContext,
+                            controller,
+                            token,
+                            onCreateTestRun
+                        );
+                    },
+                    false,
+                    runnableTag
+                )
+            ),
+            // Add a profile that skips the tests that are flaky
+            controller.createRunProfile(
+                TestRunner.quarantineProfileLabel,
+                vscode.TestRunProfileKind.Run,
+                async (request, token) => {
+                    const flakyTests = this.flakyTestItems(controller, folderContext);
+                    await this.handleTestRunRequest(
+                        TestKind.standard,
+                        new vscode.TestRunRequest(
+                            request.include,
+                            [...(request.exclude ?? []), ...flakyTests],
+                            request.profile
+                        ),
+                        folderContext,
+                        controller,
+                        token,
+                        onCreateTestRun,
+                        undefined,
+                        runner => {
+                            if (flakyTests.length > 0) {
+                                runner.testRun.appendOutput(
+                                    `Quarantined ${flakyTests.length} flaky test${flakyTests.length === 1 ? "" : "s"}: ${flakyTests.map(test => test.id).join(", ")}\r\n`
+                                );
+                            }
+                        }
+                    );
+                },
+                false,
+                runnableTag
+            ),
             // Add coverage profile
             controller.createRunProfile(
                 TestKind.coverage,
@@ -651,6 +757,24 @@ export class TestRunner {
         ];
     }
 
+    /** The label of the run profile that skips flaky tests */
+    static quarantineProfileLabel = "Run Tests (Quarantine Flaky)";
+
+    /** Returns the test items of the tests the test history of a folder finds flaky. */
+    private static flakyTestItems(
+        controller: vscode.TestController,
+        folderContext: FolderContext
+    ): vscode.TestItem[] {
+        const flakyTestIds = new Set(
+            folderContext.workspaceContext.testHistory
+                .flakyTests(folderContext.folder.fsPath)
+                .map(({ testId }) => testId)
+        );
+        return flattenTestItemCollection(controller.items).filter(item =>
+            flakyTestIds.has(item.id)
+        );
+    }
+
     /**
      * Handle a test run request, checking if a test run is already in progress
      * @param testKind The kind of test run
@@ -660,6 +784,7 @@ export class TestRunner {
      * @param token The cancellation token
      * @param onCreateTestRun Event emitter for test run creation
      * @param postRunHandler Optional handler to run after the test run completes
+     * @param preRunHandler Optional handler to run before the tests run
      */
     private static async handleTestRunRequest(
         testKind: TestKind,
@@ -668,7 +793,8 @@ export class TestRunner {
         controller: vscode.TestController,
         token: vscode.CancellationToken,
         onCreateTestRun: vscode.EventEmitter<TestRunProxy>,
-        postRunHandler?: (runner: TestRunner) => Promise<void>
+        postRunHandler?: (runner: TestRunner) => Promise<void>,
+        preRunHandler?: (runner: TestRunner) => void
     ): Promise<void> {
         // If there's an active test run, prompt the user to cancel
         if (folderContext.hasActiveTestRun()) {
@@ -722,6 +848,8 @@ export class TestRunner {
         // Fire the event to notify that a test run was created
         onCreateTestRun.fire(runner.testRun);
 
+        preRunHandler?.(runner);
+
         // Run the tests
         await runner.runHandler();
 
@@ -759,6 +887,7 @@ export class TestRunner {
 
         const testTargets = this.testTargets(this.testArgs.testItems);
         this.workspaceContext.testsStarted(this.folderContext, this.testKind, testTargets);
+        const startTime = Date.now();
 
         const runState = new TestRunnerTestRunState(this.testRun);
 
@@ -766,6 +895,16 @@ export class TestRunner {
             this.testRun.appendOutput("\r\nTest run cancelled.");
         });
 
+        // Collect the issues the sanitizer reports while the tests run
+        const sanitizerFindings: SanitizerFinding[] = [];
+        const sanitizerDisposable = sanitizerForTestKind(this.testKind)
+            ? this.workspaceContext.sanitizerFindings.onDidReport(({ cwd, findings }) => {
+                  if (cwd === this.folderContext.folder.fsPath) {
+                      sanitizerFindings.push(...findings);
+                  }
+              })
+            : undefined;
+
         try {
             if (isDebugging(this.testKind)) {
                 await this.debugSession(runState);
@@ -783,11 +922,80 @@ export class TestRunner {
         }
 
         cancellationDisposable.dispose();
+        sanitizerDisposable?.dispose();
+        this.reportSanitizerFindings(sanitizerFindings);
         await this.testRun.end();
+        await this.workspaceContext.testHistory.record(
+            this.folderContext.folder.fsPath,
+            this.testKind,
+            this.testRun.runState
+        );
+        await this.writeJUnitReport(this.testRun.runState, startTime);
+        this.folderContext.latestFailedTestIds = failedTestIds(this.testRun.runState);
 
         this.workspaceContext.testsFinished(this.folderContext, this.testKind, testTargets);
     }
 
+    /**
+     * Creates a JUnit XML report of the test run for the Export Test Results as JUnit XML
+     * command, and writes it to the folder in the `swift.junitReportPath` setting if set.
+     */
+    async writeJUnitReport(runState: TestRunState, startTime: number) {
+        const report = createJUnitReport(this.testKind, runState, startTime);
+        this.folderContext.latestJUnitReport = report;
+
+        let reportPath = configuration.folder(this.folderContext.workspaceFolder).junitReportPath;
+        if (reportPath.length === 0) {
+            return;
+        }
+        if (!path.isAbsolute(reportPath)) {
+            reportPath = path.resolve(this.folderContext.folder.fsPath, reportPath);
+        }
+        const filename = `junit-${new Date(startTime).toISOString().replace(/[:.]/g, "-")}.xml`;
+        try {
+            await asyncfs.mkdir(reportPath, { recursive: true });
+            await asyncfs.writeFile(path.join(reportPath, filename), report);
+        } catch (error) {
+            this.workspaceContext.logger.error(
+                `Failed to write JUnit report to ${reportPath}: ${getErrorDescription(error)}`
+            );
+        }
+    }
+
+    /**
+     * Fails the tests whose functions are in the stack traces of the issues reported by
+     * the sanitizer, and lists the issues that can't be linked to a test in the test output.
+     */
+    private reportSanitizerFindings(findings: SanitizerFinding[]) {
+        if (findings.length === 0) {
+            return;
+        }
+        const tests = this.testArgs.testItems.filter(test => test.children.size === 0);
+        for (const finding of findings) {
+            const frame = this.workspaceContext.sanitizerFindings.primaryFrame(finding);
+            const message = new vscode.TestMessage(
+                `${finding.report.message}\nSee the Sanitizer Findings view for its stack traces.`
+            );
+            if (frame?.file) {
+                message.location = new vscode.Location(
+                    vscode.Uri.file(frame.file),
+                    frameRange(frame)
+                );
+            }
+            const failedTests = tests.filter(test => reportMentionsTest(finding.report, test.id));
+            for (const test of failedTests) {
+                this.testRun.failed(test, message);
+            }
+            if (failedTests.length === 0) {
+                const location = frame?.file ? ` at ${frame.file}:${frame.line}` : "";
+                this.testRun.appendOutput(`\r\n${finding.report.message}${location}\r\n`);
+            }
+        }
+        this.testRun.appendOutput(
+            `\r\n${findings.length} sanitizer finding${findings.length === 1 ? "" : "s"} reported, see the Sanitizer Findings view.\r\n`
+        );
+    }
+
     /** Run test session without attaching to a debugger */
     async runSession(runState: TestRunnerTestRunState): Promise<TestRunState> {
         // Run swift-testing first, then XCTest.
@@ -938,6 +1146,12 @@ export class TestRunner {
                 case TestKind.debugRelease:
                     kindLabel = " For Debugging in Release Mode";
                     break;
+                case TestKind.addressSanitizer:
+                    kindLabel = " With Address Sanitizer";
+                    break;
+                case TestKind.threadSanitizer:
+                    kindLabel = " With Thread Sanitizer";
+                    break;
                 case TestKind.standard:
                     kindLabel = "";
             }
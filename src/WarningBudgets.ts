@@ -0,0 +1,207 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { isCompileTimeAnalysis } from "./CompileTimeHotspots";
+import { BuildDiagnosticsEvent } from "./DiagnosticsManager";
+import { FolderContext } from "./FolderContext";
+import { SwiftPackage } from "./SwiftPackage";
+import { FolderOperation, WorkspaceContext } from "./WorkspaceContext";
+import configuration from "./configuration";
+
+/** A target with more warnings than its budget allows. */
+export interface WarningBudgetViolation {
+    target: string;
+    warnings: number;
+    budget: number;
+}
+
+/**
+ * Counts the warnings of a build for each target of the package.
+ * Warnings in files that don't belong to a target are ignored.
+ */
+export async function countWarningsByTarget(
+    event: BuildDiagnosticsEvent,
+    swiftPackage: Pick<SwiftPackage, "getTarget">
+): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    for (const [file, diagnostics] of event.diagnostics) {
+        const warnings = diagnostics.filter(
+            diagnostic => diagnostic.severity === vscode.DiagnosticSeverity.Warning
+        ).length;
+        if (warnings === 0) {
+            continue;
+        }
+        const target = await swiftPackage.getTarget(file);
+        if (target) {
+            counts.set(target.name, (counts.get(target.name) ?? 0) + warnings);
+        }
+    }
+    return counts;
+}
+
+/**
+ * Returns the targets whose warning count is over their budget, sorted by name.
+ * Targets without a budget are never over budget.
+ */
+export function checkWarningBudgets(
+    counts: ReadonlyMap<string, number>,
+    budgets: { [target: string]: number }
+): WarningBudgetViolation[] {
+    return Object.entries(budgets)
+        .map(([target, budget]) => ({ target, warnings: counts.get(target) ?? 0, budget }))
+        .filter(({ warnings, budget }) => warnings > budget)
+        .sort((a, b) => a.target.localeCompare(b.target));
+}
+
+/**
+ * Finds the name of a target declaration, such as `.target(name: "Library")`,
+ * in the package manifest.
+ */
+function targetDeclaration(manifest: string, target: string): vscode.Range | undefined {
+    const escaped = target.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = new RegExp(`\\.\\w*[tT]arget\\(\\s*name:\\s*("${escaped}")`).exec(manifest);
+    if (!match) {
+        return undefined;
+    }
+    const offset = match.index + match[0].length - match[1].length;
+    const lines = manifest.slice(0, offset).split(/\r?\n/);
+    const line = lines.length - 1;
+    const character = lines[line].length;
+    return new vscode.Range(line, character, line, character + match[1].length);
+}
+
+/**
+ * Checks the warnings of each build against the budgets in the `swift.warningBudgets`
+ * setting, flagging the targets that go over their budget in the build status item
+ * and the Problems panel.
+ */
+export class WarningBudgets implements vscode.Disposable {
+    private counts = new Map<string, Map<string, number>>();
+    private violations = new Map<string, WarningBudgetViolation[]>();
+    private diagnosticCollection = vscode.languages.createDiagnosticCollection("swift-budgets");
+    private disposables: vscode.Disposable[];
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables = [
+            workspaceContext.diagnostics.onDidProvideBuildDiagnostics(event => {
+                if (isCompileTimeAnalysis(event.args)) {
+                    return;
+                }
+                this.record(event).catch(error =>
+                    workspaceContext.logger.error(`Failed to check warning budgets: ${error}`)
+                );
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                for (const folderContext of this.workspaceContext.folders) {
+                    if (
+                        event.affectsConfiguration(
+                            "swift.warningBudgets",
+                            folderContext.workspaceFolder
+                        )
+                    ) {
+                        void this.check(folderContext);
+                    }
+                }
+            }),
+            workspaceContext.onDidChangeFolders(({ folder, operation }) => {
+                if (folder && operation === FolderOperation.remove) {
+                    this.counts.delete(folder.folder.fsPath);
+                    void this.update(folder, []);
+                }
+            }),
+        ];
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.diagnosticCollection.dispose();
+    }
+
+    /** Returns the targets of a folder that were over budget in its latest build. */
+    overBudget(folderPath: string): WarningBudgetViolation[] {
+        return this.violations.get(folderPath) ?? [];
+    }
+
+    private async record(event: BuildDiagnosticsEvent) {
+        const folderContext = this.workspaceContext.folders.find(
+            folder => folder.folder.fsPath === event.folder
+        );
+        if (!folderContext) {
+            return;
+        }
+        this.counts.set(
+            event.folder,
+            await countWarningsByTarget(event, folderContext.swiftPackage)
+        );
+        await this.check(folderContext);
+    }
+
+    private async check(folderContext: FolderContext) {
+        const counts = this.counts.get(folderContext.folder.fsPath);
+        if (!counts) {
+            return;
+        }
+        const budgets = configuration.folder(folderContext.workspaceFolder).warningBudgets;
+        await this.update(folderContext, checkWarningBudgets(counts, budgets));
+    }
+
+    private async update(folderContext: FolderContext, violations: WarningBudgetViolation[]) {
+        const folderPath = folderContext.folder.fsPath;
+        if (violations.length > 0) {
+            this.violations.set(folderPath, violations);
+        } else {
+            this.violations.delete(folderPath);
+        }
+
+        const manifest = vscode.Uri.file(path.join(folderPath, "Package.swift"));
+        const contents =
+            violations.length > 0 ? await fs.readFile(manifest.fsPath, "utf8").catch(() => "") : "";
+        this.diagnosticCollection.set(
+            manifest,
+            violations.map(({ target, warnings, budget }) => {
+                const diagnostic = new vscode.Diagnostic(
+                    targetDeclaration(contents, target) ?? new vscode.Range(0, 0, 0, 0),
+                    `Target '${target}' has ${warnings} warnings, over its budget of ${budget}`,
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = "swift";
+                diagnostic.code = "warningBudget";
+                return diagnostic;
+            })
+        );
+        this.updateStatusItem();
+    }
+
+    private updateStatusItem() {
+        const violations = [...this.violations.values()].flat();
+        if (violations.length === 0) {
+            this.workspaceContext.statusItem.flag(undefined);
+            return;
+        }
+        const tooltip = violations
+            .map(({ target, warnings, budget }) => `${target}: ${warnings}/${budget} warnings`)
+            .join("\n");
+        this.workspaceContext.statusItem.flag({
+            message:
+                violations.length === 1
+                    ? `${violations[0].target} over warning budget`
+                    : `${violations.length} targets over warning budget`,
+            tooltip: `Targets over their warning budget:\n${tooltip}`,
+            command: "workbench.actions.view.problems",
+        });
+    }
+}
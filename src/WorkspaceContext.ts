@@ -14,21 +14,32 @@
 import * as path from "path";
 import * as vscode from "vscode";
 
+import { BuildTimeline } from "./BuildTimeline";
+import { CompileTimeHotspots, isCompileTimeAnalysis } from "./CompileTimeHotspots";
+import { DiagnosticHistory } from "./DiagnosticHistory";
 import { DiagnosticsManager } from "./DiagnosticsManager";
 import { FolderContext } from "./FolderContext";
+import { GeneratedSources } from "./GeneratedSources";
+import { SanitizerFindings } from "./SanitizerFindings";
 import { setSnippetContextKey } from "./SwiftSnippets";
+import { TestAttachmentStore } from "./TestExplorer/TestAttachments";
+import { TestHistoryStore } from "./TestExplorer/TestHistory";
 import { TestKind } from "./TestExplorer/TestKind";
 import { TestRunManager } from "./TestExplorer/TestRunManager";
+import { WarningBudgets } from "./WarningBudgets";
 import configuration from "./configuration";
 import { ContextKeys } from "./contextKeys";
+import { CoverageBaselineStore } from "./coverage/CoverageBaselines";
 import { LLDBDebugConfigurationProvider } from "./debugger/debugAdapterFactory";
 import { makeDebugConfigurations } from "./debugger/launch";
 import { DocumentationManager } from "./documentation/DocumentationManager";
 import { CommentCompletionProviders } from "./editor/CommentCompletion";
+import { CompilerFixItProvider } from "./editor/CompilerFixItProvider";
 import { SwiftLogger } from "./logging/SwiftLogger";
 import { SwiftLoggerFactory } from "./logging/SwiftLoggerFactory";
 import { LanguageClientToolchainCoordinator } from "./sourcekit-lsp/LanguageClientToolchainCoordinator";
 import { DocCDocumentationRequest, ReIndexProjectRequest } from "./sourcekit-lsp/extensions";
+import { PluginArgumentStore } from "./tasks/PluginArgumentStore";
 import { SwiftPluginTaskProvider } from "./tasks/SwiftPluginTaskProvider";
 import { SwiftTaskProvider } from "./tasks/SwiftTaskProvider";
 import { TaskManager } from "./tasks/TaskManager";
@@ -58,8 +69,19 @@ export class WorkspaceContext implements vscode.Disposable {
     public launchProvider: LLDBDebugConfigurationProvider;
     public subscriptions: vscode.Disposable[];
     public commentCompletionProvider: CommentCompletionProviders;
+    public compilerFixItProvider: CompilerFixItProvider;
     public documentation: DocumentationManager;
     public testRunManager: TestRunManager;
+    public coverageBaselines: CoverageBaselineStore;
+    public diagnosticHistory: DiagnosticHistory;
+    public buildTimeline: BuildTimeline;
+    public compileTimeHotspots: CompileTimeHotspots;
+    public pluginArguments: PluginArgumentStore;
+    public generatedSources: GeneratedSources;
+    public warningBudgets: WarningBudgets;
+    public sanitizerFindings: SanitizerFindings;
+    public testAttachments: TestAttachmentStore;
+    public testHistory: TestHistoryStore;
     private lastFocusUri: vscode.Uri | undefined;
     private initialisationFinished = false;
 
@@ -102,6 +124,28 @@ export class WorkspaceContext implements vscode.Disposable {
         this.documentation = new DocumentationManager(extensionContext, this);
         this.currentDocument = null;
         this.commentCompletionProvider = new CommentCompletionProviders();
+        this.compilerFixItProvider = new CompilerFixItProvider(this.diagnostics);
+        this.coverageBaselines = new CoverageBaselineStore(extensionContext.workspaceState);
+        this.diagnosticHistory = new DiagnosticHistory(extensionContext.workspaceState);
+        this.buildTimeline = new BuildTimeline(extensionContext.workspaceState);
+        const onDidProvideBuildDiagnostics = this.diagnostics.onDidProvideBuildDiagnostics(
+            event => {
+                if (!isCompileTimeAnalysis(event.args)) {
+                    void this.diagnosticHistory.record(event);
+                }
+            }
+        );
+        this.warningBudgets = new WarningBudgets(this);
+        this.compileTimeHotspots = new CompileTimeHotspots(this, extensionContext.workspaceState);
+        this.pluginArguments = new PluginArgumentStore(extensionContext.workspaceState);
+        this.generatedSources = new GeneratedSources(
+            this,
+            (extensionContext.storageUri ?? extensionContext.globalStorageUri).fsPath,
+            extensionContext.workspaceState
+        );
+        this.sanitizerFindings = new SanitizerFindings(this);
+        this.testAttachments = new TestAttachmentStore();
+        this.testHistory = new TestHistoryStore(extensionContext.workspaceState);
 
         const onChangeConfig = vscode.workspace.onDidChangeConfiguration(async event => {
             // Clear build path cache when build-related configurations change
@@ -134,6 +178,12 @@ export class WorkspaceContext implements vscode.Disposable {
                         }
                     });
             }
+            // on change of the launch profiles, regenerate the launch configurations of the profiles
+            if (event.affectsConfiguration("swift.launchProfiles")) {
+                this.folders
+                    .filter(ctx => event.affectsConfiguration("swift.launchProfiles", ctx.folder))
+                    .forEach(ctx => void makeDebugConfigurations(ctx, { yes: true }));
+            }
             // on change of swift build path or build arguments, regenerate launch.json
             if (
                 event.affectsConfiguration("swift.buildPath") ||
@@ -216,6 +266,7 @@ export class WorkspaceContext implements vscode.Disposable {
             swiftFileWatcher,
             onDidEndTask,
             this.commentCompletionProvider,
+            this.compilerFixItProvider,
             contextKeysUpdate,
             onChangeConfig,
             this.tasks,
@@ -225,6 +276,16 @@ export class WorkspaceContext implements vscode.Disposable {
             this.logger,
             this.statusItem,
             this.buildStatus,
+            this.coverageBaselines,
+            this.diagnosticHistory,
+            this.buildTimeline,
+            this.warningBudgets,
+            this.compileTimeHotspots,
+            this.generatedSources,
+            this.sanitizerFindings,
+            this.testAttachments,
+            this.testHistory,
+            onDidProvideBuildDiagnostics,
         ];
         this.lastFocusUri = vscode.window.activeTextEditor?.document.uri;
 
@@ -17,18 +17,34 @@ import * as vscode from "vscode";
 import { debugSnippet, runSnippet } from "./SwiftSnippets";
 import { TestKind } from "./TestExplorer/TestKind";
 import { WorkspaceContext } from "./WorkspaceContext";
+import { applyCompilerFixes } from "./commands/applyCompilerFixes";
 import { attachDebugger } from "./commands/attachDebugger";
 import { cleanBuild, debugBuild, runBuild } from "./commands/build";
+import { clearBuildTimeline } from "./commands/buildTimeline";
+import { clearBuildWarningHistory, filterBuildWarnings } from "./commands/buildWarnings";
 import { captureDiagnostics } from "./commands/captureDiagnostics";
+import {
+    clearCompileTimeHotspots,
+    findCompileTimeHotspots,
+    sortCompileTimeHotspots,
+} from "./commands/compileTimeHotspots";
+import {
+    deleteCoverageBaseline,
+    saveCoverageBaseline,
+    selectCoverageBaseline,
+} from "./commands/coverageBaselines";
 import { createNewProject } from "./commands/createNewProject";
 import { editDependency } from "./commands/dependencies/edit";
 import { resolveDependencies } from "./commands/dependencies/resolve";
 import { uneditDependency } from "./commands/dependencies/unedit";
-import { updateDependencies } from "./commands/dependencies/update";
+import { updateDependencies, updateDependency } from "./commands/dependencies/update";
 import { updateDependenciesViewList } from "./commands/dependencies/updateDepViewList";
 import { useLocalDependency } from "./commands/dependencies/useLocal";
+import { exportCoverage } from "./commands/exportCoverage";
+import { exportJUnitReport } from "./commands/exportJUnitReport";
 import { generateLaunchConfigurations } from "./commands/generateLaunchConfigurations";
 import { generateSourcekitConfiguration } from "./commands/generateSourcekitConfiguration";
+import { compareGeneratedSource, openGeneratedSource } from "./commands/generatedSources";
 import { insertFunctionComment } from "./commands/insertFunctionComment";
 import {
     installSwiftlySnapshotToolchain,
@@ -42,18 +58,24 @@ import { openInWorkspace } from "./commands/openInWorkspace";
 import { openPackage } from "./commands/openPackage";
 import { pickProcess } from "./commands/pickProcess";
 import { reindexProject } from "./commands/reindexProject";
+import { rerunFailedTests } from "./commands/rerunFailedTests";
 import { resetPackage } from "./commands/resetPackage";
 import restartLSPServer from "./commands/restartLSPServer";
 import { runAllTests } from "./commands/runAllTests";
-import { runPluginTask } from "./commands/runPluginTask";
+import { runPluginTask, runPluginTaskWithArguments } from "./commands/runPluginTask";
 import { runSwiftScript } from "./commands/runSwiftScript";
 import { runTask } from "./commands/runTask";
 import { runTest } from "./commands/runTest";
+import { clearSanitizerFindings } from "./commands/sanitizerFindings";
 import { switchPlatform } from "./commands/switchPlatform";
+import { copySymbolInspectorValue } from "./commands/symbolInspector";
+import { clearTestAttachments } from "./commands/testAttachments";
+import { clearTestHistory } from "./commands/testHistory";
 import { extractTestItemsAndCount, runTestMultipleTimes } from "./commands/testMultipleTimes";
 import { SwiftLogger } from "./logging/SwiftLogger";
 import { SwiftToolchain } from "./toolchain/toolchain";
 import { PackageNode } from "./ui/ProjectPanelProvider";
+import { SymbolPropertyNode } from "./ui/SymbolInspectorProvider";
 import { showToolchainSelectionQuickPick } from "./ui/ToolchainSelection";
 
 /**
@@ -100,8 +122,10 @@ export enum Commands {
     RESET_PACKAGE = "swift.resetPackage",
     USE_LOCAL_DEPENDENCY = "swift.useLocalDependency",
     UNEDIT_DEPENDENCY = "swift.uneditDependency",
+    UPDATE_DEPENDENCY = "swift.updateDependency",
     RUN_TASK = "swift.runTask",
     RUN_PLUGIN_TASK = "swift.runPluginTask",
+    RUN_PLUGIN_TASK_WITH_ARGUMENTS = "swift.runPluginTaskWithArguments",
     RUN_SNIPPET = "swift.runSnippet",
     DEBUG_SNIPPET = "swift.debugSnippet",
     PREVIEW_DOCUMENTATION = "swift.previewDocumentation",
@@ -109,6 +133,11 @@ export enum Commands {
     RUN_ALL_TESTS_PARALLEL = "swift.runAllTestsParallel",
     DEBUG_ALL_TESTS = "swift.debugAllTests",
     COVER_ALL_TESTS = "swift.coverAllTests",
+    RERUN_FAILED_TESTS = "swift.rerunFailedTests",
+    RERUN_FAILED_TESTS_PARALLEL = "swift.rerunFailedTestsParallel",
+    DEBUG_FAILED_TESTS = "swift.debugFailedTests",
+    RERUN_FAILED_TESTS_WITH_COVERAGE = "swift.rerunFailedTestsWithCoverage",
+    RERUN_FAILED_TESTS_RELEASE = "swift.rerunFailedTestsRelease",
     RUN_TEST = "swift.runTest",
     DEBUG_TEST = "swift.debugTest",
     RUN_TEST_WITH_COVERAGE = "swift.runTestWithCoverage",
@@ -118,6 +147,25 @@ export enum Commands {
     INSTALL_SWIFTLY_TOOLCHAIN = "swift.installSwiftlyToolchain",
     INSTALL_SWIFTLY_SNAPSHOT_TOOLCHAIN = "swift.installSwiftlySnapshotToolchain",
     GENERATE_SOURCEKIT_CONFIG = "swift.generateSourcekitConfiguration",
+    SAVE_COVERAGE_BASELINE = "swift.saveCoverageBaseline",
+    SELECT_COVERAGE_BASELINE = "swift.selectCoverageBaseline",
+    DELETE_COVERAGE_BASELINE = "swift.deleteCoverageBaseline",
+    EXPORT_COVERAGE = "swift.exportCoverage",
+    EXPORT_JUNIT_REPORT = "swift.exportJUnitReport",
+    APPLY_COMPILER_FIXES_IN_FILE = "swift.applyCompilerFixesInFile",
+    APPLY_COMPILER_FIXES_IN_WORKSPACE = "swift.applyCompilerFixesInWorkspace",
+    FILTER_BUILD_WARNINGS = "swift.filterBuildWarnings",
+    CLEAR_BUILD_WARNING_HISTORY = "swift.clearBuildWarningHistory",
+    CLEAR_BUILD_TIMELINE = "swift.clearBuildTimeline",
+    FIND_COMPILE_TIME_HOTSPOTS = "swift.findCompileTimeHotspots",
+    SORT_COMPILE_TIME_HOTSPOTS = "swift.sortCompileTimeHotspots",
+    CLEAR_COMPILE_TIME_HOTSPOTS = "swift.clearCompileTimeHotspots",
+    OPEN_GENERATED_SOURCE = "swift.openGeneratedSource",
+    COMPARE_GENERATED_SOURCE = "swift.compareGeneratedSource",
+    CLEAR_SANITIZER_FINDINGS = "swift.clearSanitizerFindings",
+    COPY_SYMBOL_INSPECTOR_VALUE = "swift.copySymbolInspectorValue",
+    CLEAR_TEST_ATTACHMENTS = "swift.clearTestAttachments",
+    CLEAR_TEST_HISTORY = "swift.clearTestHistory",
 }
 
 /**
@@ -129,7 +177,7 @@ export function register(ctx: WorkspaceContext): vscode.Disposable[] {
             "swift.generateLaunchConfigurations",
             async () => await generateLaunchConfigurations(ctx)
         ),
-        vscode.commands.registerCommand("swift.newFile", async uri => await newSwiftFile(uri)),
+        vscode.commands.registerCommand("swift.newFile", async uri => await newSwiftFile(ctx, uri)),
         vscode.commands.registerCommand(
             Commands.RESOLVE_DEPENDENCIES,
             async () => await resolveDependencies(ctx)
@@ -245,6 +293,10 @@ export function register(ctx: WorkspaceContext): vscode.Disposable[] {
             Commands.RUN_PLUGIN_TASK,
             async () => await runPluginTask()
         ),
+        vscode.commands.registerCommand(
+            Commands.RUN_PLUGIN_TASK_WITH_ARGUMENTS,
+            async item => await runPluginTaskWithArguments(ctx, ...unwrapTreeItem(item))
+        ),
         vscode.commands.registerCommand(Commands.RUN_TASK, async name => await runTask(ctx, name)),
         vscode.commands.registerCommand(
             Commands.RESTART_LSP,
@@ -273,6 +325,11 @@ export function register(ctx: WorkspaceContext): vscode.Disposable[] {
                 return await uneditDependency(item.name, ctx, folder);
             }
         }),
+        vscode.commands.registerCommand(Commands.UPDATE_DEPENDENCY, async (item, folder) => {
+            if (PackageNode.isPackageNode(item)) {
+                return await updateDependency(item.name, ctx, folder, item.update);
+            }
+        }),
         vscode.commands.registerCommand("swift.openInWorkspace", async item => {
             if (PackageNode.isPackageNode(item)) {
                 return await openInWorkspace(item);
@@ -287,6 +344,64 @@ export function register(ctx: WorkspaceContext): vscode.Disposable[] {
         vscode.commands.registerCommand("swift.clearDiagnosticsCollection", () =>
             ctx.diagnostics.clear()
         ),
+        vscode.commands.registerCommand(
+            Commands.APPLY_COMPILER_FIXES_IN_FILE,
+            async (uri?: vscode.Uri) => {
+                uri = uri ?? vscode.window.activeTextEditor?.document.uri;
+                if (uri) {
+                    return await applyCompilerFixes(ctx, uri);
+                }
+            }
+        ),
+        vscode.commands.registerCommand(
+            Commands.APPLY_COMPILER_FIXES_IN_WORKSPACE,
+            async () => await applyCompilerFixes(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.FILTER_BUILD_WARNINGS,
+            async () => await filterBuildWarnings(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.CLEAR_BUILD_WARNING_HISTORY,
+            async () => await clearBuildWarningHistory(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.CLEAR_BUILD_TIMELINE,
+            async () => await clearBuildTimeline(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.FIND_COMPILE_TIME_HOTSPOTS,
+            async (target?: string) => await findCompileTimeHotspots(ctx, target)
+        ),
+        vscode.commands.registerCommand(
+            Commands.SORT_COMPILE_TIME_HOTSPOTS,
+            async () => await sortCompileTimeHotspots(ctx)
+        ),
+        vscode.commands.registerCommand(Commands.CLEAR_COMPILE_TIME_HOTSPOTS, () =>
+            clearCompileTimeHotspots(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.OPEN_GENERATED_SOURCE,
+            async item => await openGeneratedSource(ctx, unwrapTreeItem(item)[0])
+        ),
+        vscode.commands.registerCommand(
+            Commands.COMPARE_GENERATED_SOURCE,
+            async item => await compareGeneratedSource(ctx, unwrapTreeItem(item)[0])
+        ),
+        vscode.commands.registerCommand(Commands.CLEAR_SANITIZER_FINDINGS, () =>
+            clearSanitizerFindings(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.COPY_SYMBOL_INSPECTOR_VALUE,
+            async (node: SymbolPropertyNode) => await copySymbolInspectorValue(node)
+        ),
+        vscode.commands.registerCommand(Commands.CLEAR_TEST_ATTACHMENTS, () =>
+            clearTestAttachments(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.CLEAR_TEST_HISTORY,
+            async () => await clearTestHistory(ctx)
+        ),
         vscode.commands.registerCommand(
             "swift.captureDiagnostics",
             async () => await captureDiagnostics(ctx)
@@ -307,6 +422,26 @@ export function register(ctx: WorkspaceContext): vscode.Disposable[] {
             Commands.COVER_ALL_TESTS,
             async item => await runAllTests(ctx, TestKind.coverage, ...unwrapTreeItem(item))
         ),
+        vscode.commands.registerCommand(
+            Commands.RERUN_FAILED_TESTS,
+            async () => await rerunFailedTests(ctx, TestKind.standard)
+        ),
+        vscode.commands.registerCommand(
+            Commands.RERUN_FAILED_TESTS_PARALLEL,
+            async () => await rerunFailedTests(ctx, TestKind.parallel)
+        ),
+        vscode.commands.registerCommand(
+            Commands.DEBUG_FAILED_TESTS,
+            async () => await rerunFailedTests(ctx, TestKind.debug)
+        ),
+        vscode.commands.registerCommand(
+            Commands.RERUN_FAILED_TESTS_WITH_COVERAGE,
+            async () => await rerunFailedTests(ctx, TestKind.coverage)
+        ),
+        vscode.commands.registerCommand(
+            Commands.RERUN_FAILED_TESTS_RELEASE,
+            async () => await rerunFailedTests(ctx, TestKind.release)
+        ),
         vscode.commands.registerCommand(
             Commands.RUN_TEST,
             async item => await runTest(ctx, TestKind.standard, item)
@@ -319,6 +454,26 @@ export function register(ctx: WorkspaceContext): vscode.Disposable[] {
             Commands.RUN_TEST_WITH_COVERAGE,
             async item => await runTest(ctx, TestKind.coverage, item)
         ),
+        vscode.commands.registerCommand(
+            Commands.SAVE_COVERAGE_BASELINE,
+            async () => await saveCoverageBaseline(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.SELECT_COVERAGE_BASELINE,
+            async () => await selectCoverageBaseline(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.DELETE_COVERAGE_BASELINE,
+            async () => await deleteCoverageBaseline(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.EXPORT_COVERAGE,
+            async () => await exportCoverage(ctx)
+        ),
+        vscode.commands.registerCommand(
+            Commands.EXPORT_JUNIT_REPORT,
+            async () => await exportJUnitReport(ctx)
+        ),
         vscode.commands.registerCommand(
             Commands.PREVIEW_DOCUMENTATION,
             async () => await ctx.documentation.launchDocumentationPreview()
@@ -0,0 +1,39 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { WorkspaceContext } from "../WorkspaceContext";
+
+/**
+ * Applies the compiler suggested fixes of the `swiftc` diagnostics from the last build,
+ * except in files that changed since.
+ *
+ * @param uri Only apply the fixes for diagnostics in this file, otherwise fixes are
+ * applied to every file in the workspace
+ */
+export async function applyCompilerFixes(
+    ctx: WorkspaceContext,
+    uri?: vscode.Uri
+): Promise<boolean> {
+    const edit = ctx.compilerFixItProvider.fixAllEdit(uri);
+    if (!edit) {
+        void vscode.window.showInformationMessage(
+            uri
+                ? "There are no compiler fixes to apply in this file. Build the project to find them."
+                : "There are no compiler fixes to apply. Build the project to find them."
+        );
+        return false;
+    }
+    return await vscode.workspace.applyEdit(edit);
+}
@@ -0,0 +1,25 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { WorkspaceContext } from "../WorkspaceContext";
+
+/**
+ * Deletes the recorded build timeline of the current folder.
+ */
+export async function clearBuildTimeline(ctx: WorkspaceContext) {
+    const folderContext = ctx.currentFolder;
+    if (!folderContext) {
+        return;
+    }
+    await ctx.buildTimeline.clear(folderContext.folder.fsPath);
+}
@@ -0,0 +1,66 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { WarningStatus } from "../DiagnosticHistory";
+import { WorkspaceContext } from "../WorkspaceContext";
+
+/**
+ * Filters the Build Warnings view to the warnings that are new, fixed or
+ * long-standing in the latest build, and reveals the view.
+ */
+export async function filterBuildWarnings(ctx: WorkspaceContext) {
+    const items: (vscode.QuickPickItem & { status?: WarningStatus })[] = [
+        { label: "All Warnings" },
+        {
+            label: "New Warnings",
+            description: "Reported by the latest build but not the one before it",
+            status: WarningStatus.new,
+        },
+        {
+            label: "Fixed Warnings",
+            description: "Reported by the build before the latest but not the latest",
+            status: WarningStatus.fixed,
+        },
+        {
+            label: "Long-standing Warnings",
+            description: "Reported by the latest build and the one before it",
+            status: WarningStatus.longStanding,
+        },
+    ];
+    const current = ctx.diagnosticHistory.filter;
+    for (const item of items) {
+        item.picked = item.status === current;
+    }
+    const selected = await vscode.window.showQuickPick(items, {
+        title: "Filter Build Warnings",
+        placeHolder: "Select the warnings to show",
+    });
+    if (!selected) {
+        return;
+    }
+    await ctx.diagnosticHistory.setFilter(selected.status);
+    await vscode.commands.executeCommand("swift.buildWarnings.focus");
+}
+
+/**
+ * Deletes the recorded build warnings of the current folder.
+ */
+export async function clearBuildWarningHistory(ctx: WorkspaceContext) {
+    const folderContext = ctx.currentFolder;
+    if (!folderContext) {
+        return;
+    }
+    await ctx.diagnosticHistory.clear(folderContext.folder.fsPath);
+}
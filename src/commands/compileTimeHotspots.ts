@@ -0,0 +1,110 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { HotspotSortOrder, compileTimeAnalysisArgs } from "../CompileTimeHotspots";
+import { Target } from "../SwiftPackage";
+import { WorkspaceContext } from "../WorkspaceContext";
+import configuration from "../configuration";
+import { createSwiftTask } from "../tasks/SwiftTaskProvider";
+import { packageName } from "../utilities/tasks";
+import { executeTaskWithUI } from "./utilities";
+
+/** The types of target compiled by `swiftc`. */
+const analyzableTargetTypes: Target["type"][] = ["library", "executable", "test"];
+
+/**
+ * Rebuilds a target with the compiler warning about function bodies and expressions
+ * that take longer than `swift.compileTimeHotspotThreshold` to type-check, and shows
+ * them in the Compile-Time Hotspots view.
+ *
+ * @param targetName The target to analyze, otherwise the user is asked to pick one
+ */
+export async function findCompileTimeHotspots(ctx: WorkspaceContext, targetName?: string) {
+    const folderContext = ctx.currentFolder;
+    if (!folderContext) {
+        return;
+    }
+    const targets = (await folderContext.swiftPackage.targets).filter(target =>
+        analyzableTargetTypes.includes(target.type)
+    );
+    if (!targetName) {
+        const file = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const activeTarget = file ? await folderContext.swiftPackage.getTarget(file) : undefined;
+        const selected = await vscode.window.showQuickPick(
+            targets
+                .map(target => ({
+                    label: target.name,
+                    description: target === activeTarget ? `${target.type}, active` : target.type,
+                    target,
+                }))
+                .sort(
+                    (a, b) => Number(b.target === activeTarget) - Number(a.target === activeTarget)
+                ),
+            {
+                title: "Find Compile-Time Hotspots",
+                placeHolder: "Select the target to analyze",
+            }
+        );
+        if (!selected) {
+            return;
+        }
+        targetName = selected.target.name;
+    }
+    const threshold = configuration.compileTimeHotspotThreshold;
+    const task = createSwiftTask(
+        compileTimeAnalysisArgs(folderContext.folder.fsPath, targetName, threshold),
+        `Find Compile-Time Hotspots in ${targetName}`,
+        {
+            cwd: folderContext.folder,
+            scope: folderContext.workspaceFolder,
+            packageName: packageName(folderContext),
+            presentationOptions: { reveal: vscode.TaskRevealKind.Silent },
+            group: vscode.TaskGroup.Build,
+        },
+        folderContext.toolchain
+    );
+    await vscode.commands.executeCommand("swift.compileTimeHotspots.focus");
+    await executeTaskWithUI(task, "Find Compile-Time Hotspots", folderContext, true);
+}
+
+/**
+ * Sorts the Compile-Time Hotspots view slowest first or by location.
+ */
+export async function sortCompileTimeHotspots(ctx: WorkspaceContext) {
+    const items: (vscode.QuickPickItem & { order: HotspotSortOrder })[] = [
+        { label: "Slowest First", order: HotspotSortOrder.duration },
+        { label: "By File", order: HotspotSortOrder.location },
+    ];
+    const current = ctx.compileTimeHotspots.sortOrder;
+    for (const item of items) {
+        item.picked = item.order === current;
+    }
+    const selected = await vscode.window.showQuickPick(items, {
+        title: "Sort Compile-Time Hotspots",
+    });
+    if (selected) {
+        await ctx.compileTimeHotspots.setSortOrder(selected.order);
+    }
+}
+
+/**
+ * Clears the compile-time hotspots of the current folder, removing their decorations.
+ */
+export function clearCompileTimeHotspots(ctx: WorkspaceContext) {
+    const folderContext = ctx.currentFolder;
+    if (folderContext) {
+        ctx.compileTimeHotspots.clear(folderContext.folder.fsPath);
+    }
+}
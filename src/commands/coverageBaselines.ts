@@ -0,0 +1,133 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { WorkspaceContext } from "../WorkspaceContext";
+import { CoverageSnapshot, createCoverageSnapshot } from "../coverage/CoverageBaselines";
+
+/**
+ * Saves the coverage of the last test run with code coverage in the current
+ * folder as a named baseline that later coverage runs are compared against.
+ */
+export async function saveCoverageBaseline(ctx: WorkspaceContext) {
+    const folderContext = ctx.currentFolder;
+    const results = folderContext?.latestCoverage?.results ?? [];
+    if (!folderContext || results.length === 0) {
+        void vscode.window.showInformationMessage(
+            "There are no coverage results to save. Run your tests with code coverage first."
+        );
+        return;
+    }
+
+    const existing = ctx.coverageBaselines.baselines(folderContext.folder.fsPath);
+    const name = await vscode.window.showInputBox({
+        title: "Save Coverage Baseline",
+        prompt: "Enter a name for the coverage baseline",
+        value: "main",
+        validateInput: value => (value.trim() ? undefined : "A baseline name is required"),
+    });
+    if (!name) {
+        return;
+    }
+    if (existing.some(baseline => baseline.name === name.trim())) {
+        const replace = "Replace";
+        const result = await vscode.window.showWarningMessage(
+            `A coverage baseline named "${name.trim()}" already exists. Do you want to replace it?`,
+            { modal: true },
+            replace
+        );
+        if (result !== replace) {
+            return;
+        }
+    }
+
+    await ctx.coverageBaselines.save(
+        folderContext.folder.fsPath,
+        createCoverageSnapshot(name.trim(), results, folderContext.folder.fsPath)
+    );
+}
+
+/**
+ * Selects which saved baseline the current folder's coverage is compared against.
+ */
+export async function selectCoverageBaseline(ctx: WorkspaceContext) {
+    const folderContext = ctx.currentFolder;
+    if (!folderContext) {
+        return;
+    }
+    const folderPath = folderContext.folder.fsPath;
+    const active = ctx.coverageBaselines.activeBaseline(folderPath);
+    const picked = await pickBaseline(
+        ctx.coverageBaselines.baselines(folderPath),
+        "Select a coverage baseline to compare against",
+        active,
+        true
+    );
+    if (picked === undefined) {
+        return;
+    }
+    await ctx.coverageBaselines.setActive(folderPath, picked?.name);
+}
+
+/**
+ * Deletes a saved coverage baseline from the current folder.
+ */
+export async function deleteCoverageBaseline(ctx: WorkspaceContext) {
+    const folderContext = ctx.currentFolder;
+    if (!folderContext) {
+        return;
+    }
+    const folderPath = folderContext.folder.fsPath;
+    const picked = await pickBaseline(
+        ctx.coverageBaselines.baselines(folderPath),
+        "Select a coverage baseline to delete"
+    );
+    if (!picked) {
+        return;
+    }
+    await ctx.coverageBaselines.delete(folderPath, picked.name);
+}
+
+/**
+ * Shows a QuickPick of the saved baselines.
+ *
+ * @returns the picked baseline, `null` if "None" was picked, or
+ * `undefined` if the QuickPick was dismissed.
+ */
+async function pickBaseline(
+    baselines: CoverageSnapshot[],
+    placeHolder: string,
+    active?: CoverageSnapshot,
+    allowNone: boolean = false
+): Promise<CoverageSnapshot | null | undefined> {
+    if (baselines.length === 0) {
+        void vscode.window.showInformationMessage(
+            "No coverage baselines have been saved for this folder."
+        );
+        return undefined;
+    }
+    const items: (vscode.QuickPickItem & { baseline: CoverageSnapshot | null })[] = baselines.map(
+        baseline => ({
+            label: baseline.name,
+            description: baseline.name === active?.name ? "active" : undefined,
+            detail: `Saved ${new Date(baseline.created).toLocaleString()}`,
+            baseline,
+        })
+    );
+    if (allowNone) {
+        items.push({ label: "None", detail: "Don't compare coverage", baseline: null });
+    }
+    const picked = await vscode.window.showQuickPick(items, { placeHolder });
+    return picked?.baseline;
+}
@@ -12,18 +12,32 @@
 //
 //===----------------------------------------------------------------------===//
 import * as fs from "fs/promises";
+import * as path from "path";
 import * as vscode from "vscode";
 
 import configuration from "../configuration";
 import { SwiftProjectTemplate, SwiftToolchain } from "../toolchain/toolchain";
 import { showToolchainError } from "../ui/ToolchainSelection";
 import { withDelayedProgress } from "../ui/withDelayedProgress";
-import { execSwift } from "../utilities/utilities";
+import { execFile, execSwift, getErrorDescription } from "../utilities/utilities";
 import { Version } from "../utilities/version";
+import {
+    CustomProjectTemplate,
+    copyProjectTemplate,
+    loadCustomProjectTemplates,
+    moduleNameFromProjectName,
+    substituteTemplateVariables,
+} from "./projectTemplates";
+
+type ProjectTemplateItem = vscode.QuickPickItem & {
+    type?: SwiftProjectTemplate;
+    custom?: CustomProjectTemplate;
+};
 
 /**
  * Prompts the user to input project details and then executes `swift package init`
- * to create the project.
+ * to create the project, or copies the files of a custom template from the
+ * `swift.projectTemplates` setting.
  */
 export async function createNewProject(toolchain: SwiftToolchain | undefined): Promise<void> {
     // It is possible for this command to be run without a valid toolchain because it can be
@@ -46,23 +60,37 @@ export async function createNewProject(toolchain: SwiftToolchain | undefined): P
 
     // Prompt the user for the type of project they would like to create
     const availableProjectTemplates = await toolchain.getProjectTemplates();
-    const selectedProjectTemplate = await vscode.window.showQuickPick<
-        vscode.QuickPickItem & { type: SwiftProjectTemplate }
-    >(
-        availableProjectTemplates.map(type => ({
-            label: type.name,
-            description: type.id,
-            detail: type.description,
-            type,
-        })),
-        {
-            placeHolder: "Select a swift project template",
-        }
-    );
+    const customProjectTemplates = await loadCustomProjectTemplates(configuration.projectTemplates);
+    for (const error of customProjectTemplates.errors) {
+        void vscode.window.showWarningMessage(error);
+    }
+    const projectTemplateItems: ProjectTemplateItem[] = availableProjectTemplates.map(type => ({
+        label: type.name,
+        description: type.id,
+        detail: type.description,
+        type,
+    }));
+    if (customProjectTemplates.templates.length > 0) {
+        projectTemplateItems.push(
+            { label: "Custom Templates", kind: vscode.QuickPickItemKind.Separator },
+            ...customProjectTemplates.templates.map(custom => ({
+                label: custom.name,
+                description: path.basename(custom.folder),
+                detail: custom.description,
+                custom,
+            }))
+        );
+    }
+    const selectedProjectTemplate = await vscode.window.showQuickPick(projectTemplateItems, {
+        placeHolder: "Select a swift project template",
+    });
     if (!selectedProjectTemplate) {
         return undefined;
     }
-    const projectType = selectedProjectTemplate.type.id;
+    const customTemplate = selectedProjectTemplate.custom;
+    const projectType =
+        selectedProjectTemplate.type?.id ??
+        selectedProjectTemplate.label.toLowerCase().replace(/[^a-z0-9]+/g, "-");
 
     // Prompt the user for a location in which to create the new project
     const selectedFolder = await vscode.window.showOpenDialog({
@@ -109,17 +137,37 @@ export async function createNewProject(toolchain: SwiftToolchain | undefined): P
         return undefined;
     }
 
+    // Prompt the user for the values of the custom template's variables
+    const variables: { [name: string]: string } = {
+        projectName,
+        moduleName: moduleNameFromProjectName(projectName),
+    };
+    for (const variable of customTemplate?.variables ?? []) {
+        const value = await vscode.window.showInputBox({
+            value: substituteTemplateVariables(variable.default ?? "", variables),
+            prompt: variable.prompt ?? `Enter a value for ${variable.name}`,
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        variables[variable.name] = value;
+    }
+
     // Create the folder that will store the new project
     const projectUri = vscode.Uri.joinPath(selectedFolder[0], projectName);
     await fs.mkdir(projectUri.fsPath);
 
-    // Use swift package manager to initialize the swift project
+    // Use swift package manager or the custom template to initialize the swift project
     await withDelayedProgress(
         {
             location: vscode.ProgressLocation.Notification,
             title: `Creating swift project ${projectName}`,
         },
         async () => {
+            if (customTemplate) {
+                await createProjectFromTemplate(customTemplate, projectUri, variables, toolchain);
+                return;
+            }
             await execSwift(
                 ["package", "init", "--type", projectType, "--name", projectName],
                 toolchain,
@@ -183,3 +231,34 @@ export async function createNewProject(toolchain: SwiftToolchain | undefined): P
         vscode.workspace.updateWorkspaceFolders(index, 0, { uri: projectUri });
     }
 }
+
+/**
+ * Copies the files of a custom project template and then runs its post-create commands.
+ * Commands starting with `swift` use the selected toolchain. If a command fails the
+ * remaining commands are skipped, but the project is kept so it can still be opened.
+ */
+async function createProjectFromTemplate(
+    template: CustomProjectTemplate,
+    projectUri: vscode.Uri,
+    variables: { [name: string]: string },
+    toolchain: SwiftToolchain
+): Promise<void> {
+    await copyProjectTemplate(template, projectUri.fsPath, variables);
+    for (const command of template.postCreateCommands) {
+        const [executable, ...args] = command.map(arg =>
+            substituteTemplateVariables(arg, variables)
+        );
+        try {
+            if (executable === "swift") {
+                await execSwift(args, toolchain, { cwd: projectUri.fsPath });
+            } else {
+                await execFile(executable, args, { cwd: projectUri.fsPath });
+            }
+        } catch (error) {
+            void vscode.window.showErrorMessage(
+                `Post-create command "${[executable, ...args].join(" ")}" failed: ${getErrorDescription(error)}`
+            );
+            return;
+        }
+    }
+}
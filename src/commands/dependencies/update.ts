@@ -11,9 +11,13 @@
 // SPDX-License-Identifier: Apache-2.0
 //
 //===----------------------------------------------------------------------===//
+import * as fs from "fs/promises";
+import * as path from "path";
 import * as vscode from "vscode";
 
+import { DependencyUpdate, isUpdateComplete } from "../../DependencyUpdateAdvisor";
 import { FolderContext } from "../../FolderContext";
+import { PackageResolved } from "../../SwiftPackage";
 import { WorkspaceContext } from "../../WorkspaceContext";
 import { SwiftTaskProvider, createSwiftTask } from "../../tasks/SwiftTaskProvider";
 import { packageName } from "../../utilities/tasks";
@@ -52,3 +56,72 @@ export async function updateFolderDependencies(folderContext: FolderContext) {
     updateAfterError(result, folderContext);
     return result;
 }
+
+/**
+ * Run `swift package update` for a single dependency, leaving the other pins
+ * in Package.resolved as they are.
+ * @param identifier Identifier of dependency
+ * @param ctx workspace context
+ * @param folder folder to run update inside, defaults to the current folder
+ * @param update the newer release of the dependency, to check the update reached it
+ */
+export async function updateDependency(
+    identifier: string,
+    ctx: WorkspaceContext,
+    folder: FolderContext | undefined,
+    update?: DependencyUpdate
+) {
+    const folderContext = folder ?? ctx.currentFolder;
+    if (!folderContext) {
+        ctx.logger.debug("currentFolder is not set.", "updateDependency");
+        return false;
+    }
+    const task = createSwiftTask(
+        ["package", "update", identifier],
+        `${SwiftTaskProvider.updatePackageName} (${identifier})`,
+        {
+            cwd: folderContext.folder,
+            scope: folderContext.workspaceFolder,
+            packageName: packageName(folderContext),
+            presentationOptions: { reveal: vscode.TaskRevealKind.Silent },
+        },
+        folderContext.toolchain
+    );
+
+    const result = await executeTaskWithUI(task, `Updating ${identifier}`, folderContext);
+    updateAfterError(result, folderContext);
+    if (result && update) {
+        await showRequirementLimitedUpdate(update, folderContext);
+    }
+    return result;
+}
+
+/**
+ * `swift package update` can't update a dependency past the version requirement in
+ * Package.swift. Tells the user when a dependency didn't reach the release it was
+ * updated for, as that needs the requirement to be changed first.
+ */
+async function showRequirementLimitedUpdate(
+    update: DependencyUpdate,
+    folderContext: FolderContext
+) {
+    const version = await fs
+        .readFile(path.join(folderContext.folder.fsPath, "Package.resolved"), "utf8")
+        .then(contents => new PackageResolved(contents))
+        .then(resolved => resolved.pins.find(pin => pin.identity === update.identity))
+        .then(pin => pin?.state.version)
+        .catch(() => undefined);
+    if (!version || isUpdateComplete(version, update)) {
+        return;
+    }
+    const updated = version === update.current ? "wasn't updated" : `was updated to ${version}`;
+    const selected = await vscode.window.showInformationMessage(
+        `${update.identity} ${updated} because ${update.latest} is outside the version requirement in Package.swift. Change the requirement to update to ${update.latest}.`,
+        "Open Package.swift"
+    );
+    if (selected) {
+        await vscode.window.showTextDocument(
+            vscode.Uri.joinPath(folderContext.folder, "Package.swift")
+        );
+    }
+}
@@ -0,0 +1,124 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { WorkspaceContext } from "../WorkspaceContext";
+import { CoverageExportFormat, toCobertura, toHtml, toLcov } from "../coverage/CoverageExport";
+import { getErrorDescription } from "../utilities/utilities";
+
+interface ExportFormatItem extends vscode.QuickPickItem {
+    format: CoverageExportFormat;
+    filename: string;
+    filters: { [name: string]: string[] };
+}
+
+const formats: ExportFormatItem[] = [
+    {
+        label: "lcov",
+        description: "Raw lcov tracefile",
+        format: CoverageExportFormat.lcov,
+        filename: "lcov.info",
+        filters: { lcov: ["info", "lcov"] },
+    },
+    {
+        label: "Cobertura XML",
+        description: "For CI coverage dashboards",
+        format: CoverageExportFormat.cobertura,
+        filename: "coverage.xml",
+        filters: { XML: ["xml"] },
+    },
+    {
+        label: "HTML",
+        description: "Self-contained report that can be opened in a browser",
+        format: CoverageExportFormat.html,
+        filename: "coverage.html",
+        filters: { HTML: ["html"] },
+    },
+];
+
+/**
+ * Writes the results of the last test run with code coverage in the current
+ * folder to a file in the format chosen by the user.
+ */
+export async function exportCoverage(ctx: WorkspaceContext): Promise<boolean> {
+    const folderContext = ctx.currentFolder;
+    const coverage = folderContext?.latestCoverage;
+    if (!folderContext || !coverage || coverage.results.length === 0) {
+        void vscode.window.showInformationMessage(
+            "There are no coverage results to export. Run your tests with code coverage first."
+        );
+        return false;
+    }
+
+    const selected = await vscode.window.showQuickPick(formats, {
+        title: "Export Coverage Report",
+        placeHolder: "Select the format of the coverage report",
+    });
+    if (!selected) {
+        return false;
+    }
+
+    const uri = await vscode.window.showSaveDialog({
+        title: "Export Coverage Report",
+        defaultUri: vscode.Uri.joinPath(folderContext.folder, selected.filename),
+        filters: selected.filters,
+    });
+    if (!uri) {
+        return false;
+    }
+
+    const folderPath = folderContext.folder.fsPath;
+    const results = coverage.includedResults;
+    let contents: string;
+    switch (selected.format) {
+        case CoverageExportFormat.lcov:
+            contents = toLcov(results);
+            break;
+        case CoverageExportFormat.cobertura:
+            contents = toCobertura(results, folderPath);
+            break;
+        case CoverageExportFormat.html: {
+            const sources = new Map<string, string>();
+            for (const result of results) {
+                try {
+                    sources.set(result.file, await fs.readFile(result.file, "utf-8"));
+                } catch {
+                    // The source file has since been deleted, only include it in the summary
+                }
+            }
+            contents = toHtml(
+                results,
+                folderPath,
+                sources,
+                `Code Coverage Report: ${path.basename(folderPath)}`
+            );
+            break;
+        }
+    }
+
+    try {
+        await fs.writeFile(uri.fsPath, contents);
+    } catch (error) {
+        void vscode.window.showErrorMessage(
+            `Unable to export coverage report: ${getErrorDescription(error)}`
+        );
+        return false;
+    }
+    void vscode.window.showInformationMessage(
+        `Exported coverage report to ${path.basename(uri.fsPath)}.`
+    );
+    return true;
+}
@@ -0,0 +1,56 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { WorkspaceContext } from "../WorkspaceContext";
+import { getErrorDescription } from "../utilities/utilities";
+
+/**
+ * Writes a JUnit XML report of the last Test Explorer run in the current folder
+ * to a file chosen by the user.
+ */
+export async function exportJUnitReport(ctx: WorkspaceContext): Promise<boolean> {
+    const folderContext = ctx.currentFolder;
+    const report = folderContext?.latestJUnitReport;
+    if (!folderContext || !report) {
+        void vscode.window.showInformationMessage(
+            "There are no test results to export. Run your tests in the Test Explorer first."
+        );
+        return false;
+    }
+
+    const uri = await vscode.window.showSaveDialog({
+        title: "Export Test Results as JUnit XML",
+        defaultUri: vscode.Uri.joinPath(folderContext.folder, "junit.xml"),
+        filters: { XML: ["xml"] },
+    });
+    if (!uri) {
+        return false;
+    }
+
+    try {
+        await fs.writeFile(uri.fsPath, report);
+    } catch (error) {
+        void vscode.window.showErrorMessage(
+            `Unable to export test results: ${getErrorDescription(error)}`
+        );
+        return false;
+    }
+    void vscode.window.showInformationMessage(
+        `Exported test results to ${path.basename(uri.fsPath)}.`
+    );
+    return true;
+}
@@ -0,0 +1,136 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as fs from "fs/promises";
+import * as path from "path";
+
+/** A template used to create a new Swift file. */
+export interface FileTemplate {
+    label: string;
+    description?: string;
+    /** The contents of the file, which may contain {@link FileTemplateVariables} placeholders. */
+    contents: string;
+}
+
+/**
+ * The values substituted for the `${name}`, `${module}`, `${target}` and
+ * `${testedModule}` placeholders of a {@link FileTemplate}.
+ */
+export interface FileTemplateVariables {
+    /** The type name, derived from the name of the new file. */
+    name: string;
+    /** The module the new file is compiled into. */
+    module?: string;
+    /** The target the new file belongs to. */
+    target?: string;
+    /** The module a test target tests, such as `MyLibrary` for `MyLibraryTests`. */
+    testedModule?: string;
+}
+
+const placeholderNames = ["name", "module", "target", "testedModule"];
+
+/** The folder, relative to a workspace folder, that workspace templates are read from. */
+export const workspaceTemplatesPath = path.join(".vscode", "swift-templates");
+
+export const builtInFileTemplates: FileTemplate[] = [
+    { label: "Empty File", contents: "" },
+    { label: "Struct", contents: "struct ${name} {\n}\n" },
+    { label: "Class", contents: "final class ${name} {\n}\n" },
+    { label: "Enum", contents: "enum ${name} {\n}\n" },
+    { label: "Protocol", contents: "protocol ${name} {\n}\n" },
+    { label: "Actor", contents: "actor ${name} {\n}\n" },
+    {
+        label: "Executable Entry Point",
+        description: "@main",
+        contents: "@main\nstruct ${name} {\n    static func main() {\n    }\n}\n",
+    },
+    {
+        label: "XCTestCase Subclass",
+        description: "XCTest",
+        contents:
+            "import XCTest\n" +
+            "@testable import ${testedModule}\n" +
+            "\n" +
+            "final class ${name}: XCTestCase {\n" +
+            "    func testExample() throws {\n" +
+            "    }\n" +
+            "}\n",
+    },
+    {
+        label: "Test Suite",
+        description: "swift-testing @Suite",
+        contents:
+            "import Testing\n" +
+            "@testable import ${testedModule}\n" +
+            "\n" +
+            "@Suite\n" +
+            "struct ${name} {\n" +
+            "    @Test func example() {\n" +
+            "    }\n" +
+            "}\n",
+    },
+];
+
+/**
+ * Reads the templates in the `.vscode/swift-templates` folder of a workspace folder.
+ * Each `.swift` file in the folder is a template named after the file.
+ */
+export async function loadWorkspaceFileTemplates(workspaceFolder: string): Promise<FileTemplate[]> {
+    const folder = path.join(workspaceFolder, workspaceTemplatesPath);
+    const files = await fs.readdir(folder).catch(() => []);
+    const templates: FileTemplate[] = [];
+    for (const file of files.filter(file => path.extname(file) === ".swift").sort()) {
+        try {
+            templates.push({
+                label: path.basename(file, ".swift"),
+                description: path.join(workspaceTemplatesPath, file),
+                contents: await fs.readFile(path.join(folder, file), "utf8"),
+            });
+        } catch {
+            // Skip templates that can't be read, such as folders ending in .swift
+        }
+    }
+    return templates;
+}
+
+/**
+ * Converts a file name such as `my-view model.swift` into a type name such as `MyViewModel`.
+ */
+export function typeNameFromFileName(fileName: string): string {
+    const base = path.basename(fileName, path.extname(fileName));
+    const words = base.split(/[^A-Za-z0-9_]+/).filter(word => word.length > 0);
+    const name = words.map(word => word[0].toUpperCase() + word.slice(1)).join("");
+    if (name.length === 0) {
+        return "Untitled";
+    }
+    return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Substitutes the placeholders in a template. Lines with a placeholder that has no
+ * value, such as `@testable import ${testedModule}` outside of a target, are removed.
+ */
+export function renderFileTemplate(contents: string, variables: FileTemplateVariables): string {
+    const values: { [key: string]: string | undefined } = { ...variables };
+    const placeholder = /\$\{(\w+)\}/g;
+    const isMissing = (key: string) => placeholderNames.includes(key) && !values[key];
+    return contents
+        .split("\n")
+        .filter(line => [...line.matchAll(placeholder)].every(([, key]) => !isMissing(key)))
+        .map(line =>
+            line.replace(placeholder, (match, key: string) =>
+                placeholderNames.includes(key) ? (values[key] ?? "") : match
+            )
+        )
+        .join("\n");
+}
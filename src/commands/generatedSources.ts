@@ -0,0 +1,75 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { existsSync } from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { WorkspaceContext } from "../WorkspaceContext";
+
+/**
+ * Opens a source generated by a build tool plugin read-only, as edits would be overwritten
+ * by the next build. Sources removed in the latest generation are opened as they were
+ * before they were removed.
+ *
+ * @param fsPath Path of the generated source
+ */
+export async function openGeneratedSource(ctx: WorkspaceContext, fsPath: string) {
+    let uri = vscode.Uri.file(fsPath);
+    if (!existsSync(fsPath)) {
+        const source = ctx.generatedSources.findGeneratedSource(fsPath);
+        const previous =
+            source &&
+            ctx.generatedSources.previousGeneration(source.folder.folder.fsPath, source.file);
+        if (!previous) {
+            void vscode.window.showErrorMessage(`${path.basename(fsPath)} no longer exists.`);
+            return;
+        }
+        uri = vscode.Uri.file(previous);
+    }
+    await vscode.commands.executeCommand("vscode.open", uri.with({ scheme: "readonly" }));
+}
+
+/**
+ * Compares a source generated by a build tool plugin with the source as it was before the
+ * latest generation.
+ *
+ * @param fsPath Path of the generated source, defaults to the file open in the active editor
+ */
+export async function compareGeneratedSource(ctx: WorkspaceContext, fsPath?: string) {
+    fsPath = fsPath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+    const source = fsPath && ctx.generatedSources.findGeneratedSource(fsPath);
+    if (!fsPath || !source) {
+        void vscode.window.showErrorMessage(
+            "Select a source generated by a build tool plugin to compare."
+        );
+        return;
+    }
+    const name = path.basename(fsPath);
+    const previous = ctx.generatedSources.previousGeneration(
+        source.folder.folder.fsPath,
+        source.file
+    );
+    if (!previous) {
+        void vscode.window.showInformationMessage(
+            `${name} did not exist before the latest generation.`
+        );
+        return;
+    }
+    await vscode.commands.executeCommand(
+        "vscode.diff",
+        vscode.Uri.file(previous).with({ scheme: "readonly" }),
+        vscode.Uri.file(fsPath).with({ scheme: "readonly" }),
+        `${name} (Previous Generation ↔ Current)`
+    );
+}
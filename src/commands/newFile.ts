@@ -15,41 +15,128 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import * as vscode from "vscode";
 
+import { WorkspaceContext } from "../WorkspaceContext";
+import { isPathInsidePath } from "../utilities/filesystem";
+import {
+    FileTemplate,
+    FileTemplateVariables,
+    builtInFileTemplates,
+    loadWorkspaceFileTemplates,
+    renderFileTemplate,
+    typeNameFromFileName,
+} from "./fileTemplates";
+
 const extension = "swift";
 const defaultFileName = `Untitled.${extension}`;
 
 export async function newSwiftFile(
+    ctx: WorkspaceContext,
     uri?: vscode.Uri,
     isDirectory: (uri: vscode.Uri) => Promise<boolean> = async uri => {
         return (await vscode.workspace.fs.stat(uri)).type === vscode.FileType.Directory;
     }
 ) {
-    if (uri) {
-        // Attempt to create the file at the given directory.
-        const dir = (await isDirectory(uri)) ? uri.fsPath : path.dirname(uri.fsPath);
-        const defaultName = vscode.Uri.file(path.join(dir, defaultFileName));
-        const targetUri = await vscode.window.showSaveDialog({
-            defaultUri: defaultName,
-            title: "Enter a file path to be created",
-        });
-
-        if (!targetUri) {
+    if (!uri) {
+        // If no path is supplied then open an untitled editor w/ Swift language type, offering
+        // the templates of the current folder
+        const template = await pickFileTemplate(
+            (ctx.currentFolder?.folder ?? vscode.workspace.workspaceFolders?.[0]?.uri)?.fsPath
+        );
+        if (!template) {
             return;
         }
-
-        try {
-            await fs.writeFile(targetUri.fsPath, "", "utf-8");
-            const document = await vscode.workspace.openTextDocument(targetUri);
-            await vscode.languages.setTextDocumentLanguage(document, "swift");
-            await vscode.window.showTextDocument(document);
-        } catch (err) {
-            void vscode.window.showErrorMessage(`Failed to create ${targetUri.fsPath}`);
-        }
-    } else {
-        // If no path is supplied then open an untitled editor w/ Swift language type
         const document = await vscode.workspace.openTextDocument({
             language: "swift",
+            content: renderFileTemplate(template.contents, {
+                name: typeNameFromFileName(defaultFileName),
+            }),
         });
         await vscode.window.showTextDocument(document);
+        return;
+    }
+
+    // Attempt to create the file at the given directory.
+    const dir = (await isDirectory(uri)) ? uri.fsPath : path.dirname(uri.fsPath);
+    const template = await pickFileTemplate(dir);
+    if (!template) {
+        return;
+    }
+
+    const defaultName = vscode.Uri.file(path.join(dir, defaultFileName));
+    const targetUri = await vscode.window.showSaveDialog({
+        defaultUri: defaultName,
+        title: "Enter a file path to be created",
+    });
+
+    if (!targetUri) {
+        return;
+    }
+
+    try {
+        const contents = renderFileTemplate(
+            template.contents,
+            await templateVariables(targetUri, ctx)
+        );
+        await fs.writeFile(targetUri.fsPath, contents, "utf-8");
+        const document = await vscode.workspace.openTextDocument(targetUri);
+        await vscode.languages.setTextDocumentLanguage(document, "swift");
+        await vscode.window.showTextDocument(document);
+    } catch (err) {
+        void vscode.window.showErrorMessage(`Failed to create ${targetUri.fsPath}`);
+    }
+}
+
+/**
+ * Lets the user pick one of the built-in templates or a template from the
+ * `.vscode/swift-templates` folder of the workspace folder containing `dir`.
+ */
+async function pickFileTemplate(dir: string | undefined): Promise<FileTemplate | undefined> {
+    const workspaceFolder = dir && vscode.workspace.getWorkspaceFolder(vscode.Uri.file(dir));
+    const workspaceTemplates = workspaceFolder
+        ? await loadWorkspaceFileTemplates(workspaceFolder.uri.fsPath)
+        : [];
+    const item = (template: FileTemplate) => ({
+        label: template.label,
+        description: template.description,
+        template,
+    });
+    const items: (vscode.QuickPickItem & { template?: FileTemplate })[] =
+        builtInFileTemplates.map(item);
+    if (workspaceTemplates.length > 0) {
+        items.push(
+            { label: "Workspace Templates", kind: vscode.QuickPickItemKind.Separator },
+            ...workspaceTemplates.map(item)
+        );
+    }
+    const selected = await vscode.window.showQuickPick(items, {
+        title: "New Swift File",
+        placeHolder: "Select a template for the new file",
+    });
+    return selected?.template;
+}
+
+/**
+ * Derives the template placeholders from the new file's name and the
+ * target it will belong to.
+ */
+async function templateVariables(
+    file: vscode.Uri,
+    ctx: WorkspaceContext
+): Promise<FileTemplateVariables> {
+    const name = typeNameFromFileName(file.fsPath);
+    const folderContext = ctx.folders.find(folderContext =>
+        isPathInsidePath(file.fsPath, folderContext.folder.fsPath)
+    );
+    const target = await folderContext?.swiftPackage.getTarget(file.fsPath);
+    if (!target) {
+        return { name };
+    }
+    // Test targets are conventionally named after the module they test
+    let testedModule: string | undefined = target.c99name;
+    if (target.type === "test") {
+        testedModule = target.c99name.endsWith("Tests")
+            ? target.c99name.slice(0, -"Tests".length)
+            : undefined;
     }
+    return { name, module: target.c99name, target: target.name, testedModule };
 }
@@ -0,0 +1,194 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as fs from "fs/promises";
+import * as path from "path";
+
+import { getErrorDescription } from "../utilities/utilities";
+
+/** The name of the manifest file that describes a custom project template. */
+export const projectTemplateManifest = "swift-template.json";
+
+/** A variable of a custom project template that the user is prompted for. */
+export interface ProjectTemplateVariable {
+    name: string;
+    prompt?: string;
+    default?: string;
+}
+
+/**
+ * A project template read from a local folder, whose files are copied into the new
+ * project instead of running `swift package init`.
+ */
+export interface CustomProjectTemplate {
+    name: string;
+    description?: string;
+    /** The folder containing the template's files and its manifest. */
+    folder: string;
+    variables: ProjectTemplateVariable[];
+    /** Commands run in the new project once its files have been created, such as `["git", "init"]`. */
+    postCreateCommands: string[][];
+}
+
+const placeholder = /\$\{(\w+)\}/g;
+
+/**
+ * Converts a project name such as `my-service` into a module name such as `my_service`,
+ * the same way SwiftPM derives the c99name of a target.
+ */
+export function moduleNameFromProjectName(projectName: string): string {
+    const name = projectName.replace(/[^A-Za-z0-9_]/g, "_");
+    return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Substitutes the `${variable}` placeholders in a string, leaving unknown placeholders alone.
+ */
+export function substituteTemplateVariables(
+    text: string,
+    variables: { [name: string]: string }
+): string {
+    return text.replace(placeholder, (match, name: string) => variables[name] ?? match);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+/**
+ * Parses the contents of a `swift-template.json` manifest.
+ *
+ * @throws if the manifest is not valid
+ */
+export function parseProjectTemplateManifest(
+    contents: string,
+    folder: string
+): CustomProjectTemplate {
+    const manifest = JSON.parse(contents);
+    if (typeof manifest !== "object" || manifest === null || Array.isArray(manifest)) {
+        throw new Error("Expected an object");
+    }
+    const variables = manifest.variables ?? [];
+    if (
+        !Array.isArray(variables) ||
+        !variables.every(variable => typeof variable?.name === "string")
+    ) {
+        throw new Error('Expected "variables" to be an array of objects with a "name"');
+    }
+    const postCreateCommands = manifest.postCreateCommands ?? [];
+    if (
+        !Array.isArray(postCreateCommands) ||
+        !postCreateCommands.every(command => isStringArray(command) && command.length > 0)
+    ) {
+        throw new Error('Expected "postCreateCommands" to be an array of non-empty string arrays');
+    }
+    return {
+        name: typeof manifest.name === "string" ? manifest.name : path.basename(folder),
+        description: typeof manifest.description === "string" ? manifest.description : undefined,
+        folder,
+        variables: variables.map(({ name, prompt, default: defaultValue }) => ({
+            name,
+            prompt: typeof prompt === "string" ? prompt : undefined,
+            default: typeof defaultValue === "string" ? defaultValue : undefined,
+        })),
+        postCreateCommands,
+    };
+}
+
+async function readProjectTemplate(folder: string): Promise<CustomProjectTemplate | undefined> {
+    const contents = await fs
+        .readFile(path.join(folder, projectTemplateManifest), "utf8")
+        .catch(() => undefined);
+    if (contents === undefined) {
+        return undefined;
+    }
+    try {
+        return parseProjectTemplateManifest(contents, folder);
+    } catch (error) {
+        const message = getErrorDescription(error);
+        throw new Error(
+            `Invalid project template ${path.join(folder, projectTemplateManifest)}: ${message}`
+        );
+    }
+}
+
+/**
+ * Reads the custom project templates from the folders in the `swift.projectTemplates`
+ * setting. Each folder is either a template, containing a `swift-template.json` manifest,
+ * or a folder of templates.
+ *
+ * @returns The templates, along with the errors of any manifests that couldn't be read
+ */
+export async function loadCustomProjectTemplates(
+    folders: string[]
+): Promise<{ templates: CustomProjectTemplate[]; errors: string[] }> {
+    const templates: CustomProjectTemplate[] = [];
+    const errors: string[] = [];
+    const read = async (folder: string) => {
+        try {
+            const template = await readProjectTemplate(folder);
+            if (template) {
+                templates.push(template);
+            }
+            return !!template;
+        } catch (error) {
+            errors.push(getErrorDescription(error));
+            return true;
+        }
+    };
+    for (const folder of folders) {
+        if (await read(folder)) {
+            continue;
+        }
+        const entries = await fs.readdir(folder, { withFileTypes: true }).catch(() => []);
+        for (const entry of entries.filter(entry => entry.isDirectory())) {
+            await read(path.join(folder, entry.name));
+        }
+    }
+    return { templates, errors };
+}
+
+/**
+ * Copies the files of a custom project template into a new project, substituting
+ * the template's variables in both the contents and the names of the files.
+ * Files that look binary are copied unchanged.
+ */
+export async function copyProjectTemplate(
+    template: CustomProjectTemplate,
+    destination: string,
+    variables: { [name: string]: string }
+): Promise<void> {
+    const copy = async (source: string, target: string) => {
+        const entries = await fs.readdir(source, { withFileTypes: true });
+        for (const entry of entries) {
+            if (source === template.folder && entry.name === projectTemplateManifest) {
+                continue;
+            }
+            const from = path.join(source, entry.name);
+            const to = path.join(target, substituteTemplateVariables(entry.name, variables));
+            if (entry.isDirectory()) {
+                await fs.mkdir(to, { recursive: true });
+                await copy(from, to);
+            } else if (entry.isFile()) {
+                const contents = await fs.readFile(from);
+                await fs.writeFile(
+                    to,
+                    contents.includes(0)
+                        ? contents
+                        : substituteTemplateVariables(contents.toString("utf8"), variables)
+                );
+            }
+        }
+    };
+    await copy(template.folder, destination);
+}
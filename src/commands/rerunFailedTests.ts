@@ -0,0 +1,55 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { TestKind } from "../TestExplorer/TestKind";
+import { flattenTestItemCollection } from "../TestExplorer/TestUtils";
+import { WorkspaceContext } from "../WorkspaceContext";
+
+/**
+ * Runs the tests that failed in the last Test Explorer run of the current folder
+ * with the run profile of a test kind.
+ */
+export async function rerunFailedTests(ctx: WorkspaceContext, testKind: TestKind) {
+    const testExplorer = ctx.currentFolder?.testExplorer;
+    if (testExplorer === undefined) {
+        return;
+    }
+
+    const profile = testExplorer.testRunProfiles.find(profile => profile.label === testKind);
+    if (profile === undefined) {
+        return;
+    }
+
+    const failedTestIds = new Set(ctx.currentFolder?.latestFailedTestIds ?? []);
+    const tests = flattenTestItemCollection(testExplorer.controller.items).filter(test =>
+        failedTestIds.has(test.id)
+    );
+    if (tests.length === 0) {
+        void vscode.window.showInformationMessage("No tests failed in the last test run.");
+        return;
+    }
+
+    const tokenSource = new vscode.CancellationTokenSource();
+    try {
+        await profile.runHandler(
+            new vscode.TestRunRequest(tests, undefined, profile),
+            tokenSource.token
+        );
+    } finally {
+        tokenSource.dispose();
+    }
+
+    await vscode.commands.executeCommand("testing.showMostRecentOutput");
+}
@@ -11,10 +11,239 @@
 // SPDX-License-Identifier: Apache-2.0
 //
 //===----------------------------------------------------------------------===//
+import * as path from "path";
 import * as vscode from "vscode";
 
+import { FolderContext } from "../FolderContext";
+import { PackagePlugin } from "../SwiftPackage";
+import { WorkspaceContext } from "../WorkspaceContext";
+import { PluginArgumentPreset, joinArguments, splitArguments } from "../tasks/PluginArgumentStore";
+import { TaskOperation } from "../tasks/TaskQueue";
+import { packageName } from "../utilities/tasks";
+
 export async function runPluginTask() {
     await vscode.commands.executeCommand("workbench.action.tasks.runTask", {
         type: "swift-plugin",
     });
 }
+
+interface PluginArgumentsItem extends vscode.QuickPickItem {
+    args?: string[];
+    /** A preset saved in the workspace state. */
+    preset?: PluginArgumentPreset;
+    /** A preset defined in tasks.json. */
+    task?: vscode.Task;
+}
+
+const savePresetButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon("save"),
+    tooltip: "Save as Preset",
+};
+
+const deletePresetButton: vscode.QuickInputButton = {
+    iconPath: new vscode.ThemeIcon("trash"),
+    tooltip: "Delete Preset",
+};
+
+/**
+ * Runs a command plugin with arguments entered by the user, or from one of the plugin's
+ * presets or recently used arguments.
+ *
+ * @param pluginName The name of the plugin to run, otherwise the user is asked to pick one
+ */
+export async function runPluginTaskWithArguments(ctx: WorkspaceContext, pluginName?: string) {
+    const folderContext = ctx.currentFolder;
+    if (!folderContext) {
+        return;
+    }
+    const plugins = folderContext.swiftPackage.plugins;
+    let plugin = plugins.find(plugin => plugin.name === pluginName);
+    if (!plugin) {
+        const selected = await vscode.window.showQuickPick(
+            plugins.map(plugin => ({ label: plugin.name, description: plugin.package, plugin })),
+            { title: "Run Command Plugin", placeHolder: "Select the command plugin to run" }
+        );
+        if (!selected) {
+            return;
+        }
+        plugin = selected.plugin;
+    }
+
+    const selected = await pickPluginArguments(ctx, folderContext, plugin);
+    if (!selected) {
+        return;
+    }
+    let task = selected.task;
+    if (!task) {
+        const args = selected.preset?.args ?? selected.args ?? [];
+        await ctx.pluginArguments.addRecent(plugin, args);
+        task = ctx.pluginProvider.createSwiftPluginTask(plugin, folderContext.toolchain, {
+            cwd: folderContext.folder,
+            scope: folderContext.workspaceFolder,
+            presentationOptions: { reveal: vscode.TaskRevealKind.Always },
+            packageName: packageName(folderContext),
+            args,
+        });
+    }
+    await folderContext.taskQueue.queueOperation(new TaskOperation(task));
+}
+
+/**
+ * Shows a quick pick where arguments for the plugin can be typed in, or picked from
+ * the plugin's presets and recently used arguments.
+ */
+async function pickPluginArguments(
+    ctx: WorkspaceContext,
+    folderContext: FolderContext,
+    plugin: PackagePlugin
+): Promise<PluginArgumentsItem | undefined> {
+    const tasksJsonPresets = (await vscode.tasks.fetchTasks({ type: "swift-plugin" })).filter(
+        task =>
+            task.source === "Workspace" &&
+            task.definition.command === plugin.command &&
+            (task.scope as vscode.WorkspaceFolder)?.uri?.fsPath ===
+                folderContext.workspaceFolder.uri.fsPath
+    );
+    const store = ctx.pluginArguments;
+    const quickPick = vscode.window.createQuickPick<PluginArgumentsItem>();
+    quickPick.title = `Run ${plugin.name}`;
+    quickPick.placeholder = "Enter the arguments, or select a preset or recent arguments";
+    quickPick.matchOnDescription = true;
+    const updateItems = () => {
+        const args = splitArguments(quickPick.value);
+        const items: PluginArgumentsItem[] = [
+            {
+                label:
+                    args.length > 0 ? `Run with ${joinArguments(args)}` : "Run without arguments",
+                alwaysShow: true,
+                args,
+                buttons: [savePresetButton],
+            },
+        ];
+        const presets = store.presets(plugin);
+        if (presets.length > 0 || tasksJsonPresets.length > 0) {
+            items.push({ label: "Presets", kind: vscode.QuickPickItemKind.Separator });
+            items.push(
+                ...presets.map(preset => ({
+                    label: preset.name,
+                    description: joinArguments(preset.args),
+                    preset,
+                    buttons: [deletePresetButton],
+                })),
+                ...tasksJsonPresets.map(task => ({
+                    label: task.name,
+                    description: joinArguments(task.definition.args ?? []),
+                    detail: "tasks.json",
+                    task,
+                }))
+            );
+        }
+        const recent = store.recent(plugin);
+        if (recent.length > 0) {
+            items.push({ label: "Recent", kind: vscode.QuickPickItemKind.Separator });
+            items.push(
+                ...recent.map(args => ({
+                    label: joinArguments(args) || "No arguments",
+                    args,
+                    buttons: [savePresetButton],
+                }))
+            );
+        }
+        quickPick.items = items;
+    };
+    updateItems();
+
+    return new Promise<PluginArgumentsItem | undefined>(resolve => {
+        let saving = false;
+        quickPick.onDidChangeValue(updateItems);
+        quickPick.onDidAccept(() => {
+            resolve(quickPick.selectedItems[0]);
+            quickPick.hide();
+        });
+        quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+            if (button === deletePresetButton && item.preset) {
+                await store.deletePreset(plugin, item.preset.name);
+                updateItems();
+            } else if (button === savePresetButton && item.args) {
+                saving = true;
+                await savePluginArgumentPreset(ctx, folderContext, plugin, item.args);
+                saving = false;
+                resolve(undefined);
+                quickPick.dispose();
+            }
+        });
+        quickPick.onDidHide(() => {
+            if (!saving) {
+                resolve(undefined);
+                quickPick.dispose();
+            }
+        });
+        quickPick.show();
+    });
+}
+
+/**
+ * Asks for a name for the arguments, then saves them as a preset in either the
+ * workspace state or as a task in tasks.json.
+ */
+async function savePluginArgumentPreset(
+    ctx: WorkspaceContext,
+    folderContext: FolderContext,
+    plugin: PackagePlugin,
+    args: string[]
+) {
+    const name = await vscode.window.showInputBox({
+        title: "Save Preset",
+        prompt: `Enter a name for the ${plugin.name} preset`,
+        value: joinArguments(args),
+        validateInput: value => (value.trim() === "" ? "Name cannot be empty." : undefined),
+    });
+    if (name === undefined) {
+        return;
+    }
+    const location = await vscode.window.showQuickPick(
+        [
+            {
+                label: "Workspace State",
+                detail: "Only available to you in this workspace",
+                tasksJson: false,
+            },
+            {
+                label: "tasks.json",
+                detail: "Saved as a task that can be shared with others",
+                tasksJson: true,
+            },
+        ],
+        { title: "Save Preset", placeHolder: "Select where to save the preset" }
+    );
+    if (!location) {
+        return;
+    }
+    if (!location.tasksJson) {
+        await ctx.pluginArguments.savePreset(plugin, { name: name.trim(), args });
+        return;
+    }
+    const tasksConfiguration = vscode.workspace.getConfiguration(
+        "tasks",
+        folderContext.workspaceFolder
+    );
+    const relativeCwd = path.relative(
+        folderContext.workspaceFolder.uri.fsPath,
+        folderContext.folder.fsPath
+    );
+    const task: vscode.TaskDefinition = {
+        type: "swift-plugin",
+        command: plugin.command,
+        args,
+        label: name.trim(),
+        problemMatcher: [],
+    };
+    if (relativeCwd !== "") {
+        task.cwd = relativeCwd;
+    }
+    await tasksConfiguration.update(
+        "tasks",
+        [...tasksConfiguration.get<vscode.TaskDefinition[]>("tasks", []), task],
+        vscode.ConfigurationTarget.WorkspaceFolder
+    );
+}
@@ -0,0 +1,25 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { SymbolPropertyNode } from "../ui/SymbolInspectorProvider";
+
+/**
+ * Copies the value of a property in the Symbol Inspector view to the clipboard.
+ */
+export async function copySymbolInspectorValue(node: SymbolPropertyNode) {
+    const { label, value } = node.property;
+    await vscode.env.clipboard.writeText(value);
+    vscode.window.setStatusBarMessage(`Copied ${label} to the clipboard`, 3000);
+}
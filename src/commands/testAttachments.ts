@@ -0,0 +1,21 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { WorkspaceContext } from "../WorkspaceContext";
+
+/**
+ * Removes the test runs from the Test Attachments view. The attachment files are kept.
+ */
+export function clearTestAttachments(ctx: WorkspaceContext) {
+    ctx.testAttachments.clear();
+}
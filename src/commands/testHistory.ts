@@ -0,0 +1,24 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { WorkspaceContext } from "../WorkspaceContext";
+
+/**
+ * Forgets the results of earlier test runs, so no tests are flaky until they
+ * pass and fail again.
+ */
+export async function clearTestHistory(ctx: WorkspaceContext) {
+    for (const folder of ctx.folders) {
+        await ctx.testHistory.clear(folder.folder.fsPath);
+    }
+}
@@ -14,6 +14,7 @@
 import * as vscode from "vscode";
 
 import { FolderContext } from "../FolderContext";
+import { failedTestIds } from "../TestExplorer/TestHistory";
 import { TestKind, isDebugging } from "../TestExplorer/TestKind";
 import { TestRunState, TestRunner, TestRunnerTestRunState } from "../TestExplorer/TestRunner";
 import { colorize } from "../utilities/utilities";
@@ -77,6 +78,7 @@ export async function runTestMultipleTimes(
             colorize(`Beginning Test Iteration #${i + 1}`, "cyan") + "\n\r"
         );
 
+        const startTime = Date.now();
         let runState: TestRunState;
         if (testRunner !== undefined) {
             runState = await testRunner();
@@ -87,6 +89,13 @@ export async function runTestMultipleTimes(
         }
 
         runStates.push(runState);
+        await currentFolder.workspaceContext.testHistory.record(
+            currentFolder.folder.fsPath,
+            kind,
+            runState
+        );
+        await runner.writeJUnitReport(runState, startTime);
+        currentFolder.latestFailedTestIds = failedTestIds(runState);
 
         if (
             runner.testRun.isCancellationRequested ||
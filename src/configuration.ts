@@ -84,12 +84,32 @@ export interface FolderConfiguration {
     readonly disableAutoResolve: boolean;
     /** location to save swift-testing attachments */
     readonly attachmentsPath: string;
+    /** folder to write a JUnit XML report of every test run to */
+    readonly junitReportPath: string;
+    /** maximum number of warnings allowed in each target */
+    readonly warningBudgets: { [target: string]: number };
+    /** named launch profiles to generate a launch configuration for each executable with */
+    readonly launchProfiles: { [name: string]: LaunchProfile };
     /** look up saved permissions for the supplied plugin */
     pluginPermissions(pluginId?: string): PluginPermissionConfiguration;
     /** look up saved arguments for the supplied plugin, or global plugin arguments if no plugin id is provided */
     pluginArguments(pluginId?: string): string[];
 }
 
+/** Arguments, environment and build settings used to launch executables */
+export interface LaunchProfile {
+    /** Arguments to launch the executable with */
+    args?: string[];
+    /** Environment variables to launch the executable with */
+    env?: { [key: string]: string };
+    /** Working directory to launch the executable in */
+    cwd?: string;
+    /** Runtime sanitizer to build the executable with */
+    sanitizer?: "off" | "thread" | "address";
+    /** Whether to launch the debug or release build of the executable */
+    configuration?: "debug" | "release";
+}
+
 export interface PluginPermissionConfiguration {
     /** Disable using the sandbox when executing plugins */
     disableSandbox?: boolean;
@@ -230,6 +250,25 @@ const configuration = {
                         .get<string>("attachmentsPath", "./.build/attachments")
                 );
             },
+            get junitReportPath(): string {
+                return substituteVariablesInString(
+                    vscode.workspace
+                        .getConfiguration("swift", workspaceFolder)
+                        .get<string>("junitReportPath", "")
+                );
+            },
+            /** maximum number of warnings allowed in each target */
+            get warningBudgets(): { [target: string]: number } {
+                return vscode.workspace
+                    .getConfiguration("swift", workspaceFolder)
+                    .get<{ [target: string]: number }>("warningBudgets", {});
+            },
+            /** named launch profiles to generate a launch configuration for each executable with */
+            get launchProfiles(): { [name: string]: LaunchProfile } {
+                return vscode.workspace
+                    .getConfiguration("swift", workspaceFolder)
+                    .get<{ [name: string]: LaunchProfile }>("launchProfiles", {});
+            },
             pluginPermissions(pluginId?: string): PluginPermissionConfiguration {
                 return pluginSetting("pluginPermissions", pluginId, false) ?? {};
             },
@@ -302,6 +341,16 @@ const configuration = {
     get recordTestDuration(): boolean {
         return vscode.workspace.getConfiguration("swift").get<boolean>("recordTestDuration", true);
     },
+    /** How often the result of a test has to change between runs before it is flaky. */
+    get flakyTestThreshold(): number {
+        return vscode.workspace.getConfiguration("swift").get<number>("flakyTestThreshold", 0.3);
+    },
+    /** How many percent slower than usual a test has to run before it is flagged. */
+    get testDurationRegressionThreshold(): number {
+        return vscode.workspace
+            .getConfiguration("swift")
+            .get<number>("testDurationRegressionThreshold", 50);
+    },
     /** Files and directories to exclude from the Package Dependencies view. */
     get excludePathsFromPackageDependencies(): string[] {
         return vscode.workspace
@@ -407,6 +456,18 @@ const configuration = {
             .getConfiguration("swift")
             .get<ShowBuildStatusOptions>("showBuildStatus", "swiftStatus");
     },
+    /** number of builds of each folder kept in the Build Timeline view */
+    get buildTimelineHistorySize(): number {
+        return vscode.workspace
+            .getConfiguration("swift")
+            .get<number>("buildTimelineHistorySize", 10);
+    },
+    /** milliseconds a function body or expression takes to type-check before it is a hotspot */
+    get compileTimeHotspotThreshold(): number {
+        return vscode.workspace
+            .getConfiguration("swift")
+            .get<number>("compileTimeHotspotThreshold", 100);
+    },
     /** create build tasks for the library products of the package(s) */
     get createTasksForLibraryProducts(): boolean {
         return vscode.workspace
@@ -481,6 +542,13 @@ const configuration = {
             .getConfiguration("swift")
             .get<OpenAfterCreateNewProjectOptions>("openAfterCreateNewProject", "prompt");
     },
+    /** Folders containing custom project templates for the Create New Project command */
+    get projectTemplates(): string[] {
+        return vscode.workspace
+            .getConfiguration("swift")
+            .get<string[]>("projectTemplates", [])
+            .map(substituteVariablesInString);
+    },
     /** Whether or not the extension should warn about being unable to create symlinks on Windows */
     get warnAboutSymlinkCreation(): boolean {
         return vscode.workspace
@@ -0,0 +1,199 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as lcov from "lcov-parse";
+import * as path from "path";
+import * as vscode from "vscode";
+
+/** Line coverage of a single source file, as recorded in a {@link CoverageSnapshot}. */
+export interface FileCoverageSnapshot {
+    coveredLines: number[];
+    uncoveredLines: number[];
+}
+
+/**
+ * A named record of the line coverage of a folder. Files are keyed by their
+ * path relative to the folder so baselines survive the package being moved.
+ */
+export interface CoverageSnapshot {
+    name: string;
+    created: number;
+    files: { [relativePath: string]: FileCoverageSnapshot };
+}
+
+/** The change in coverage of a single file between a baseline and the current run. */
+export interface FileCoverageDelta {
+    relativePath: string;
+    baselinePercent?: number;
+    currentPercent?: number;
+    delta: number;
+    /** Lines that were covered in the baseline but are not covered now */
+    regressedLines: number[];
+    /** Lines that were not covered in the baseline but are covered now */
+    improvedLines: number[];
+}
+
+/**
+ * Creates a {@link CoverageSnapshot} from the lcov results of a coverage run.
+ */
+export function createCoverageSnapshot(
+    name: string,
+    lcovFiles: lcov.LcovFile[],
+    folderPath: string
+): CoverageSnapshot {
+    const files: { [relativePath: string]: FileCoverageSnapshot } = {};
+    for (const file of lcovFiles) {
+        const relativePath = path.relative(folderPath, file.file).split(path.sep).join("/");
+        files[relativePath] = {
+            coveredLines: file.lines.details.filter(l => l.hit > 0).map(l => l.line),
+            uncoveredLines: file.lines.details.filter(l => l.hit === 0).map(l => l.line),
+        };
+    }
+    return { name, created: Date.now(), files };
+}
+
+/**
+ * Returns the percentage of lines covered in a file, or undefined if
+ * the file has no executable lines.
+ */
+export function coveragePercent(file?: FileCoverageSnapshot): number | undefined {
+    if (!file) {
+        return undefined;
+    }
+    const total = file.coveredLines.length + file.uncoveredLines.length;
+    if (total === 0) {
+        return undefined;
+    }
+    return (file.coveredLines.length / total) * 100;
+}
+
+/**
+ * Compares the current coverage with a baseline, returning the files whose
+ * coverage changed. Files that appear in only one of the snapshots are included
+ * as well. Results are sorted with the largest regressions first.
+ */
+export function diffCoverage(
+    baseline: CoverageSnapshot,
+    current: CoverageSnapshot
+): FileCoverageDelta[] {
+    const paths = new Set([...Object.keys(baseline.files), ...Object.keys(current.files)]);
+    const deltas: FileCoverageDelta[] = [];
+    for (const relativePath of paths) {
+        const before = baseline.files[relativePath];
+        const after = current.files[relativePath];
+        const baselinePercent = coveragePercent(before);
+        const currentPercent = coveragePercent(after);
+
+        const coveredBefore = new Set(before?.coveredLines ?? []);
+        const uncoveredBefore = new Set(before?.uncoveredLines ?? []);
+        const regressedLines = (after?.uncoveredLines ?? []).filter(l => coveredBefore.has(l));
+        const improvedLines = (after?.coveredLines ?? []).filter(l => uncoveredBefore.has(l));
+        const delta = (currentPercent ?? 0) - (baselinePercent ?? 0);
+
+        if (delta === 0 && regressedLines.length === 0 && improvedLines.length === 0) {
+            continue;
+        }
+        deltas.push({
+            relativePath,
+            baselinePercent,
+            currentPercent,
+            delta,
+            regressedLines,
+            improvedLines,
+        });
+    }
+    return deltas.sort((a, b) => a.delta - b.delta);
+}
+
+/**
+ * Persists {@link CoverageSnapshot coverage baselines} for each folder in the
+ * workspace storage, along with which baseline the folder is being compared against.
+ */
+export class CoverageBaselineStore {
+    private static STORAGE_KEY = "swift.coverageBaselines";
+
+    private readonly didChangeEmitter = new vscode.EventEmitter<string>();
+    public readonly onDidChange = this.didChangeEmitter.event;
+
+    constructor(private memento: vscode.Memento) {}
+
+    /** Returns all the baselines saved for a folder, newest first. */
+    baselines(folderPath: string): CoverageSnapshot[] {
+        return Object.values(this.folderState(folderPath).baselines).sort(
+            (a, b) => b.created - a.created
+        );
+    }
+
+    /** Returns the baseline the folder's coverage is currently compared against. */
+    activeBaseline(folderPath: string): CoverageSnapshot | undefined {
+        const state = this.folderState(folderPath);
+        return state.active ? state.baselines[state.active] : undefined;
+    }
+
+    /**
+     * Saves a baseline, replacing any existing baseline with the same name.
+     * The saved baseline becomes the one the folder is compared against.
+     */
+    async save(folderPath: string, snapshot: CoverageSnapshot) {
+        const state = this.folderState(folderPath);
+        state.baselines[snapshot.name] = snapshot;
+        state.active = snapshot.name;
+        await this.update(folderPath, state);
+    }
+
+    /** Sets the baseline the folder is compared against, or clears it. */
+    async setActive(folderPath: string, name: string | undefined) {
+        const state = this.folderState(folderPath);
+        state.active = name && state.baselines[name] ? name : undefined;
+        await this.update(folderPath, state);
+    }
+
+    async delete(folderPath: string, name: string) {
+        const state = this.folderState(folderPath);
+        delete state.baselines[name];
+        if (state.active === name) {
+            state.active = undefined;
+        }
+        await this.update(folderPath, state);
+    }
+
+    dispose() {
+        this.didChangeEmitter.dispose();
+    }
+
+    private folderState(folderPath: string): FolderBaselines {
+        const all = this.memento.get<{ [folderPath: string]: FolderBaselines }>(
+            CoverageBaselineStore.STORAGE_KEY,
+            {}
+        );
+        const state = all[folderPath];
+        return { active: state?.active, baselines: { ...(state?.baselines ?? {}) } };
+    }
+
+    private async update(folderPath: string, state: FolderBaselines) {
+        const all = this.memento.get<{ [folderPath: string]: FolderBaselines }>(
+            CoverageBaselineStore.STORAGE_KEY,
+            {}
+        );
+        await this.memento.update(CoverageBaselineStore.STORAGE_KEY, {
+            ...all,
+            [folderPath]: state,
+        });
+        this.didChangeEmitter.fire(folderPath);
+    }
+}
+
+interface FolderBaselines {
+    active?: string;
+    baselines: { [name: string]: CoverageSnapshot };
+}
@@ -0,0 +1,233 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as lcov from "lcov-parse";
+import * as path from "path";
+
+/** The file formats coverage results can be exported to. */
+export enum CoverageExportFormat {
+    lcov = "lcov",
+    cobertura = "cobertura",
+    html = "html",
+}
+
+/** Line and branch totals used by the exporters. */
+interface CoverageTotals {
+    linesFound: number;
+    linesHit: number;
+    branchesFound: number;
+    branchesHit: number;
+}
+
+function totals(files: lcov.LcovFile[]): CoverageTotals {
+    const result = { linesFound: 0, linesHit: 0, branchesFound: 0, branchesHit: 0 };
+    for (const file of files) {
+        result.linesFound += file.lines.details.length;
+        result.linesHit += file.lines.details.filter(l => l.hit > 0).length;
+        result.branchesFound += file.branches.details.length;
+        result.branchesHit += file.branches.details.filter(b => b.taken > 0).length;
+    }
+    return result;
+}
+
+function rate(hit: number, found: number): string {
+    return found === 0 ? "1" : (hit / found).toFixed(4);
+}
+
+function percent(hit: number, found: number): string {
+    return found === 0 ? "-" : `${((hit / found) * 100).toFixed(1)}%`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+}
+
+function relativePath(file: lcov.LcovFile, folderPath: string): string {
+    return path.relative(folderPath, file.file).split(path.sep).join("/");
+}
+
+/**
+ * Serializes coverage results back into the lcov tracefile format.
+ */
+export function toLcov(files: lcov.LcovFile[]): string {
+    const lines: string[] = [];
+    for (const file of files) {
+        lines.push("TN:", `SF:${file.file}`);
+        for (const fn of file.functions.details) {
+            lines.push(`FN:${fn.line},${fn.name}`);
+        }
+        for (const fn of file.functions.details) {
+            lines.push(`FNDA:${fn.hit ?? 0},${fn.name}`);
+        }
+        lines.push(`FNF:${file.functions.details.length}`);
+        lines.push(`FNH:${file.functions.details.filter(fn => (fn.hit ?? 0) > 0).length}`);
+        for (const branch of file.branches.details) {
+            lines.push(`BRDA:${branch.line},${branch.block},${branch.branch},${branch.taken}`);
+        }
+        lines.push(`BRF:${file.branches.details.length}`);
+        lines.push(`BRH:${file.branches.details.filter(b => b.taken > 0).length}`);
+        for (const line of file.lines.details) {
+            lines.push(`DA:${line.line},${line.hit}`);
+        }
+        lines.push(`LF:${file.lines.details.length}`);
+        lines.push(`LH:${file.lines.details.filter(l => l.hit > 0).length}`);
+        lines.push("end_of_record");
+    }
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Converts coverage results into a Cobertura XML report. Each directory
+ * becomes a package and each source file becomes a class within it.
+ */
+export function toCobertura(
+    files: lcov.LcovFile[],
+    folderPath: string,
+    timestamp: number = Date.now()
+): string {
+    const packages = new Map<string, lcov.LcovFile[]>();
+    for (const file of files) {
+        const directory = path.posix.dirname(relativePath(file, folderPath));
+        const packageName = directory === "." ? "" : directory.replace(/\//g, ".");
+        packages.set(packageName, [...(packages.get(packageName) ?? []), file]);
+    }
+
+    const all = totals(files);
+    const xml: string[] = [
+        `<?xml version="1.0" ?>`,
+        `<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">`,
+        `<coverage line-rate="${rate(all.linesHit, all.linesFound)}" branch-rate="${rate(all.branchesHit, all.branchesFound)}" lines-covered="${all.linesHit}" lines-valid="${all.linesFound}" branches-covered="${all.branchesHit}" branches-valid="${all.branchesFound}" complexity="0" version="0.1" timestamp="${Math.floor(timestamp / 1000)}">`,
+        `  <sources>`,
+        `    <source>${escapeXml(folderPath)}</source>`,
+        `  </sources>`,
+        `  <packages>`,
+    ];
+    for (const [packageName, packageFiles] of [...packages].sort(([a], [b]) =>
+        a.localeCompare(b)
+    )) {
+        const packageTotals = totals(packageFiles);
+        xml.push(
+            `    <package name="${escapeXml(packageName)}" line-rate="${rate(packageTotals.linesHit, packageTotals.linesFound)}" branch-rate="${rate(packageTotals.branchesHit, packageTotals.branchesFound)}" complexity="0">`,
+            `      <classes>`
+        );
+        for (const file of packageFiles) {
+            const fileTotals = totals([file]);
+            const filename = relativePath(file, folderPath);
+            xml.push(
+                `        <class name="${escapeXml(path.posix.basename(filename))}" filename="${escapeXml(filename)}" line-rate="${rate(fileTotals.linesHit, fileTotals.linesFound)}" branch-rate="${rate(fileTotals.branchesHit, fileTotals.branchesFound)}" complexity="0">`,
+                `          <methods>`
+            );
+            for (const fn of file.functions.details) {
+                const hits = fn.hit ?? 0;
+                xml.push(
+                    `            <method name="${escapeXml(fn.name)}" signature="" line-rate="${hits > 0 ? 1 : 0}" branch-rate="1" complexity="0">`,
+                    `              <lines>`,
+                    `                <line number="${fn.line}" hits="${hits}" branch="false"/>`,
+                    `              </lines>`,
+                    `            </method>`
+                );
+            }
+            xml.push(`          </methods>`, `          <lines>`);
+            for (const line of file.lines.details) {
+                const branches = file.branches.details.filter(b => b.line === line.line);
+                if (branches.length > 0) {
+                    const taken = branches.filter(b => b.taken > 0).length;
+                    const conditionCoverage = `${Math.round((taken / branches.length) * 100)}% (${taken}/${branches.length})`;
+                    xml.push(
+                        `            <line number="${line.line}" hits="${line.hit}" branch="true" condition-coverage="${conditionCoverage}"/>`
+                    );
+                } else {
+                    xml.push(
+                        `            <line number="${line.line}" hits="${line.hit}" branch="false"/>`
+                    );
+                }
+            }
+            xml.push(`          </lines>`, `        </class>`);
+        }
+        xml.push(`      </classes>`, `    </package>`);
+    }
+    xml.push(`  </packages>`, `</coverage>`);
+    return xml.join("\n") + "\n";
+}
+
+/**
+ * Converts coverage results into a self-contained HTML report with a summary
+ * table and an annotated listing of every source file.
+ *
+ * @param sources The contents of each source file keyed by its absolute path.
+ * Files without contents only appear in the summary.
+ */
+export function toHtml(
+    files: lcov.LcovFile[],
+    folderPath: string,
+    sources: Map<string, string>,
+    title: string = "Code Coverage Report"
+): string {
+    const sorted = [...files].sort((a, b) =>
+        relativePath(a, folderPath).localeCompare(relativePath(b, folderPath))
+    );
+    const all = totals(sorted);
+    const rows = sorted.map((file, index) => {
+        const fileTotals = totals([file]);
+        const functionsHit = file.functions.details.filter(fn => (fn.hit ?? 0) > 0).length;
+        return `<tr><td><a href="#file-${index}">${escapeXml(relativePath(file, folderPath))}</a></td><td>${percent(fileTotals.linesHit, fileTotals.linesFound)}</td><td>${fileTotals.linesHit}/${fileTotals.linesFound}</td><td>${percent(fileTotals.branchesHit, fileTotals.branchesFound)}</td><td>${percent(functionsHit, file.functions.details.length)}</td></tr>`;
+    });
+
+    const listings = sorted.map((file, index) => {
+        const source = sources.get(file.file);
+        if (source === undefined) {
+            return "";
+        }
+        const hits = new Map(file.lines.details.map(l => [l.line, l.hit]));
+        const sourceLines = source.split(/\r?\n/).map((text, i) => {
+            const hit = hits.get(i + 1);
+            const cls = hit === undefined ? "" : hit > 0 ? "hit" : "miss";
+            return `<tr class="${cls}"><td class="ln">${i + 1}</td><td class="count">${hit ?? ""}</td><td><pre>${escapeXml(text)}</pre></td></tr>`;
+        });
+        return `<h2 id="file-${index}">${escapeXml(relativePath(file, folderPath))}</h2>\n<table class="source">${sourceLines.join("\n")}</table>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2em; }
+table { border-collapse: collapse; }
+.summary td, .summary th { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+.source { width: 100%; font-family: monospace; }
+.source td { padding: 0 8px; vertical-align: top; }
+.source pre { margin: 0; }
+.ln, .count { color: #888; text-align: right; user-select: none; }
+.hit { background: #e6ffed; }
+.miss { background: #ffeef0; }
+</style>
+</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+<p>Lines: ${percent(all.linesHit, all.linesFound)} (${all.linesHit}/${all.linesFound}), Branches: ${percent(all.branchesHit, all.branchesFound)} (${all.branchesHit}/${all.branchesFound})</p>
+<table class="summary">
+<tr><th>File</th><th>Lines</th><th>Lines Hit</th><th>Branches</th><th>Functions</th></tr>
+${rows.join("\n")}
+</table>
+${listings.filter(listing => listing).join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,367 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2024 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+
+import * as vscode from "vscode";
+import * as lcov from "lcov-parse";
+import * as asyncfs from "fs/promises";
+import * as path from "path";
+import { Writable } from "stream";
+import { promisify } from "util";
+import configuration from "../configuration";
+import { FolderContext } from "../FolderContext";
+import { execFile, execFileStreamOutput, getErrorDescription } from "../utilities/utilities";
+import { BuildFlags } from "../toolchain/BuildFlags";
+import { TestLibrary } from "../TestExplorer/TestRunner";
+import { DisposableFileCollection, TemporaryFolder } from "../utilities/tempFolder";
+import { TargetType } from "../SwiftPackage";
+import { TestingConfigurationFactory } from "../debugger/buildConfig";
+import { TestKind } from "../TestExplorer/TestKind";
+import { isPathInsidePath } from "../utilities/filesystem";
+
+interface CodeCovFile {
+    testLibrary: TestLibrary;
+    path: string;
+}
+
+export class TestCoverage {
+    private lcovFiles: CodeCovFile[] = [];
+    private _lcovTmpFiles?: DisposableFileCollection;
+    private _lcovTmpFilesInit?: Promise<DisposableFileCollection>;
+    private coverageDetails = new Map<vscode.Uri, vscode.FileCoverageDetail[]>();
+    private _results: lcov.LcovFile[] = [];
+
+    constructor(private folderContext: FolderContext) {}
+
+    /**
+     * The parsed lcov results of the last call to {@link computeCoverage}.
+     */
+    public get results(): lcov.LcovFile[] {
+        return this._results;
+    }
+
+    /**
+     * The parsed lcov results of the last call to {@link computeCoverage}, without
+     * any files that are currently excluded by the `swift.excludeFromCodeCoverage`
+     * setting.
+     */
+    public get includedResults(): lcov.LcovFile[] {
+        const excluded = this.excludedPaths();
+        return this._results.filter(
+            result => !excluded.some(excludedPath => isPathInsidePath(result.file, excludedPath))
+        );
+    }
+
+    /**
+     * Returns coverage information for the suppplied URI.
+     */
+    public loadDetailedCoverage(uri: vscode.Uri) {
+        return this.coverageDetails.get(uri) || [];
+    }
+
+    /**
+     * Captures the coverage data after an individual test binary has been run.
+     * After the test run completes then the coverage is merged.
+     */
+    public async captureCoverage(testLibrary: TestLibrary) {
+        const buildDirectory = BuildFlags.buildDirectoryFromWorkspacePath(
+            this.folderContext.folder.fsPath,
+            true
+        );
+        const result = await asyncfs.readFile(`${buildDirectory}/debug/codecov/default.profdata`);
+        const filename = (await this.lcovTmpFiles()).file(testLibrary, "profdata");
+        await asyncfs.writeFile(filename, result);
+        this.lcovFiles.push({ testLibrary, path: filename });
+    }
+
+    /**
+     * Once all test binaries have been run compute the coverage information and
+     * associate it with the test run.
+     */
+    async computeCoverage(testRun: vscode.TestRun) {
+        const lcovFiles = await this.computeLCOVCoverage();
+        this._results = lcovFiles;
+        if (lcovFiles.length > 0) {
+            const functionNames = await this.demangleFunctionNames(lcovFiles);
+            for (const sourceFileCoverage of lcovFiles) {
+                const uri = vscode.Uri.file(sourceFileCoverage.file);
+                const detailedCoverage = TestCoverage.detailedCoverage(
+                    sourceFileCoverage,
+                    functionNames
+                );
+                const coverage = vscode.FileCoverage.fromDetails(uri, detailedCoverage);
+                testRun.addCoverage(coverage);
+                this.coverageDetails.set(uri, detailedCoverage);
+            }
+        }
+        await this._lcovTmpFiles?.dispose();
+    }
+
+    /**
+     * Converts the line, branch and function records of an lcov file into
+     * the statement, branch and declaration coverage details VS Code expects.
+     *
+     * Branches are attached to the statement on the line they were recorded on, and
+     * functions are named by their entry in `functionNames` when they have one.
+     */
+    static detailedCoverage(
+        sourceFileCoverage: lcov.LcovFile,
+        functionNames: ReadonlyMap<string, string> = new Map()
+    ): vscode.FileCoverageDetail[] {
+        const branchesByLine = new Map<number, vscode.BranchCoverage[]>();
+        for (const branch of sourceFileCoverage.branches?.details ?? []) {
+            const branches = branchesByLine.get(branch.line) ?? [];
+            branches.push(
+                new vscode.BranchCoverage(
+                    branch.taken,
+                    new vscode.Position(branch.line - 1, 0),
+                    `Branch ${branches.length + 1}`
+                )
+            );
+            branchesByLine.set(branch.line, branches);
+        }
+
+        const detailedCoverage: vscode.FileCoverageDetail[] = [];
+        for (const lineCoverage of sourceFileCoverage.lines.details) {
+            const statementCoverage = new vscode.StatementCoverage(
+                lineCoverage.hit,
+                new vscode.Position(lineCoverage.line - 1, 0),
+                branchesByLine.get(lineCoverage.line) ?? []
+            );
+            branchesByLine.delete(lineCoverage.line);
+            detailedCoverage.push(statementCoverage);
+        }
+
+        // Branches recorded on a line with no line coverage still need a statement to hang off.
+        for (const [line, branches] of branchesByLine) {
+            const executed = branches.some(branch => branch.executed);
+            detailedCoverage.push(
+                new vscode.StatementCoverage(executed, new vscode.Position(line - 1, 0), branches)
+            );
+        }
+
+        for (const functionCoverage of sourceFileCoverage.functions?.details ?? []) {
+            detailedCoverage.push(
+                new vscode.DeclarationCoverage(
+                    functionNames.get(functionCoverage.name) ?? functionCoverage.name,
+                    functionCoverage.hit ?? 0,
+                    new vscode.Position(Math.max(functionCoverage.line - 1, 0), 0)
+                )
+            );
+        }
+
+        return detailedCoverage;
+    }
+
+    /**
+     * The function names in lcov files are mangled symbols, such as `$s3Lib3fooyyF`.
+     * Demangles them with `swift-demangle` so they can be shown in the coverage view.
+     *
+     * @returns The demangled name of each symbol, which is missing if it couldn't be demangled
+     */
+    private async demangleFunctionNames(lcovFiles: lcov.LcovFile[]): Promise<Map<string, string>> {
+        const symbols = [
+            ...new Set(
+                lcovFiles.flatMap(file => file.functions?.details.map(({ name }) => name) ?? [])
+            ),
+        ];
+        const names = new Map<string, string>();
+        const swiftDemangle = this.folderContext.toolchain.getToolchainExecutable("swift-demangle");
+        // Demangle the symbols in batches to stay within the command line length limit
+        const batchSize = 200;
+        for (let start = 0; start < symbols.length; start += batchSize) {
+            const batch = symbols.slice(start, start + batchSize);
+            try {
+                const { stdout } = await execFile(
+                    swiftDemangle,
+                    ["--simplified", "--compact", ...batch],
+                    {},
+                    this.folderContext
+                );
+                const demangled = stdout.split(/\r?\n/);
+                batch.forEach((symbol, index) => {
+                    const name = demangled[index]?.trim();
+                    if (name) {
+                        names.set(symbol, name);
+                    }
+                });
+            } catch (error) {
+                this.folderContext.workspaceContext.logger.error(
+                    `Failed to demangle coverage function names: ${getErrorDescription(error)}`,
+                    this.folderContext.name
+                );
+                break;
+            }
+        }
+        return names;
+    }
+
+    /**
+     * Merges multiple `.profdata` files into a single `.profdata` file.
+     */
+    private async mergeProfdata(profDataFiles: string[]) {
+        const filename = (await this.lcovTmpFiles()).file("merged", "profdata");
+        const toolchain = this.folderContext.toolchain;
+        const llvmProfdata = toolchain.getToolchainExecutable("llvm-profdata");
+        await execFileStreamOutput(
+            llvmProfdata,
+            ["merge", "-sparse", "-o", filename, ...profDataFiles],
+            null,
+            null,
+            null,
+            {
+                env: process.env,
+                maxBuffer: 16 * 1024 * 1024,
+            },
+            this.folderContext
+        );
+
+        return filename;
+    }
+
+    private async computeLCOVCoverage(): Promise<lcov.LcovFile[]> {
+        if (this.lcovFiles.length === 0) {
+            return [];
+        }
+
+        try {
+            // Merge all the profdata files from each test binary.
+            const mergedProfileFile = await this.mergeProfdata(
+                this.lcovFiles.map(({ path }) => path)
+            );
+
+            // Then export to the final lcov file that
+            // can be processed and fed to VS Code.
+            const lcovData = await this.exportProfdata(
+                this.lcovFiles.map(({ testLibrary }) => testLibrary),
+                mergedProfileFile
+            );
+
+            return await this.loadLcov(lcovData.toString("utf8"));
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * Exports a `.profdata` file using `llvm-cov export`, returning the result as a `Buffer`.
+     */
+    private async exportProfdata(types: TestLibrary[], mergedProfileFile: string): Promise<Buffer> {
+        const coveredBinaries = new Set<string>();
+        if (types.includes(TestLibrary.xctest)) {
+            let xcTestBinary = await TestingConfigurationFactory.testExecutableOutputPath(
+                this.folderContext,
+                TestKind.coverage,
+                TestLibrary.xctest
+            );
+            if (process.platform === "darwin") {
+                const packageName = await this.folderContext.swiftPackage.name;
+                xcTestBinary += `/Contents/MacOS/${packageName}PackageTests`;
+            }
+            coveredBinaries.add(xcTestBinary);
+        }
+
+        if (types.includes(TestLibrary.swiftTesting)) {
+            const swiftTestBinary = await TestingConfigurationFactory.testExecutableOutputPath(
+                this.folderContext,
+                TestKind.coverage,
+                TestLibrary.swiftTesting
+            );
+            coveredBinaries.add(swiftTestBinary);
+        }
+
+        let buffer = Buffer.alloc(0);
+        const writableStream = new Writable({
+            write(chunk, _encoding, callback) {
+                buffer = Buffer.concat([buffer, chunk]);
+                callback();
+            },
+        });
+
+        await execFileStreamOutput(
+            this.folderContext.toolchain.getToolchainExecutable("llvm-cov"),
+            [
+                "export",
+                "--format",
+                "lcov",
+                ...coveredBinaries,
+                `--ignore-filename-regex=${await this.ignoredFilenamesRegex()}`,
+                `--instr-profile=${mergedProfileFile}`,
+            ],
+            writableStream,
+            writableStream,
+            null,
+            {
+                env: { ...process.env, ...configuration.swiftEnvironmentVariables },
+                maxBuffer: 16 * 1024 * 1024,
+            },
+            this.folderContext
+        );
+
+        return buffer;
+    }
+
+    /**
+     * Lazily creates (once) and returns the disposable file collection used for LCOV processing.
+     * Safe against concurrent callers.
+     */
+    private async lcovTmpFiles(): Promise<DisposableFileCollection> {
+        if (this._lcovTmpFiles) {
+            return this._lcovTmpFiles;
+        }
+
+        // Use an internal promise to avoid duplicate folder creation in concurrent calls.
+        if (!this._lcovTmpFilesInit) {
+            this._lcovTmpFilesInit = (async () => {
+                const tempFolder = await TemporaryFolder.create();
+                this._lcovTmpFiles = tempFolder.createDisposableFileCollection();
+                return this._lcovTmpFiles;
+            })();
+        }
+
+        return (await this._lcovTmpFilesInit)!;
+    }
+
+    /**
+     * Constructs a string containing all the paths to exclude from the code coverage report.
+     * This should exclude everything in the `.build` folder as well as all the test targets.
+     */
+    private async ignoredFilenamesRegex(): Promise<string> {
+        const basePath = this.folderContext.folder.path;
+        const buildFolder = path.join(basePath, ".build");
+        const snippetsFolder = path.join(basePath, "Snippets");
+        const pluginsFolder = path.join(basePath, "Plugins");
+        const testTargets = (await this.folderContext.swiftPackage.getTargets(TargetType.test)).map(
+            target => path.join(basePath, target.path)
+        );
+
+        return [
+            buildFolder,
+            snippetsFolder,
+            pluginsFolder,
+            ...testTargets,
+            ...this.excludedPaths(),
+        ].join("|");
+    }
+
+    private excludedPaths(): string[] {
+        const basePath = this.folderContext.folder.path;
+        return configuration.excludeFromCodeCoverage.map(target =>
+            path.isAbsolute(target) ? target : path.join(basePath, target)
+        );
+    }
+
+    private async loadLcov(lcovContents: string): Promise<lcov.LcovFile[]> {
+        return promisify(lcov.source)(lcovContents).then(value => value ?? []);
+    }
+}
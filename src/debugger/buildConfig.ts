@@ -18,7 +18,7 @@ import * as vscode from "vscode";
 
 import { FolderContext } from "../FolderContext";
 import { TargetType } from "../SwiftPackage";
-import { TestKind, isDebugging, isRelease } from "../TestExplorer/TestKind";
+import { TestKind, isDebugging, isRelease, sanitizerForTestKind } from "../TestExplorer/TestKind";
 import { TestLibrary } from "../TestExplorer/TestRunner";
 import configuration from "../configuration";
 import { SwiftLogger } from "../logging/SwiftLogger";
@@ -511,7 +511,7 @@ export class TestingConfigurationFactory {
             default:
                 return null;
         }
-        const sanitizer = this.ctx.toolchain.sanitizer(configuration.sanitizer);
+        const sanitizer = this.ctx.toolchain.sanitizer(this.sanitizerType);
         const envCommands = Object.entries({
             ...swiftRuntimeEnv(),
             ...configuration.folder(this.ctx.workspaceFolder).testEnvironmentVariables,
@@ -581,11 +581,25 @@ export class TestingConfigurationFactory {
     }
 
     private addBuildOptionsToArgs(args: string[]): string[] {
-        let result = [...args, ...buildOptions(this.ctx.toolchain, isDebugging(this.testKind))];
+        let result = [
+            ...args,
+            ...buildOptions(this.ctx.toolchain, isDebugging(this.testKind), this.sanitizerType),
+        ];
         if (isRelease(this.testKind)) {
             result = [...result, "-c", "release", "-Xswiftc", "-enable-testing"];
         }
 
+        // Build tests with a sanitizer into their own scratch path so they don't invalidate
+        // the regular build.
+        const testKindSanitizer = sanitizerForTestKind(this.testKind);
+        if (testKindSanitizer) {
+            result = [
+                ...result,
+                "--scratch-path",
+                path.join(this.buildDirectory, "sanitizers", testKindSanitizer),
+            ];
+        }
+
         // Add in any user specified test arguments.
         result = [
             ...result,
@@ -677,8 +691,13 @@ export class TestingConfigurationFactory {
         }
     }
 
+    /** The sanitizer of the test kind, or the sanitizer in the settings. */
+    private get sanitizerType(): string {
+        return sanitizerForTestKind(this.testKind) ?? configuration.sanitizer;
+    }
+
     private get sanitizerRuntimeEnvironment() {
-        return this.ctx.toolchain.sanitizer(configuration.sanitizer)?.runtimeEnvironment;
+        return this.ctx.toolchain.sanitizer(this.sanitizerType)?.runtimeEnvironment;
     }
 
     private get testEnv() {
@@ -23,6 +23,7 @@ import { getErrorDescription, swiftRuntimeEnv } from "../utilities/utilities";
 import { DebugAdapter, LaunchConfigType, SWIFT_LAUNCH_CONFIG_TYPE } from "./debugAdapter";
 import { getLLDBLibPath, updateLaunchConfigForCI } from "./lldb";
 import { registerLoggingDebugAdapterTracker } from "./logTracker";
+import { isTestLaunchConfig, resolveTestLaunchConfig } from "./testLaunch";
 
 /**
  * Registers the active debugger with the extension, and reregisters it
@@ -99,6 +100,24 @@ export class LLDBDebugConfigurationProvider implements vscode.DebugConfiguration
         );
         const toolchain = workspaceFolder?.toolchain ?? this.workspaceContext.globalToolchain;
 
+        // Replace configurations that debug tests with the configuration the Test Explorer uses
+        if (isTestLaunchConfig(launchConfig)) {
+            const folderContext =
+                this.workspaceContext.folders.find(f => f.folder.fsPath === launchConfig.cwd) ??
+                workspaceFolder;
+            if (!folderContext) {
+                void vscode.window.showErrorMessage(
+                    `Failed to launch "${launchConfig.name}": no Swift package found to debug the tests of.`
+                );
+                return undefined;
+            }
+            const testConfig = await resolveTestLaunchConfig(folderContext, launchConfig);
+            if (!testConfig) {
+                return undefined;
+            }
+            launchConfig = testConfig;
+        }
+
         // Fix the program path on Windows to include the ".exe" extension
         if (
             this.platform === "win32" &&
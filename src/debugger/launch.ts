@@ -18,6 +18,7 @@ import * as vscode from "vscode";
 
 import { FolderContext } from "../FolderContext";
 import configuration from "../configuration";
+import { launchProfileSanitizer, sanitizerBuildTaskName } from "../tasks/SwiftTaskProvider";
 import { BuildFlags } from "../toolchain/BuildFlags";
 import { stringArrayInEnglish } from "../utilities/utilities";
 import { getFolderAndNameSuffix } from "./buildConfig";
@@ -34,7 +35,9 @@ export interface WriteLaunchConfigurationsOptions {
 
 /**
  * Edit launch.json based on contents of Swift Package.
- * Adds launch configurations based on the executables in Package.swift.
+ * Adds launch configurations based on the executables in Package.swift, and a launch
+ * configuration for each executable with each profile in the `swift.launchProfiles` setting.
+ * The configurations of profiles that were renamed or removed are removed.
  *
  * @param ctx folder context to create launch configurations for
  * @param options the options used to configure behavior of this function
@@ -54,12 +57,18 @@ export async function makeDebugConfigurations(
     const wsLaunchSection = vscode.workspace.workspaceFile
         ? vscode.workspace.getConfiguration("launch")
         : vscode.workspace.getConfiguration("launch", ctx.folder);
-    const launchConfigs = wsLaunchSection.get<vscode.DebugConfiguration[]>("configurations") || [];
+    let launchConfigs = wsLaunchSection.get<vscode.DebugConfiguration[]>("configurations") || [];
 
-    // Determine which launch configurations need updating/creating
+    // Determine which launch configurations need updating/creating/removing
+    const generatedConfigs = await createExecutableConfigurations(ctx);
     const configsToCreate: vscode.DebugConfiguration[] = [];
     const configsToUpdate: { index: number; config: vscode.DebugConfiguration }[] = [];
-    for (const generatedConfig of await createExecutableConfigurations(ctx)) {
+    const configsToRemove = await removedLaunchProfileConfigurations(
+        ctx,
+        launchConfigs,
+        generatedConfigs
+    );
+    for (const { config: generatedConfig, keys } of generatedConfigs) {
         const index = launchConfigs.findIndex(c => c.name === generatedConfig.name);
         if (index === -1) {
             configsToCreate.push(generatedConfig);
@@ -68,12 +77,7 @@ export async function makeDebugConfigurations(
 
         // deep clone the existing config and update with keys from generated config
         const config = structuredClone(launchConfigs[index]);
-        updateConfigWithNewKeys(config, generatedConfig, [
-            "program",
-            "cwd",
-            "preLaunchTask",
-            "type",
-        ]);
+        updateConfigWithNewKeys(config, generatedConfig, keys);
 
         // Check to see if the config has changed
         if (!isDeepStrictEqual(launchConfigs[index], config)) {
@@ -87,13 +91,25 @@ export async function makeDebugConfigurations(
         launchConfigs.push(...configsToCreate);
         needsUpdate = true;
     }
-    if (configsToUpdate.length > 0) {
+    if (configsToUpdate.length > 0 || configsToRemove.length > 0) {
         let answer: "Update" | "Cancel" | undefined = options.yes ? "Update" : undefined;
         if (!answer) {
-            const configUpdateNames = stringArrayInEnglish(
-                configsToUpdate.map(update => update.config.name)
-            );
-            const warningMessage = `The Swift extension would like to update launch configurations '${configUpdateNames}'.`;
+            const changes: string[] = [];
+            if (configsToUpdate.length > 0) {
+                const configUpdateNames = stringArrayInEnglish(
+                    configsToUpdate.map(update => update.config.name)
+                );
+                changes.push(`update launch configurations '${configUpdateNames}'`);
+            }
+            if (configsToRemove.length > 0) {
+                const configRemoveNames = stringArrayInEnglish(
+                    configsToRemove.map(config => config.name)
+                );
+                changes.push(
+                    `remove launch configurations '${configRemoveNames}' of launch profiles that no longer exist`
+                );
+            }
+            const warningMessage = `The Swift extension would like to ${changes.join(" and ")}.`;
             answer = await vscode.window.showWarningMessage(
                 `${ctx.name}: ${warningMessage} Do you want to update?`,
                 "Update",
@@ -103,6 +119,7 @@ export async function makeDebugConfigurations(
 
         if (answer === "Update") {
             configsToUpdate.forEach(update => (launchConfigs[update.index] = update.config));
+            launchConfigs = launchConfigs.filter(config => !configsToRemove.includes(config));
             needsUpdate = true;
         }
     }
@@ -121,6 +138,34 @@ export async function makeDebugConfigurations(
     return true;
 }
 
+/**
+ * Returns the launch configurations generated for launch profiles that no longer exist,
+ * such as profiles that were renamed or removed from the `swift.launchProfiles` setting.
+ */
+async function removedLaunchProfileConfigurations(
+    ctx: FolderContext,
+    launchConfigs: vscode.DebugConfiguration[],
+    generatedConfigs: GeneratedConfiguration[]
+): Promise<vscode.DebugConfiguration[]> {
+    const executableProducts = await ctx.swiftPackage.executableProducts;
+    const { nameSuffix } = getFolderAndNameSuffix(ctx, undefined, "posix");
+    const generatedNames = new Set(generatedConfigs.map(({ config }) => config.name));
+    const isLaunchProfileConfiguration = (config: vscode.DebugConfiguration) =>
+        config.type === SWIFT_LAUNCH_CONFIG_TYPE &&
+        executableProducts.some(product =>
+            ["Debug", "Release"].some(
+                buildName =>
+                    config.name.startsWith(`${buildName} ${product.name} (`) &&
+                    config.name.endsWith(`)${nameSuffix}`) &&
+                    typeof config.preLaunchTask === "string" &&
+                    config.preLaunchTask.startsWith(`swift: Build ${buildName} ${product.name}`)
+            )
+        );
+    return launchConfigs.filter(
+        config => !generatedNames.has(config.name) && isLaunchProfileConfiguration(config)
+    );
+}
+
 // Return debug launch configuration for an executable in the given folder
 export async function getLaunchConfiguration(
     target: string,
@@ -172,19 +217,36 @@ export async function getLaunchConfiguration(
     }
 }
 
+/** The keys of a generated launch configuration that are kept in sync with Package.swift. */
+const generatedKeys = ["program", "cwd", "preLaunchTask", "type"];
+
+/**
+ * The keys of a launch configuration generated for a launch profile that are kept in sync
+ * with Package.swift and the profile.
+ */
+const launchProfileKeys = [...generatedKeys, "args", "env"];
+
+/** A generated launch configuration and the keys of it that are kept in sync. */
+interface GeneratedConfiguration {
+    config: vscode.DebugConfiguration;
+    keys: string[];
+}
+
 // Return array of DebugConfigurations for executables based on what is in Package.swift
 async function createExecutableConfigurations(
     ctx: FolderContext
-): Promise<vscode.DebugConfiguration[]> {
+): Promise<GeneratedConfiguration[]> {
     const executableProducts = await ctx.swiftPackage.executableProducts;
 
     // Windows understand the forward slashes, so make the configuration unified as posix path
     // to make it easier for users switching between platforms.
     const { folder, nameSuffix } = getFolderAndNameSuffix(ctx, undefined, "posix");
 
+    let debugBinPath: string;
+    let releaseBinPath: string;
     try {
         // Get dynamic build paths for both debug and release configurations
-        const [debugBinPath, releaseBinPath] = await Promise.all([
+        [debugBinPath, releaseBinPath] = await Promise.all([
             ctx.toolchain.buildFlags.getBuildBinaryPath(
                 ctx.folder.fsPath,
                 folder,
@@ -198,56 +260,74 @@ async function createExecutableConfigurations(
                 ctx.workspaceContext.logger
             ),
         ]);
+    } catch (error) {
+        // Fallback to traditional path construction if dynamic resolution fails
+        const buildDirectory = BuildFlags.buildDirectoryFromWorkspacePath(folder, true, "posix");
+        debugBinPath = path.posix.join(buildDirectory, "debug");
+        releaseBinPath = path.posix.join(buildDirectory, "release");
+    }
 
-        return executableProducts.flatMap(product => {
-            const baseConfig = {
-                type: SWIFT_LAUNCH_CONFIG_TYPE,
-                request: "launch",
-                args: [],
-                cwd: folder,
-            };
-            return [
-                {
+    const launchProfiles = Object.entries(configuration.folder(ctx.workspaceFolder).launchProfiles);
+    return executableProducts.flatMap(product => {
+        const baseConfig = {
+            type: SWIFT_LAUNCH_CONFIG_TYPE,
+            request: "launch",
+            args: [],
+            cwd: folder,
+        };
+        const configs: GeneratedConfiguration[] = [
+            {
+                config: {
                     ...baseConfig,
                     name: `Debug ${product.name}${nameSuffix}`,
                     program: path.posix.join(debugBinPath, product.name),
                     preLaunchTask: `swift: Build Debug ${product.name}${nameSuffix}`,
                 },
-                {
+                keys: generatedKeys,
+            },
+            {
+                config: {
                     ...baseConfig,
                     name: `Release ${product.name}${nameSuffix}`,
                     program: path.posix.join(releaseBinPath, product.name),
                     preLaunchTask: `swift: Build Release ${product.name}${nameSuffix}`,
                 },
-            ];
-        });
-    } catch (error) {
-        // Fallback to traditional path construction if dynamic resolution fails
-        const buildDirectory = BuildFlags.buildDirectoryFromWorkspacePath(folder, true, "posix");
-
-        return executableProducts.flatMap(product => {
-            const baseConfig = {
-                type: SWIFT_LAUNCH_CONFIG_TYPE,
-                request: "launch",
-                args: [],
-                cwd: folder,
-            };
-            return [
-                {
+                keys: generatedKeys,
+            },
+        ];
+        for (const [profileName, profile] of launchProfiles) {
+            const release = profile.configuration === "release";
+            const buildName = release ? "Release" : "Debug";
+            // Profiles with a different sanitizer than the `swift.sanitizer` setting are
+            // built in their own scratch path
+            const sanitizer = launchProfileSanitizer(profile);
+            const program = sanitizer
+                ? path.posix.join(
+                      BuildFlags.buildDirectoryFromWorkspacePath(folder, true, "posix"),
+                      "sanitizers",
+                      sanitizer,
+                      release ? "release" : "debug",
+                      product.name
+                  )
+                : path.posix.join(release ? releaseBinPath : debugBinPath, product.name);
+            const buildTaskName = sanitizer
+                ? sanitizerBuildTaskName(product.name, release, sanitizer)
+                : `Build ${buildName} ${product.name}`;
+            configs.push({
+                config: {
                     ...baseConfig,
-                    name: `Debug ${product.name}${nameSuffix}`,
-                    program: path.posix.join(buildDirectory, "debug", product.name),
-                    preLaunchTask: `swift: Build Debug ${product.name}${nameSuffix}`,
+                    name: `${buildName} ${product.name} (${profileName})${nameSuffix}`,
+                    program,
+                    args: profile.args ?? [],
+                    cwd: profile.cwd ?? folder,
+                    ...(profile.env ? { env: profile.env } : {}),
+                    preLaunchTask: `swift: ${buildTaskName}${nameSuffix}`,
                 },
-                {
-                    ...baseConfig,
-                    name: `Release ${product.name}${nameSuffix}`,
-                    program: path.posix.join(buildDirectory, "release", product.name),
-                    preLaunchTask: `swift: Build Release ${product.name}${nameSuffix}`,
-                },
-            ];
-        });
-    }
+                keys: launchProfileKeys,
+            });
+        }
+        return configs;
+    });
 }
 
 /**
@@ -0,0 +1,185 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { FolderContext } from "../FolderContext";
+import { TestKind } from "../TestExplorer/TestKind";
+import { TestRunArguments } from "../TestExplorer/TestRunArguments";
+import { TestLibrary } from "../TestExplorer/TestRunner";
+import {
+    SwiftTestingBuildAguments,
+    SwiftTestingConfigurationSetup,
+    TestingConfigurationFactory,
+} from "./buildConfig";
+
+/** The attributes of a `swift` launch configuration that select the tests to debug. */
+export interface TestSelection {
+    /** Names of the test targets to debug the tests of. */
+    testTargets?: string[];
+    /** Regular expressions matched against the test identifiers, like `swift test --filter`. */
+    testFilter?: string[];
+    /** swift-testing tags of the tests to debug. */
+    testTags?: string[];
+}
+
+/**
+ * Returns true if a launch configuration debugs tests rather than a program.
+ * These configurations set `testType` and leave out `program`.
+ */
+export function isTestLaunchConfig(launchConfig: vscode.DebugConfiguration): boolean {
+    return launchConfig.testType !== undefined && launchConfig.program === undefined;
+}
+
+/**
+ * Selects the discovered tests a launch configuration asks for. A test is selected when
+ * it belongs to one of the test targets, matches one of the filters and has one of the tags.
+ * Suites that match are selected as a whole rather than test by test.
+ *
+ * @param items The root test items of the Test Explorer, one for each test target
+ * @param selection The test selection of the launch configuration
+ */
+export function selectTests(
+    items: vscode.TestItemCollection,
+    selection: TestSelection
+): vscode.TestItem[] {
+    const filters = (selection.testFilter ?? []).map(filter => new RegExp(filter));
+    const tags = selection.testTags ?? [];
+    const matches = (item: vscode.TestItem) =>
+        (filters.length === 0 || filters.some(filter => filter.test(item.id))) &&
+        (tags.length === 0 || item.tags.some(tag => tags.includes(tag.id)));
+
+    const selected: vscode.TestItem[] = [];
+    const visit = (item: vscode.TestItem) => {
+        if (matches(item)) {
+            selected.push(item);
+        } else {
+            item.children.forEach(visit);
+        }
+    };
+    items.forEach(target => {
+        const targets = selection.testTargets;
+        if (targets && !targets.includes(target.id) && !targets.includes(target.label)) {
+            return;
+        }
+        visit(target);
+    });
+    return selected;
+}
+
+/**
+ * Replaces a launch configuration that debugs tests with the configuration the Test Explorer
+ * would use to debug the selected tests. The name of the launch configuration is kept, and
+ * its `args` and `env` are added to the generated ones. Errors are shown to the user.
+ *
+ * @param folderContext The folder containing the tests
+ * @param launchConfig A launch configuration that passes {@link isTestLaunchConfig}
+ * @returns The configuration to debug, or `undefined` to stop the debug session from starting
+ */
+export async function resolveTestLaunchConfig(
+    folderContext: FolderContext,
+    launchConfig: vscode.DebugConfiguration
+): Promise<vscode.DebugConfiguration | undefined> {
+    const testLibrary = launchConfig.testType;
+    if (testLibrary !== TestLibrary.xctest && testLibrary !== TestLibrary.swiftTesting) {
+        void vscode.window.showErrorMessage(
+            `Failed to launch "${launchConfig.name}": "testType" must be "${TestLibrary.xctest}" or "${TestLibrary.swiftTesting}".`
+        );
+        return undefined;
+    }
+
+    const selection: TestSelection = {
+        testTargets: asArray(launchConfig.testTargets),
+        testFilter: asArray(launchConfig.testFilter),
+        testTags: asArray(launchConfig.testTags),
+    };
+    let testList: string[] = [];
+    if (selection.testTargets || selection.testFilter || selection.testTags) {
+        const testExplorer = folderContext.testExplorer;
+        if (!testExplorer) {
+            void vscode.window.showErrorMessage(
+                `Failed to launch "${launchConfig.name}": the tests of ${folderContext.name} have not been discovered yet.`
+            );
+            return undefined;
+        }
+        let tests: vscode.TestItem[];
+        try {
+            tests = selectTests(testExplorer.controller.items, selection);
+        } catch (error) {
+            void vscode.window.showErrorMessage(
+                `Failed to launch "${launchConfig.name}": invalid "testFilter". ${error}`
+            );
+            return undefined;
+        }
+        const testArgs = new TestRunArguments(new vscode.TestRunRequest(tests), true);
+        testList =
+            testLibrary === TestLibrary.xctest ? testArgs.xcTestArgs : testArgs.swiftTestArgs;
+        if (testList.length === 0) {
+            void vscode.window.showErrorMessage(
+                `Failed to launch "${launchConfig.name}": no ${testLibrary} tests in ${folderContext.name} match the launch configuration.`
+            );
+            return undefined;
+        }
+    }
+
+    let testConfig: vscode.DebugConfiguration | null;
+    if (testLibrary === TestLibrary.swiftTesting) {
+        const attachmentFolder = await SwiftTestingConfigurationSetup.setupAttachmentFolder(
+            folderContext,
+            Date.now()
+        );
+        // Nothing reads the event stream outside of the Test Explorer, so discard it.
+        const eventStreamPath = process.platform === "win32" ? "NUL" : "/dev/null";
+        testConfig = await TestingConfigurationFactory.swiftTestingConfig(
+            folderContext,
+            SwiftTestingBuildAguments.build(eventStreamPath, attachmentFolder),
+            TestKind.debug,
+            testList,
+            true
+        );
+    } else {
+        testConfig = await TestingConfigurationFactory.xcTestConfig(
+            folderContext,
+            TestKind.debug,
+            testList,
+            true
+        );
+    }
+    if (!testConfig) {
+        void vscode.window.showErrorMessage(
+            `Failed to launch "${launchConfig.name}": ${folderContext.name} has no ${testLibrary} tests to debug.`
+        );
+        return undefined;
+    }
+
+    const userConfig = { ...launchConfig };
+    delete userConfig.testTargets;
+    delete userConfig.testFilter;
+    delete userConfig.testTags;
+    return {
+        ...userConfig,
+        ...testConfig,
+        name: launchConfig.name,
+        args: [...(testConfig.args ?? []), ...(launchConfig.args ?? [])],
+        env: { ...testConfig.env, ...launchConfig.env },
+        preLaunchTask:
+            "preLaunchTask" in launchConfig ? launchConfig.preLaunchTask : testConfig.preLaunchTask,
+        testType: testLibrary,
+    };
+}
+
+/** Returns the values of an attribute that can be a string or array, or `undefined` if empty. */
+function asArray(value: string | string[] | undefined): string[] | undefined {
+    const values = typeof value === "string" ? [value] : value;
+    return values && values.length > 0 ? values : undefined;
+}
@@ -0,0 +1,182 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { DiagnosticFix, DiagnosticsManager } from "../DiagnosticsManager";
+
+type DiagnosticEdit = DiagnosticFix["edits"][number];
+
+/**
+ * Combines the edits of several fixes so they can be applied together. Edits that
+ * are duplicated, such as those of a diagnostic reported for several targets, are
+ * only applied once. A fix with an edit that overlaps an edit of an earlier fix is
+ * dropped as a whole, so a fix is never partially applied.
+ */
+export function combineFixes(fixes: DiagnosticFix[]): DiagnosticEdit[] {
+    const result: DiagnosticEdit[] = [];
+    const sameFile = (a: DiagnosticEdit, b: DiagnosticEdit) => a.uri.fsPath === b.uri.fsPath;
+    for (const fix of fixes) {
+        const edits = fix.edits.filter(
+            edit =>
+                !result.some(
+                    other =>
+                        sameFile(edit, other) &&
+                        edit.range.isEqual(other.range) &&
+                        edit.newText === other.newText
+                )
+        );
+        const overlaps = edits.some(edit =>
+            result.some(
+                other =>
+                    sameFile(edit, other) &&
+                    edit.range.start.isBefore(other.range.end) &&
+                    other.range.start.isBefore(edit.range.end)
+            )
+        );
+        if (!overlaps) {
+            result.push(...edits);
+        }
+    }
+    return result.sort(
+        (a, b) =>
+            a.uri.fsPath.localeCompare(b.uri.fsPath) ||
+            a.range.start.compareTo(b.range.start) ||
+            a.range.end.compareTo(b.range.end)
+    );
+}
+
+/**
+ * Offers the fix-its the compiler attached to `swiftc` build diagnostics as quick fixes.
+ * SourceKit-LSP only provides fixes for the files it has open, whereas these are
+ * available for every file the build reported a diagnostic in.
+ *
+ * Alongside the fixes for a single diagnostic, the fixes of every diagnostic in the
+ * file or workspace can be applied at once. Only diagnostics with a single fix are
+ * included as there is no way to choose between the alternatives.
+ *
+ * Fixes are only offered until a file they edit changes, as their ranges come from the
+ * last build. Applying them changes the file, so they are never applied twice.
+ */
+export class CompilerFixItProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly fixAllKind = vscode.CodeActionKind.SourceFixAll.append("swiftc");
+    static readonly providedCodeActionKinds = [
+        vscode.CodeActionKind.QuickFix,
+        CompilerFixItProvider.fixAllKind,
+    ];
+
+    private registration: vscode.Disposable;
+
+    constructor(private diagnostics: DiagnosticsManager) {
+        this.registration = vscode.languages.registerCodeActionsProvider(
+            [
+                { scheme: "file", language: "swift" },
+                { scheme: "file", language: "c" },
+                { scheme: "file", language: "cpp" },
+                { scheme: "file", language: "objective-c" },
+                { scheme: "file", language: "objective-cpp" },
+            ],
+            this,
+            { providedCodeActionKinds: CompilerFixItProvider.providedCodeActionKinds }
+        );
+    }
+
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        // Requested when fixing everything on save with `source.fixAll`
+        if (context.only?.contains(CompilerFixItProvider.fixAllKind)) {
+            const edit = this.fixAllEdit(document.uri);
+            if (!edit) {
+                return [];
+            }
+            const action = new vscode.CodeAction(
+                "Apply all compiler fixes in file",
+                CompilerFixItProvider.fixAllKind
+            );
+            action.edit = edit;
+            return [action];
+        }
+
+        const actions = context.diagnostics.flatMap(diagnostic => {
+            const fixes = this.diagnostics.fixes(document.uri, diagnostic);
+            return fixes.map(fix => {
+                const action = this.codeAction(fix.title, combineFixes([fix]));
+                action.diagnostics = [diagnostic];
+                action.isPreferred = fixes.length === 1;
+                return action;
+            });
+        });
+        if (actions.length === 0) {
+            return actions;
+        }
+        // Only offer to fix everything when there is more than the diagnostic at hand to fix
+        const fileFixes = this.fixableDiagnostics(document.uri);
+        if (fileFixes.length > 1) {
+            actions.push(
+                this.codeAction(
+                    "Apply all compiler fixes in file",
+                    combineFixes(fileFixes.flatMap(({ fixes }) => fixes))
+                )
+            );
+        }
+        const workspaceFixes = this.fixableDiagnostics();
+        if (workspaceFixes.some(({ uri }) => uri.fsPath !== document.uri.fsPath)) {
+            actions.push(
+                this.codeAction(
+                    "Apply all compiler fixes in workspace",
+                    combineFixes(workspaceFixes.flatMap(({ fixes }) => fixes))
+                )
+            );
+        }
+        return actions;
+    }
+
+    /**
+     * Creates a {@link vscode.WorkspaceEdit} applying the fixes of every `swiftc`
+     * diagnostic with a single fix.
+     *
+     * @param uri Only apply the fixes for diagnostics in this file
+     * @returns The edit, or `undefined` if there is nothing to fix
+     */
+    fixAllEdit(uri?: vscode.Uri): vscode.WorkspaceEdit | undefined {
+        const edits = combineFixes(this.fixableDiagnostics(uri).flatMap(({ fixes }) => fixes));
+        if (edits.length === 0) {
+            return undefined;
+        }
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        for (const edit of edits) {
+            workspaceEdit.replace(edit.uri, edit.range, edit.newText);
+        }
+        return workspaceEdit;
+    }
+
+    private fixableDiagnostics(uri?: vscode.Uri) {
+        return this.diagnostics.allFixes(uri).filter(({ fixes }) => fixes.length === 1);
+    }
+
+    private codeAction(title: string, edits: DiagnosticEdit[]): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        for (const edit of edits) {
+            action.edit.replace(edit.uri, edit.range, edit.newText);
+        }
+        return action;
+    }
+
+    dispose() {
+        this.registration.dispose();
+    }
+}
@@ -31,9 +31,19 @@ import { SwiftLoggerFactory } from "./logging/SwiftLoggerFactory";
 import { SwiftEnvironmentVariablesManager, SwiftTerminalProfileProvider } from "./terminal";
 import { SelectedXcodeWatcher } from "./toolchain/SelectedXcodeWatcher";
 import { SwiftToolchain } from "./toolchain/toolchain";
+import { BuildTimelineProvider } from "./ui/BuildTimelineProvider";
+import { BuildWarningsProvider } from "./ui/BuildWarningsProvider";
+import { CompileTimeHotspotsProvider } from "./ui/CompileTimeHotspotsProvider";
+import { CoverageDiffProvider } from "./ui/CoverageDiffProvider";
+import { GeneratedSourcesProvider } from "./ui/GeneratedSourcesProvider";
 import { LanguageStatusItems } from "./ui/LanguageStatusItems";
+import { PackageResolvedChangesProvider } from "./ui/PackageResolvedChangesProvider";
 import { ProjectPanelProvider } from "./ui/ProjectPanelProvider";
 import { getReadOnlyDocumentProvider } from "./ui/ReadOnlyDocumentProvider";
+import { SanitizerFindingsProvider } from "./ui/SanitizerFindingsProvider";
+import { SlowestTestsProvider } from "./ui/SlowestTestsProvider";
+import { SymbolInspectorProvider } from "./ui/SymbolInspectorProvider";
+import { TestAttachmentsProvider } from "./ui/TestAttachmentsProvider";
 import { showToolchainError } from "./ui/ToolchainSelection";
 import { checkAndWarnAboutWindowsSymlinks } from "./ui/win32";
 import { getErrorDescription } from "./utilities/utilities";
@@ -151,6 +161,103 @@ export async function activate(context: vscode.ExtensionContext): Promise<Api> {
 
         context.subscriptions.push(dependenciesView, projectPanelProvider);
 
+        // coverage changes compared with the saved coverage baseline
+        const coverageDiffProvider = new CoverageDiffProvider(workspaceContext);
+        const coverageDiffView = vscode.window.createTreeView("swift.coverageChanges", {
+            treeDataProvider: coverageDiffProvider,
+            showCollapseAll: true,
+        });
+        coverageDiffProvider.observeTreeView(coverageDiffView);
+
+        context.subscriptions.push(coverageDiffView, coverageDiffProvider);
+
+        // warnings of the latest build compared with the build before it
+        const buildWarningsProvider = new BuildWarningsProvider(workspaceContext);
+        const buildWarningsView = vscode.window.createTreeView("swift.buildWarnings", {
+            treeDataProvider: buildWarningsProvider,
+            showCollapseAll: true,
+        });
+        buildWarningsProvider.observeTreeView(buildWarningsView);
+
+        context.subscriptions.push(buildWarningsView, buildWarningsProvider);
+
+        // module timings of the recent builds
+        const buildTimelineProvider = new BuildTimelineProvider(workspaceContext);
+        const buildTimelineView = vscode.window.createTreeView("swift.buildTimeline", {
+            treeDataProvider: buildTimelineProvider,
+            showCollapseAll: true,
+        });
+        buildTimelineProvider.observeTreeView(buildTimelineView);
+
+        context.subscriptions.push(buildTimelineView, buildTimelineProvider);
+
+        // function bodies and expressions that are slow to type-check
+        const compileTimeHotspotsProvider = new CompileTimeHotspotsProvider(workspaceContext);
+        const compileTimeHotspotsView = vscode.window.createTreeView("swift.compileTimeHotspots", {
+            treeDataProvider: compileTimeHotspotsProvider,
+        });
+        compileTimeHotspotsProvider.observeTreeView(compileTimeHotspotsView);
+
+        context.subscriptions.push(compileTimeHotspotsView, compileTimeHotspotsProvider);
+
+        // sources generated by build tool plugins
+        const generatedSourcesProvider = new GeneratedSourcesProvider(workspaceContext);
+        const generatedSourcesView = vscode.window.createTreeView("swift.generatedSources", {
+            treeDataProvider: generatedSourcesProvider,
+            showCollapseAll: true,
+        });
+        generatedSourcesProvider.observeTreeView(generatedSourcesView);
+
+        context.subscriptions.push(generatedSourcesView, generatedSourcesProvider);
+
+        // issues reported by sanitizers while running, testing and debugging
+        const sanitizerFindingsProvider = new SanitizerFindingsProvider(workspaceContext);
+        const sanitizerFindingsView = vscode.window.createTreeView("swift.sanitizerFindings", {
+            treeDataProvider: sanitizerFindingsProvider,
+            showCollapseAll: true,
+        });
+        sanitizerFindingsProvider.observeTreeView(sanitizerFindingsView);
+
+        context.subscriptions.push(sanitizerFindingsView, sanitizerFindingsProvider);
+
+        // attachments recorded by swift-testing tests in the latest test runs
+        const testAttachmentsProvider = new TestAttachmentsProvider(workspaceContext);
+        const testAttachmentsView = vscode.window.createTreeView("swift.testAttachments", {
+            treeDataProvider: testAttachmentsProvider,
+            showCollapseAll: true,
+        });
+        testAttachmentsProvider.observeTreeView(testAttachmentsView);
+
+        context.subscriptions.push(testAttachmentsView, testAttachmentsProvider);
+
+        // tests that took longest in their latest run, and the ones that got slower
+        const slowestTestsProvider = new SlowestTestsProvider(workspaceContext);
+        const slowestTestsView = vscode.window.createTreeView("swift.slowestTests", {
+            treeDataProvider: slowestTestsProvider,
+        });
+        slowestTestsProvider.observeTreeView(slowestTestsView);
+
+        context.subscriptions.push(slowestTestsView, slowestTestsProvider);
+
+        // changes to the pins of Package.resolved
+        const packageResolvedChangesProvider = new PackageResolvedChangesProvider(workspaceContext);
+        const packageResolvedChangesView = vscode.window.createTreeView(
+            "swift.packageResolvedChanges",
+            { treeDataProvider: packageResolvedChangesProvider }
+        );
+        packageResolvedChangesProvider.observeTreeView(packageResolvedChangesView);
+
+        context.subscriptions.push(packageResolvedChangesView, packageResolvedChangesProvider);
+
+        // SourceKit-LSP symbol information for the symbol under the cursor
+        const symbolInspectorProvider = new SymbolInspectorProvider(workspaceContext);
+        const symbolInspectorView = vscode.window.createTreeView("swift.symbolInspector", {
+            treeDataProvider: symbolInspectorProvider,
+        });
+        symbolInspectorProvider.observeTreeView(symbolInspectorView);
+
+        context.subscriptions.push(symbolInspectorView, symbolInspectorProvider);
+
         // observer that will resolve package and build launch configurations
         context.subscriptions.push(workspaceContext.onDidChangeFolders(handleFolderEvent(logger)));
         context.subscriptions.push(TestExplorer.observeFolders(workspaceContext));
@@ -0,0 +1,148 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { PackagePlugin } from "../SwiftPackage";
+
+/** A named set of arguments for a command plugin. */
+export interface PluginArgumentPreset {
+    name: string;
+    args: string[];
+}
+
+interface PluginArguments {
+    presets: PluginArgumentPreset[];
+    /** The most recently used arguments, most recent first. */
+    recent: string[][];
+}
+
+/**
+ * Identifies a plugin command the same way the `swift.pluginArguments` and
+ * `swift.pluginPermissions` settings do.
+ */
+export function pluginKey(plugin: PackagePlugin): string {
+    return `${plugin.package}:${plugin.command}`;
+}
+
+/**
+ * Splits a command line into arguments, treating quoted text as a single
+ * argument and allowing quotes and spaces to be escaped with a backslash.
+ */
+export function splitArguments(commandLine: string): string[] {
+    const args: string[] = [];
+    let current: string | undefined;
+    let quote: string | undefined;
+    for (let i = 0; i < commandLine.length; i++) {
+        const char = commandLine[i];
+        if (char === "\\" && i + 1 < commandLine.length && quote !== "'") {
+            current = (current ?? "") + commandLine[++i];
+        } else if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            } else {
+                current += char;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            current = current ?? "";
+        } else if (/\s/.test(char)) {
+            if (current !== undefined) {
+                args.push(current);
+                current = undefined;
+            }
+        } else {
+            current = (current ?? "") + char;
+        }
+    }
+    if (current !== undefined) {
+        args.push(current);
+    }
+    return args;
+}
+
+/** Joins arguments into a command line that {@link splitArguments} splits back into the same arguments. */
+export function joinArguments(args: string[]): string {
+    return args
+        .map(arg =>
+            arg === "" || /[\s"'\\]/.test(arg) ? `"${arg.replace(/["\\]/g, "\\$&")}"` : arg
+        )
+        .join(" ");
+}
+
+/**
+ * Keeps the argument presets and recently used arguments of each command plugin
+ * in the workspace state.
+ */
+export class PluginArgumentStore {
+    private static STORAGE_KEY = "swift.pluginArguments";
+    /** The number of recently used arguments kept for each plugin. */
+    static readonly maxRecent = 10;
+
+    constructor(private memento: vscode.Memento) {}
+
+    presets(plugin: PackagePlugin): PluginArgumentPreset[] {
+        return this.pluginArguments(plugin).presets;
+    }
+
+    recent(plugin: PackagePlugin): string[][] {
+        return this.pluginArguments(plugin).recent;
+    }
+
+    /** Moves the arguments to the top of the plugin's recently used arguments. */
+    async addRecent(plugin: PackagePlugin, args: string[]) {
+        const { presets, recent } = this.pluginArguments(plugin);
+        const commandLine = joinArguments(args);
+        await this.update(plugin, {
+            presets,
+            recent: [args, ...recent.filter(r => joinArguments(r) !== commandLine)].slice(
+                0,
+                PluginArgumentStore.maxRecent
+            ),
+        });
+    }
+
+    /** Saves a preset, replacing any preset of the plugin with the same name. */
+    async savePreset(plugin: PackagePlugin, preset: PluginArgumentPreset) {
+        const { presets, recent } = this.pluginArguments(plugin);
+        await this.update(plugin, {
+            presets: [...presets.filter(p => p.name !== preset.name), preset].sort((a, b) =>
+                a.name.localeCompare(b.name)
+            ),
+            recent,
+        });
+    }
+
+    async deletePreset(plugin: PackagePlugin, name: string) {
+        const { presets, recent } = this.pluginArguments(plugin);
+        await this.update(plugin, { presets: presets.filter(p => p.name !== name), recent });
+    }
+
+    private allPluginArguments(): { [key: string]: PluginArguments } {
+        return this.memento.get<{ [key: string]: PluginArguments }>(
+            PluginArgumentStore.STORAGE_KEY,
+            {}
+        );
+    }
+
+    private pluginArguments(plugin: PackagePlugin): PluginArguments {
+        return this.allPluginArguments()[pluginKey(plugin)] ?? { presets: [], recent: [] };
+    }
+
+    private async update(plugin: PackagePlugin, pluginArguments: PluginArguments) {
+        await this.memento.update(PluginArgumentStore.STORAGE_KEY, {
+            ...this.allPluginArguments(),
+            [pluginKey(plugin)]: pluginArguments,
+        });
+    }
+}
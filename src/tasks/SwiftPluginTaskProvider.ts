@@ -32,6 +32,8 @@ interface TaskConfig {
     scope: vscode.WorkspaceFolder;
     presentationOptions?: vscode.TaskPresentationOptions;
     packageName?: string;
+    /** Arguments passed to the plugin command, which may contain VS Code variables. */
+    args?: string[];
 }
 
 /**
@@ -131,11 +133,14 @@ export class SwiftPluginTaskProvider implements vscode.TaskProvider {
         const relativeCwd = path.relative(config.scope.uri.fsPath, config.cwd.fsPath);
         const taskDefinitionCwd = relativeCwd !== "" ? relativeCwd : undefined;
         const definition = this.getTaskDefinition(plugin, taskDefinitionCwd);
+        if (config.args) {
+            definition.args = config.args;
+        }
         let swiftArgs = [
             "package",
             ...this.pluginArgumentsFromConfiguration(config.scope, definition, plugin),
             plugin.command,
-            ...definition.args,
+            ...definition.args.map(substituteVariablesInString),
         ];
         swiftArgs = toolchain.buildFlags.withAdditionalFlags(swiftArgs);
 
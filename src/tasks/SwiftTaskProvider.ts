@@ -11,17 +11,20 @@
 // SPDX-License-Identifier: Apache-2.0
 //
 //===----------------------------------------------------------------------===//
+import * as path from "path";
 import * as vscode from "vscode";
 
 import { FolderContext } from "../FolderContext";
 import { Product, isAutomatic } from "../SwiftPackage";
 import { WorkspaceContext } from "../WorkspaceContext";
 import configuration, {
+    LaunchProfile,
     ShowBuildStatusOptions,
     substituteVariablesInString,
 } from "../configuration";
 import { BuildConfigurationFactory } from "../debugger/buildConfig";
 import { SwiftExecution } from "../tasks/SwiftExecution";
+import { BuildFlags } from "../toolchain/BuildFlags";
 import { SwiftToolchain } from "../toolchain/toolchain";
 import { getPlatformConfig, packageName, resolveScope, resolveTaskCwd } from "../utilities/tasks";
 import { swiftRuntimeEnv } from "../utilities/utilities";
@@ -80,14 +83,22 @@ export function diagnosticsStyleOptions(): string[] {
     return [];
 }
 
-/** Return swift build options */
-export function buildOptions(toolchain: SwiftToolchain, debug = true): string[] {
+/**
+ * Return swift build options
+ *
+ * @param sanitizerType The sanitizer to build with, defaults to the `swift.sanitizer` setting
+ */
+export function buildOptions(
+    toolchain: SwiftToolchain,
+    debug = true,
+    sanitizerType: string = configuration.sanitizer
+): string[] {
     const args: string[] = [];
     if (debug) {
         args.push(...platformDebugBuildOptions(toolchain));
     }
     args.push(...diagnosticsStyleOptions());
-    const sanitizer = toolchain.sanitizer(configuration.sanitizer);
+    const sanitizer = toolchain.sanitizer(sanitizerType);
     if (sanitizer) {
         args.push(...sanitizer.buildFlags);
     }
@@ -276,7 +287,89 @@ function createBuildTasks(product: Product, folderContext: FolderContext): vscod
         folderContext.toolchain
     );
     const buildRelease = buildAllTaskCache.get(buildReleaseName, folderContext, buildReleaseTask);
-    return [buildDebug, buildRelease];
+    return [buildDebug, buildRelease, ...createSanitizerBuildTasks(product, folderContext)];
+}
+
+/**
+ * Returns the name of the task that builds a product with the sanitizer setting of a launch
+ * profile in the `swift.launchProfiles` setting.
+ */
+export function sanitizerBuildTaskName(
+    productName: string,
+    release: boolean,
+    sanitizer: NonNullable<LaunchProfile["sanitizer"]>
+): string {
+    const sanitizerName = { off: "No", thread: "Thread", address: "Address" }[sanitizer];
+    return `Build ${release ? "Release" : "Debug"} ${productName} - ${sanitizerName} Sanitizer`;
+}
+
+/**
+ * Returns the sanitizer setting a launch profile needs its own build for, or `undefined`
+ * if the profile builds like the `swift.sanitizer` setting.
+ */
+export function launchProfileSanitizer(
+    profile: LaunchProfile
+): NonNullable<LaunchProfile["sanitizer"]> | undefined {
+    return profile.sanitizer !== undefined && profile.sanitizer !== configuration.sanitizer
+        ? profile.sanitizer
+        : undefined;
+}
+
+/**
+ * Creates {@link vscode.Task Tasks} to build a product with each of the sanitizer settings
+ * used by the launch profiles of the folder that differ from the `swift.sanitizer` setting.
+ *
+ * Each sanitizer setting is built in its own scratch path under `.build/sanitizers`, so
+ * switching between launch profiles doesn't rebuild the package each time.
+ */
+function createSanitizerBuildTasks(product: Product, folderContext: FolderContext): vscode.Task[] {
+    const toolchain = folderContext.toolchain;
+    const profiles = Object.values(
+        configuration.folder(folderContext.workspaceFolder).launchProfiles
+    );
+    const builds = new Map<
+        string,
+        { release: boolean; sanitizer: NonNullable<LaunchProfile["sanitizer"]> }
+    >();
+    for (const profile of profiles) {
+        const sanitizer = launchProfileSanitizer(profile);
+        if (sanitizer) {
+            const release = profile.configuration === "release";
+            const name = sanitizerBuildTaskName(product.name, release, sanitizer);
+            builds.set(name, { release, sanitizer });
+        }
+    }
+    const buildDirectory = BuildFlags.buildDirectoryFromWorkspacePath(
+        folderContext.folder.fsPath,
+        true
+    );
+    return [...builds].map(([name, { release, sanitizer }]) => {
+        const task = createSwiftTask(
+            [
+                "build",
+                ...(release ? ["-c", "release"] : []),
+                "--product",
+                product.name,
+                ...buildOptions(toolchain, !release, sanitizer),
+                "--scratch-path",
+                path.join(buildDirectory, "sanitizers", sanitizer),
+            ],
+            name,
+            {
+                group: vscode.TaskGroup.Build,
+                cwd: folderContext.folder,
+                scope: resolveScope(folderContext.workspaceFolder),
+                presentationOptions: {
+                    reveal: getBuildRevealOption(),
+                },
+                packageName: packageName(folderContext),
+                disableTaskQueue: true,
+                dontTriggerTestDiscovery: true,
+            },
+            toolchain
+        );
+        return buildAllTaskCache.get(name, folderContext, task);
+    });
 }
 
 /**
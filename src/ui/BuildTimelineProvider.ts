@@ -0,0 +1,258 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { BuildRecord, BuildStep, ModuleTiming } from "../BuildTimeline";
+import { FolderOperation, WorkspaceContext } from "../WorkspaceContext";
+
+/** Formats a duration in milliseconds, such as `12.3s` or `2m 05s`. */
+export function formatDuration(milliseconds: number): string {
+    const seconds = milliseconds / 1000;
+    if (seconds < 60) {
+        return `${seconds.toFixed(1)}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}m ${Math.round(seconds % 60)
+        .toString()
+        .padStart(2, "0")}s`;
+}
+
+/**
+ * Formats the change in duration from the previous build, such as `+1.2s`.
+ * Changes under a tenth of a second aren't shown.
+ */
+export function formatDelta(duration: number, previous: number | undefined): string | undefined {
+    if (previous === undefined || Math.abs(duration - previous) < 100) {
+        return undefined;
+    }
+    const sign = duration > previous ? "+" : "-";
+    return `${sign}${formatDuration(Math.abs(duration - previous))}`;
+}
+
+function describeDuration(duration: number, previous: number | undefined): string {
+    const delta = formatDelta(duration, previous);
+    return delta ? `${formatDuration(duration)} (${delta})` : formatDuration(duration);
+}
+
+/**
+ * A step of a build in the Build Timeline {@link vscode.TreeView TreeView}.
+ */
+class StepNode {
+    constructor(private step: BuildStep) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { description, start, duration } = this.step;
+        const item = new vscode.TreeItem(description, vscode.TreeItemCollapsibleState.None);
+        item.description = formatDuration(duration);
+        item.tooltip = `${description}\nStarted after ${formatDuration(start)}, took ${formatDuration(duration)}`;
+        item.iconPath = new vscode.ThemeIcon("debug-stackframe-dot");
+        return item;
+    }
+
+    getChildren(): BuildTimelineNode[] {
+        return [];
+    }
+}
+
+/**
+ * A module of a build, compared with the same module in the build before it.
+ */
+class ModuleNode {
+    constructor(
+        private id: string,
+        private timing: ModuleTiming,
+        private previous: ModuleTiming | undefined
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { module, start, end, stepCount } = this.timing;
+        const duration = end - start;
+        const previousDuration = this.previous && this.previous.end - this.previous.start;
+        const item = new vscode.TreeItem(module, vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = this.id;
+        item.description = describeDuration(duration, previousDuration);
+        item.tooltip = [
+            module,
+            `Started after ${formatDuration(start)}, finished after ${formatDuration(end)}`,
+            `${stepCount} step${stepCount === 1 ? "" : "s"}`,
+            previousDuration !== undefined
+                ? `Previous build: ${formatDuration(previousDuration)}`
+                : "Not built by the previous build",
+        ].join("\n");
+        item.iconPath = new vscode.ThemeIcon("package");
+        item.contextValue = "buildModule";
+        return item;
+    }
+
+    getChildren(): BuildTimelineNode[] {
+        return this.timing.slowestSteps.map(step => new StepNode(step));
+    }
+}
+
+/**
+ * Lists the slowest steps of a build.
+ */
+class SlowestStepsNode {
+    constructor(
+        private id: string,
+        private build: BuildRecord
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            "Slowest Steps",
+            vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = this.id;
+        item.iconPath = new vscode.ThemeIcon("watch");
+        return item;
+    }
+
+    getChildren(): BuildTimelineNode[] {
+        return this.build.slowestSteps.map(step => new StepNode(step));
+    }
+}
+
+/**
+ * A recorded build in the Build Timeline {@link vscode.TreeView TreeView}, compared
+ * with the build before it.
+ */
+class BuildNode {
+    constructor(
+        private build: BuildRecord,
+        private previous: BuildRecord | undefined,
+        private isLatest: boolean
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { task, time, duration, succeeded, stepCount } = this.build;
+        const item = new vscode.TreeItem(
+            new Date(time).toLocaleString(),
+            this.isLatest
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `${time}`;
+        item.description = `${describeDuration(duration, this.previous?.duration)} · ${task}`;
+        item.tooltip = [
+            task,
+            `${succeeded ? "Succeeded" : "Failed"} after ${formatDuration(duration)}`,
+            `${stepCount} step${stepCount === 1 ? "" : "s"}`,
+        ].join("\n");
+        item.iconPath = succeeded
+            ? new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed"))
+            : new vscode.ThemeIcon("error", new vscode.ThemeColor("testing.iconFailed"));
+        item.contextValue = "build";
+        return item;
+    }
+
+    getChildren(): BuildTimelineNode[] {
+        const previousModules = new Map(
+            (this.previous?.modules ?? []).map(timing => [timing.module, timing])
+        );
+        return [
+            new SlowestStepsNode(`${this.build.time}/slowest`, this.build),
+            ...this.build.modules.map(
+                timing =>
+                    new ModuleNode(
+                        `${this.build.time}/${timing.module}`,
+                        timing,
+                        previousModules.get(timing.module)
+                    )
+            ),
+        ];
+    }
+}
+
+/**
+ * A node in the Build Timeline {@link vscode.TreeView TreeView}.
+ */
+export type BuildTimelineNode = BuildNode | SlowestStepsNode | ModuleNode | StepNode;
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that lists the recent builds of the
+ * current folder with when each module started and finished building and the slowest steps,
+ * compared with the build before it.
+ */
+export class BuildTimelineProvider
+    implements vscode.TreeDataProvider<BuildTimelineNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        BuildTimelineNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<BuildTimelineNode>;
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(
+            workspaceContext.buildTimeline.onDidChange(folderPath => {
+                if (folderPath === workspaceContext.currentFolder?.folder.fsPath) {
+                    this.refresh();
+                }
+            }),
+            workspaceContext.onDidChangeFolders(({ operation }) => {
+                if (operation === FolderOperation.focus || operation === FolderOperation.unfocus) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows a message in the tree view until a build has been recorded */
+    observeTreeView(treeView: vscode.TreeView<BuildTimelineNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    refresh() {
+        if (this.treeView) {
+            this.treeView.message = this.message();
+        }
+        this.didChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: BuildTimelineNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: BuildTimelineNode): BuildTimelineNode[] {
+        if (element) {
+            return element.getChildren();
+        }
+        const folderContext = this.workspaceContext.currentFolder;
+        if (!folderContext) {
+            return [];
+        }
+        const builds = this.workspaceContext.buildTimeline.builds(folderContext.folder.fsPath);
+        return builds.map((build, index) => new BuildNode(build, builds[index + 1], index === 0));
+    }
+
+    private message(): string | undefined {
+        const folderContext = this.workspaceContext.currentFolder;
+        if (!folderContext) {
+            return undefined;
+        }
+        if (this.workspaceContext.buildTimeline.builds(folderContext.folder.fsPath).length === 0) {
+            return "Build the project to record its timeline.";
+        }
+        return undefined;
+    }
+}
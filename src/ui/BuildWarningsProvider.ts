@@ -0,0 +1,202 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { ClassifiedWarning, WarningStatus } from "../DiagnosticHistory";
+import { FolderOperation, WorkspaceContext } from "../WorkspaceContext";
+
+const statusLabels: { [status in WarningStatus]: string } = {
+    [WarningStatus.new]: "New",
+    [WarningStatus.longStanding]: "Long-standing",
+    [WarningStatus.fixed]: "Fixed",
+};
+
+/**
+ * A warning in the Build Warnings {@link vscode.TreeView TreeView}.
+ */
+class WarningNode {
+    constructor(
+        private folder: vscode.Uri,
+        private warning: ClassifiedWarning
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { file, line, message, status, firstSeen } = this.warning;
+        const uri = vscode.Uri.file(path.join(this.folder.fsPath, file));
+        const item = new vscode.TreeItem(message, vscode.TreeItemCollapsibleState.None);
+        item.description = `${file}:${line}`;
+        item.tooltip = `${message}\n${file}:${line}\n${statusLabels[status]}, first seen ${new Date(firstSeen).toLocaleString()}`;
+        switch (status) {
+            case WarningStatus.new:
+                item.iconPath = new vscode.ThemeIcon(
+                    "warning",
+                    new vscode.ThemeColor("problemsWarningIcon.foreground")
+                );
+                break;
+            case WarningStatus.longStanding:
+                item.iconPath = new vscode.ThemeIcon("history");
+                break;
+            case WarningStatus.fixed:
+                item.iconPath = new vscode.ThemeIcon(
+                    "pass",
+                    new vscode.ThemeColor("testing.iconPassed")
+                );
+                break;
+        }
+        item.contextValue = `buildWarning.${status}`;
+        item.accessibilityInformation = {
+            label: `${statusLabels[status]} warning: ${message} in ${file} line ${line}`,
+        };
+        item.command = {
+            command: "vscode.open",
+            arguments: [uri, { selection: new vscode.Range(line - 1, 0, line - 1, 0) }],
+            title: "Open File",
+        };
+        return item;
+    }
+
+    getChildren(): BuildWarningsNode[] {
+        return [];
+    }
+}
+
+/**
+ * Groups the warnings with the same status in the Build Warnings {@link vscode.TreeView TreeView}.
+ */
+class StatusNode {
+    constructor(
+        private folder: vscode.Uri,
+        private status: WarningStatus,
+        private warnings: ClassifiedWarning[]
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            statusLabels[this.status],
+            this.status === WarningStatus.new
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = this.status;
+        item.description = `${this.warnings.length}`;
+        return item;
+    }
+
+    getChildren(): BuildWarningsNode[] {
+        return this.warnings.map(warning => new WarningNode(this.folder, warning));
+    }
+}
+
+/**
+ * A node in the Build Warnings {@link vscode.TreeView TreeView}.
+ */
+export type BuildWarningsNode = StatusNode | WarningNode;
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that compares the warnings of the
+ * latest build of the current folder with the build before it, so new warnings aren't
+ * lost among the ones the codebase already had.
+ */
+export class BuildWarningsProvider
+    implements vscode.TreeDataProvider<BuildWarningsNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        BuildWarningsNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<BuildWarningsNode>;
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(
+            workspaceContext.diagnosticHistory.onDidChange(() => this.refresh()),
+            workspaceContext.onDidChangeFolders(({ operation }) => {
+                if (operation === FolderOperation.focus || operation === FolderOperation.unfocus) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows the active filter and a summary of the latest build in the tree view */
+    observeTreeView(treeView: vscode.TreeView<BuildWarningsNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    refresh() {
+        if (this.treeView) {
+            const filter = this.workspaceContext.diagnosticHistory.filter;
+            this.treeView.description = filter ? statusLabels[filter] : undefined;
+            this.treeView.message = this.message();
+        }
+        this.didChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: BuildWarningsNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: BuildWarningsNode): BuildWarningsNode[] {
+        if (element) {
+            return element.getChildren();
+        }
+        const folderContext = this.workspaceContext.currentFolder;
+        if (!folderContext) {
+            return [];
+        }
+        const warnings = this.workspaceContext.diagnosticHistory.warnings(
+            folderContext.folder.fsPath
+        );
+        const filter = this.workspaceContext.diagnosticHistory.filter;
+        if (filter) {
+            return warnings
+                .filter(warning => warning.status === filter)
+                .map(warning => new WarningNode(folderContext.folder, warning));
+        }
+        return [WarningStatus.new, WarningStatus.longStanding, WarningStatus.fixed]
+            .map(
+                status =>
+                    new StatusNode(
+                        folderContext.folder,
+                        status,
+                        warnings.filter(warning => warning.status === status)
+                    )
+            )
+            .filter(node => node.getChildren().length > 0);
+    }
+
+    private message(): string | undefined {
+        const folderContext = this.workspaceContext.currentFolder;
+        if (!folderContext) {
+            return undefined;
+        }
+        const history = this.workspaceContext.diagnosticHistory;
+        if (history.builds(folderContext.folder.fsPath).length === 0) {
+            return "Build the project to record its warnings.";
+        }
+        const warnings = history.warnings(folderContext.folder.fsPath);
+        const count = (status: WarningStatus) => warnings.filter(w => w.status === status).length;
+        const newCount = count(WarningStatus.new);
+        const fixedCount = count(WarningStatus.fixed);
+        return `Latest build: ${newCount} new warning${newCount === 1 ? "" : "s"}, ${fixedCount} fixed.`;
+    }
+}
@@ -0,0 +1,184 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { Hotspot, HotspotKind, HotspotSortOrder, sortHotspots } from "../CompileTimeHotspots";
+import { FolderOperation, WorkspaceContext } from "../WorkspaceContext";
+
+/**
+ * A function body or expression in the Compile-Time Hotspots {@link vscode.TreeView TreeView}.
+ */
+class HotspotNode {
+    constructor(
+        private folder: vscode.Uri,
+        private hotspot: Hotspot
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { kind, name, duration, file, range } = this.hotspot;
+        const relativePath = path.relative(this.folder.fsPath, file);
+        const location = `${relativePath}:${range.start.line + 1}`;
+        const item = new vscode.TreeItem(name, vscode.TreeItemCollapsibleState.None);
+        item.description = `${duration}ms · ${location}`;
+        item.tooltip = `${name} took ${duration}ms to type-check\n${location}`;
+        item.iconPath = new vscode.ThemeIcon(
+            kind === HotspotKind.expression ? "symbol-operator" : "symbol-method"
+        );
+        item.contextValue = `compileTimeHotspot.${kind}`;
+        item.accessibilityInformation = {
+            label: `${name} took ${duration} milliseconds to type-check in ${relativePath} line ${range.start.line + 1}`,
+        };
+        item.command = {
+            command: "vscode.open",
+            arguments: [vscode.Uri.file(file), { selection: range }],
+            title: "Open File",
+        };
+        return item;
+    }
+}
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that lists the function bodies and
+ * expressions of the current folder that were slow to type-check the last time
+ * `Find Compile-Time Hotspots` was run, and decorates them in the editor.
+ */
+export class CompileTimeHotspotsProvider
+    implements vscode.TreeDataProvider<HotspotNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        HotspotNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<HotspotNode>;
+    private hotspotDecoration = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor("editorCodeLens.foreground"),
+            margin: "0 0 0 2em",
+        },
+        overviewRulerColor: new vscode.ThemeColor("problemsWarningIcon.foreground"),
+        overviewRulerLane: vscode.OverviewRulerLane.Right,
+    });
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(
+            this.hotspotDecoration,
+            workspaceContext.compileTimeHotspots.onDidChange(folderPath => {
+                if (
+                    folderPath === undefined ||
+                    folderPath === workspaceContext.currentFolder?.folder.fsPath
+                ) {
+                    this.refresh();
+                }
+            }),
+            workspaceContext.onDidChangeFolders(({ operation }) => {
+                if (operation === FolderOperation.focus || operation === FolderOperation.unfocus) {
+                    this.refresh();
+                }
+            }),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.updateDecorations())
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows the target and threshold of the latest analysis in the tree view */
+    observeTreeView(treeView: vscode.TreeView<HotspotNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    refresh() {
+        if (this.treeView) {
+            const sortOrder = this.workspaceContext.compileTimeHotspots.sortOrder;
+            this.treeView.description =
+                sortOrder === HotspotSortOrder.duration ? "Slowest First" : "By File";
+            this.treeView.message = this.message();
+        }
+        this.didChangeTreeDataEmitter.fire();
+        this.updateDecorations();
+    }
+
+    getTreeItem(element: HotspotNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: HotspotNode): HotspotNode[] {
+        const folderContext = this.workspaceContext.currentFolder;
+        if (element || !folderContext) {
+            return [];
+        }
+        return sortHotspots(
+            this.hotspots(),
+            this.workspaceContext.compileTimeHotspots.sortOrder
+        ).map(hotspot => new HotspotNode(folderContext.folder, hotspot));
+    }
+
+    private hotspots(): Hotspot[] {
+        const folderContext = this.workspaceContext.currentFolder;
+        if (!folderContext) {
+            return [];
+        }
+        return (
+            this.workspaceContext.compileTimeHotspots.analysis(folderContext.folder.fsPath)
+                ?.hotspots ?? []
+        );
+    }
+
+    private message(): string | undefined {
+        const folderContext = this.workspaceContext.currentFolder;
+        if (!folderContext) {
+            return undefined;
+        }
+        const analysis = this.workspaceContext.compileTimeHotspots.analysis(
+            folderContext.folder.fsPath
+        );
+        if (!analysis) {
+            return "Run Find Compile-Time Hotspots to find slow to type-check code.";
+        }
+        const count = analysis.hotspots.length;
+        return count === 0
+            ? `Nothing in ${analysis.target} took over ${analysis.threshold}ms to type-check.`
+            : `${count} hotspot${count === 1 ? "" : "s"} in ${analysis.target} took over ${analysis.threshold}ms to type-check.`;
+    }
+
+    private updateDecorations() {
+        const hotspots = this.hotspots();
+        for (const editor of vscode.window.visibleTextEditors) {
+            const decorations = hotspots
+                .filter(
+                    hotspot =>
+                        hotspot.file === editor.document.uri.fsPath &&
+                        hotspot.range.start.line < editor.document.lineCount
+                )
+                .map((hotspot): vscode.DecorationOptions => {
+                    // Show the duration at the end of the line so it doesn't split the code
+                    const end = editor.document.lineAt(hotspot.range.start.line).range.end;
+                    return {
+                        range: new vscode.Range(end, end),
+                        hoverMessage: `${hotspot.name} took ${hotspot.duration}ms to type-check`,
+                        renderOptions: {
+                            after: { contentText: `${hotspot.duration}ms to type-check` },
+                        },
+                    };
+                });
+            editor.setDecorations(this.hotspotDecoration, decorations);
+        }
+    }
+}
@@ -0,0 +1,263 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { FolderContext } from "../FolderContext";
+import { TestKind } from "../TestExplorer/TestKind";
+import { FolderOperation, WorkspaceContext } from "../WorkspaceContext";
+import {
+    CoverageSnapshot,
+    FileCoverageDelta,
+    createCoverageSnapshot,
+    diffCoverage,
+} from "../coverage/CoverageBaselines";
+
+function formatPercent(value?: number): string {
+    return value === undefined ? "n/a" : `${value.toFixed(1)}%`;
+}
+
+function formatDelta(delta: number): string {
+    return `${delta > 0 ? "+" : ""}${delta.toFixed(1)}%`;
+}
+
+/**
+ * A line whose coverage changed in the Coverage Changes {@link vscode.TreeView TreeView}.
+ */
+class LineNode {
+    constructor(
+        private uri: vscode.Uri,
+        private line: number,
+        private regressed: boolean
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const label = `Line ${this.line}`;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        item.id = `${this.uri.fsPath}:${this.line}`;
+        item.description = this.regressed ? "no longer covered" : "newly covered";
+        item.iconPath = this.regressed
+            ? new vscode.ThemeIcon("close", new vscode.ThemeColor("testing.iconFailed"))
+            : new vscode.ThemeIcon("check", new vscode.ThemeColor("testing.iconPassed"));
+        item.accessibilityInformation = { label: `${label} ${item.description}` };
+        item.command = {
+            command: "vscode.open",
+            arguments: [
+                this.uri,
+                { selection: new vscode.Range(this.line - 1, 0, this.line - 1, 0) },
+            ],
+            title: "Open File",
+        };
+        return item;
+    }
+
+    getChildren(): CoverageDiffNode[] {
+        return [];
+    }
+}
+
+/**
+ * A file whose coverage changed in the Coverage Changes {@link vscode.TreeView TreeView}.
+ */
+class FileDeltaNode {
+    constructor(
+        private folder: vscode.Uri,
+        private fileDelta: FileCoverageDelta
+    ) {}
+
+    get uri(): vscode.Uri {
+        return vscode.Uri.file(path.join(this.folder.fsPath, this.fileDelta.relativePath));
+    }
+
+    toTreeItem(): vscode.TreeItem {
+        const { relativePath, delta, baselinePercent, currentPercent } = this.fileDelta;
+        const hasLines =
+            this.fileDelta.regressedLines.length > 0 || this.fileDelta.improvedLines.length > 0;
+        const item = new vscode.TreeItem(
+            path.basename(relativePath),
+            hasLines
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+        item.id = relativePath;
+        item.resourceUri = this.uri;
+        item.description = `${formatDelta(delta)} (${formatPercent(currentPercent)})`;
+        item.tooltip = `${relativePath}\nBaseline: ${formatPercent(baselinePercent)}\nCurrent: ${formatPercent(currentPercent)}`;
+        if (this.fileDelta.regressedLines.length > 0 || delta < 0) {
+            item.iconPath = new vscode.ThemeIcon(
+                "arrow-down",
+                new vscode.ThemeColor("testing.iconFailed")
+            );
+            item.contextValue = "coverageRegression";
+        } else {
+            item.iconPath = new vscode.ThemeIcon(
+                "arrow-up",
+                new vscode.ThemeColor("testing.iconPassed")
+            );
+            item.contextValue = "coverageImprovement";
+        }
+        item.accessibilityInformation = {
+            label: `${relativePath} coverage changed by ${formatDelta(delta)}`,
+        };
+        item.command = {
+            command: "vscode.open",
+            arguments: [this.uri],
+            title: "Open File",
+        };
+        return item;
+    }
+
+    getChildren(): CoverageDiffNode[] {
+        return [
+            ...this.fileDelta.regressedLines.map(line => new LineNode(this.uri, line, true)),
+            ...this.fileDelta.improvedLines.map(line => new LineNode(this.uri, line, false)),
+        ];
+    }
+}
+
+/**
+ * A node in the Coverage Changes {@link vscode.TreeView TreeView}.
+ */
+export type CoverageDiffNode = FileDeltaNode | LineNode;
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that shows how the coverage of the
+ * last test run with code coverage changed compared with the folder's active coverage baseline.
+ *
+ * Lines that lost coverage are also highlighted in any open editors.
+ */
+export class CoverageDiffProvider
+    implements vscode.TreeDataProvider<CoverageDiffNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        CoverageDiffNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private deltas: FileCoverageDelta[] = [];
+    private baseline?: CoverageSnapshot;
+    private treeView?: vscode.TreeView<CoverageDiffNode>;
+    private regressionDecoration = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor("diffEditor.removedLineBackground"),
+        overviewRulerColor: new vscode.ThemeColor("testing.iconFailed"),
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+    });
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(
+            this.didChangeTreeDataEmitter,
+            this.regressionDecoration,
+            workspaceContext.onDidFinishTests(({ kind, folder }) => {
+                if (kind === TestKind.coverage && folder === workspaceContext.currentFolder) {
+                    this.refresh();
+                }
+            }),
+            workspaceContext.coverageBaselines.onDidChange(() => this.refresh()),
+            workspaceContext.onDidChangeFolders(({ operation }) => {
+                if (operation === FolderOperation.focus || operation === FolderOperation.unfocus) {
+                    this.refresh();
+                }
+            }),
+            vscode.window.onDidChangeVisibleTextEditors(() => this.updateDecorations())
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows which baseline the coverage is compared against in the tree view's message */
+    observeTreeView(treeView: vscode.TreeView<CoverageDiffNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    /**
+     * Recomputes the coverage changes for the current folder.
+     */
+    refresh() {
+        const folderContext = this.workspaceContext.currentFolder;
+        this.baseline = folderContext
+            ? this.workspaceContext.coverageBaselines.activeBaseline(folderContext.folder.fsPath)
+            : undefined;
+        this.deltas = this.computeDeltas(folderContext, this.baseline);
+        if (this.treeView) {
+            this.treeView.message = this.message(folderContext);
+        }
+        this.didChangeTreeDataEmitter.fire();
+        this.updateDecorations();
+    }
+
+    getTreeItem(element: CoverageDiffNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: CoverageDiffNode): CoverageDiffNode[] {
+        if (element) {
+            return element.getChildren();
+        }
+        const folderContext = this.workspaceContext.currentFolder;
+        if (!folderContext) {
+            return [];
+        }
+        return this.deltas.map(delta => new FileDeltaNode(folderContext.folder, delta));
+    }
+
+    private computeDeltas(
+        folderContext: FolderContext | null | undefined,
+        baseline: CoverageSnapshot | undefined
+    ): FileCoverageDelta[] {
+        const results = folderContext?.latestCoverage?.results ?? [];
+        if (!folderContext || !baseline || results.length === 0) {
+            return [];
+        }
+        const current = createCoverageSnapshot("current", results, folderContext.folder.fsPath);
+        return diffCoverage(baseline, current);
+    }
+
+    private message(folderContext: FolderContext | null | undefined): string | undefined {
+        if (!folderContext || !this.baseline) {
+            // Let the welcome view explain how to save a baseline
+            return undefined;
+        }
+        if (!folderContext.latestCoverage) {
+            return `Run tests with coverage to compare against "${this.baseline.name}".`;
+        }
+        if (this.deltas.length === 0) {
+            return `No coverage changes compared with "${this.baseline.name}".`;
+        }
+        const regressions = this.deltas.filter(d => d.regressedLines.length > 0 || d.delta < 0);
+        return `Compared with "${this.baseline.name}": ${regressions.length} file${regressions.length === 1 ? "" : "s"} lost coverage.`;
+    }
+
+    private updateDecorations() {
+        const folderContext = this.workspaceContext.currentFolder;
+        for (const editor of vscode.window.visibleTextEditors) {
+            const delta = folderContext
+                ? this.deltas.find(
+                      d =>
+                          path.join(folderContext.folder.fsPath, d.relativePath) ===
+                          editor.document.uri.fsPath
+                  )
+                : undefined;
+            const ranges = (delta?.regressedLines ?? []).map(
+                line => new vscode.Range(line - 1, 0, line - 1, 0)
+            );
+            editor.setDecorations(this.regressionDecoration, ranges);
+        }
+    }
+}
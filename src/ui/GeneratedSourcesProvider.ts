@@ -0,0 +1,227 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import { GeneratedSourceChange, PluginOutput, pluginOutputsPath } from "../GeneratedSources";
+import { FolderOperation, WorkspaceContext } from "../WorkspaceContext";
+
+/** A target with sources generated by build tool plugins. */
+class TargetNode {
+    constructor(
+        private target: string,
+        private packageName: string,
+        private outputs: PluginOutput[],
+        private folderPath: string,
+        private workspaceContext: WorkspaceContext
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(this.target, vscode.TreeItemCollapsibleState.Expanded);
+        item.id = `generatedSources:${this.packageName}:${this.target}`;
+        item.description = this.packageName;
+        item.iconPath = new vscode.ThemeIcon("library");
+        item.contextValue = "generatedSourcesTarget";
+        return item;
+    }
+
+    async getChildren(): Promise<TreeNode[]> {
+        return this.outputs.map(
+            output => new PluginNode(output, this.folderPath, this.workspaceContext)
+        );
+    }
+}
+
+/** A build tool plugin and the sources it generated for a target. */
+class PluginNode {
+    constructor(
+        private output: PluginOutput,
+        private folderPath: string,
+        private workspaceContext: WorkspaceContext
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            this.output.plugin,
+            vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `generatedSources:${this.output.folder}`;
+        item.iconPath = new vscode.ThemeIcon("plug");
+        item.tooltip = `Sources generated by ${this.output.plugin} for ${this.output.target}`;
+        item.contextValue = "generatedSourcesPlugin";
+        return item;
+    }
+
+    async getChildren(): Promise<TreeNode[]> {
+        const files = await this.workspaceContext.generatedSources.files(
+            this.folderPath,
+            this.output
+        );
+        return files.map(
+            ({ file, change }) =>
+                new GeneratedSourceNode(
+                    file.substring(this.output.folder.length + 1),
+                    file,
+                    change,
+                    this.folderPath
+                )
+        );
+    }
+}
+
+/** A source generated by a build tool plugin. */
+class GeneratedSourceNode {
+    constructor(
+        private name: string,
+        private file: string,
+        private change: GeneratedSourceChange | undefined,
+        private folderPath: string
+    ) {}
+
+    get args(): string[] {
+        return [path.join(pluginOutputsPath(this.folderPath), this.file)];
+    }
+
+    toTreeItem(): vscode.TreeItem {
+        const fsPath = path.join(pluginOutputsPath(this.folderPath), this.file);
+        const item = new vscode.TreeItem(
+            vscode.Uri.file(fsPath),
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.id = `generatedSources:${this.file}`;
+        item.label = this.name;
+        item.description = this.change;
+        item.tooltip = this.change ? `${this.file} (${this.change})` : this.file;
+        item.contextValue = this.change
+            ? `generatedSource.${this.change}`
+            : "generatedSource.unchanged";
+        if (this.change === GeneratedSourceChange.removed) {
+            item.iconPath = new vscode.ThemeIcon(
+                "diff-removed",
+                new vscode.ThemeColor("gitDecoration.deletedResourceForeground")
+            );
+        }
+        item.command =
+            this.change === GeneratedSourceChange.modified
+                ? {
+                      command: "swift.compareGeneratedSource",
+                      arguments: [this],
+                      title: "Compare with Previous Generation",
+                  }
+                : {
+                      command: "swift.openGeneratedSource",
+                      arguments: [this],
+                      title: "Open Generated Source",
+                  };
+        return item;
+    }
+
+    async getChildren(): Promise<TreeNode[]> {
+        return [];
+    }
+}
+
+type TreeNode = TargetNode | PluginNode | GeneratedSourceNode;
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that lists the sources build tool
+ * plugins generated for each target of the current folder, and how they changed in the
+ * latest generation.
+ */
+export class GeneratedSourcesProvider
+    implements vscode.TreeDataProvider<TreeNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        TreeNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<TreeNode>;
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(
+            workspaceContext.generatedSources.onDidChange(folderPath => {
+                if (folderPath === workspaceContext.currentFolder?.folder.fsPath) {
+                    this.refresh();
+                }
+            }),
+            workspaceContext.onDidChangeFolders(({ operation }) => {
+                if (operation === FolderOperation.focus || operation === FolderOperation.unfocus) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows when the generated sources last changed in the tree view */
+    observeTreeView(treeView: vscode.TreeView<TreeNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    refresh() {
+        if (this.treeView) {
+            const folderPath = this.workspaceContext.currentFolder?.folder.fsPath;
+            const time = folderPath
+                ? this.workspaceContext.generatedSources.generationTime(folderPath)
+                : undefined;
+            this.treeView.description = time
+                ? `Changed ${new Date(time).toLocaleTimeString()}`
+                : undefined;
+        }
+        this.didChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: TreeNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    async getChildren(element?: TreeNode): Promise<TreeNode[]> {
+        if (element) {
+            return element.getChildren();
+        }
+        const folderContext = this.workspaceContext.currentFolder;
+        if (!folderContext) {
+            return [];
+        }
+        const outputs = await this.workspaceContext.generatedSources.outputs(folderContext);
+        if (this.treeView) {
+            this.treeView.message =
+                outputs.length === 0
+                    ? "No sources have been generated by build tool plugins. Build the package to run its build tool plugins."
+                    : undefined;
+        }
+        const targets = new Map<string, PluginOutput[]>();
+        for (const output of outputs) {
+            const key = `${output.package}:${output.target}`;
+            targets.set(key, [...(targets.get(key) ?? []), output]);
+        }
+        return [...targets.values()].map(
+            outputs =>
+                new TargetNode(
+                    outputs[0].target,
+                    outputs[0].package,
+                    outputs,
+                    folderContext.folder.fsPath,
+                    this.workspaceContext
+                )
+        );
+    }
+}
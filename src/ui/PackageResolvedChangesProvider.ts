@@ -0,0 +1,165 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { PinChange, PinChangeKind, describePinState } from "../PackageResolvedChanges";
+import { PackageResolvedPinState } from "../SwiftPackage";
+import { FolderOperation, WorkspaceContext } from "../WorkspaceContext";
+
+const kindLabels: { [kind in PinChangeKind]: string } = {
+    [PinChangeKind.added]: "Added",
+    [PinChangeKind.removed]: "Removed",
+    [PinChangeKind.upgraded]: "Upgraded",
+    [PinChangeKind.downgraded]: "Downgraded",
+    [PinChangeKind.changed]: "Changed",
+};
+
+const kindIcons: { [kind in PinChangeKind]: string } = {
+    [PinChangeKind.added]: "diff-added",
+    [PinChangeKind.removed]: "diff-removed",
+    [PinChangeKind.upgraded]: "arrow-up",
+    [PinChangeKind.downgraded]: "arrow-down",
+    [PinChangeKind.changed]: "diff-modified",
+};
+
+function describeRevision(state: PackageResolvedPinState | undefined): string {
+    if (!state) {
+        return "-";
+    }
+    const ref = state.version ?? (state.branch ? `branch ${state.branch}` : undefined);
+    return ref ? `${ref} (\`${state.revision}\`)` : `\`${state.revision}\``;
+}
+
+/**
+ * A changed pin in the Package.resolved Changes {@link vscode.TreeView TreeView}.
+ */
+class PinChangeNode {
+    constructor(
+        private change: PinChange,
+        private packageResolved: vscode.Uri
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { identity, kind, previous, current, warnings } = this.change;
+        const item = new vscode.TreeItem(identity, vscode.TreeItemCollapsibleState.None);
+        item.description = [previous, current]
+            .filter(state => state !== undefined)
+            .map(state => describePinState(state))
+            .join(" → ");
+        item.iconPath =
+            warnings.length > 0
+                ? new vscode.ThemeIcon(
+                      "warning",
+                      new vscode.ThemeColor("problemsWarningIcon.foreground")
+                  )
+                : new vscode.ThemeIcon(kindIcons[kind]);
+        item.tooltip = new vscode.MarkdownString(
+            [
+                `**${identity}**: ${kindLabels[kind]}`,
+                `Previous: ${describeRevision(previous)}`,
+                `Current: ${describeRevision(current)}`,
+                ...warnings.map(warning => `$(warning) ${warning}`),
+            ].join("\n\n"),
+            true
+        );
+        item.contextValue = `pinChange.${kind}`;
+        item.accessibilityInformation = {
+            label: `${identity} ${kindLabels[kind]} ${item.description}. ${warnings.join(". ")}`,
+        };
+        item.command = {
+            command: "vscode.open",
+            arguments: [this.packageResolved],
+            title: "Open Package.resolved",
+        };
+        return item;
+    }
+}
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that lists how the pins in
+ * Package.resolved changed the last time the file changed, whether from an update,
+ * a resolve or switching branches, flagging downgrades and pins to a branch.
+ */
+export class PackageResolvedChangesProvider
+    implements vscode.TreeDataProvider<PinChangeNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        PinChangeNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<PinChangeNode>;
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(
+            workspaceContext.onDidChangeFolders(({ folder, operation }) => {
+                switch (operation) {
+                    case FolderOperation.focus:
+                    case FolderOperation.unfocus:
+                        this.refresh();
+                        break;
+                    case FolderOperation.resolvedUpdated:
+                        if (folder === workspaceContext.currentFolder) {
+                            this.refresh();
+                        }
+                        break;
+                }
+            })
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows a summary of the changes in the tree view */
+    observeTreeView(treeView: vscode.TreeView<PinChangeNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    refresh() {
+        if (this.treeView) {
+            this.treeView.message = this.message();
+        }
+        this.didChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: PinChangeNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: PinChangeNode): PinChangeNode[] {
+        const folderContext = this.workspaceContext.currentFolder;
+        if (element || !folderContext) {
+            return [];
+        }
+        const packageResolved = vscode.Uri.joinPath(folderContext.folder, "Package.resolved");
+        return folderContext.resolvedChanges.map(
+            change => new PinChangeNode(change, packageResolved)
+        );
+    }
+
+    private message(): string | undefined {
+        const changes = this.workspaceContext.currentFolder?.resolvedChanges;
+        if (!changes || changes.length === 0) {
+            return "Package.resolved has not changed since the folder was opened.";
+        }
+        const warnings = changes.filter(change => change.warnings.length > 0).length;
+        const summary = `${changes.length} pin${changes.length === 1 ? "" : "s"} changed`;
+        return warnings > 0 ? `${summary}, ${warnings} to review.` : `${summary}.`;
+    }
+}
@@ -12,11 +12,11 @@
 //
 //===----------------------------------------------------------------------===//
 import { convertPathToPattern, glob } from "fast-glob";
-import { existsSync } from "fs";
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as vscode from "vscode";
 
+import { DependencyUpdate, checkDependencyUpdates } from "../DependencyUpdateAdvisor";
 import { FolderContext } from "../FolderContext";
 import { Dependency, ResolvedDependency, Target } from "../SwiftPackage";
 import { WorkspaceContext } from "../WorkspaceContext";
@@ -119,7 +119,8 @@ export class PackageNode {
         private dependency: ResolvedDependency,
         private childDependencies: (dependency: Dependency) => ResolvedDependency[],
         private parentId?: string,
-        private fs?: (folder: string) => Promise<string[]>
+        private fs?: (folder: string) => Promise<string[]>,
+        private updates: ReadonlyMap<string, DependencyUpdate> = new Map()
     ) {
         this.id =
             (this.parentId ? `${this.parentId}->` : "") +
@@ -142,6 +143,11 @@ export class PackageNode {
         return this.dependency.path ?? "";
     }
 
+    /** The newest release of this dependency, if it is pinned to an older version */
+    get update(): DependencyUpdate | undefined {
+        return this.type === "remote" ? this.updates.get(this.name) : undefined;
+    }
+
     toTreeItem(): vscode.TreeItem {
         const item = new vscode.TreeItem(this.name, vscode.TreeItemCollapsibleState.Collapsed);
         item.id = this.id;
@@ -150,6 +156,17 @@ export class PackageNode {
         item.contextValue = this.dependency.type;
         item.accessibilityInformation = { label: `Package ${this.name}` };
         item.tooltip = this.path;
+        const update = this.update;
+        if (update) {
+            item.contextValue = "remote.outdated";
+            item.description = `${item.description} → ${update.latest} (${update.kind})`;
+            item.tooltip = new vscode.MarkdownString(
+                `${this.path}\n\n${update.latest} is available, a ${update.kind} update from ${update.current}`
+            );
+            item.accessibilityInformation = {
+                label: `Package ${this.name}, ${update.kind} update to ${update.latest} available`,
+            };
+        }
         return item;
     }
 
@@ -174,7 +191,7 @@ export class PackageNode {
             ),
         ]);
         const childNodes = childDeps.map(
-            dep => new PackageNode(dep, this.childDependencies, this.id)
+            dep => new PackageNode(dep, this.childDependencies, this.id, undefined, this.updates)
         );
 
         // Show dependencies first, then files.
@@ -253,11 +270,15 @@ class TaskNode {
         private active: boolean
     ) {}
 
+    get args(): string[] {
+        return [this.name];
+    }
+
     toTreeItem(): vscode.TreeItem {
         const item = new vscode.TreeItem(this.name, vscode.TreeItemCollapsibleState.None);
         item.id = `${this.type}-${this.id}`;
         item.iconPath = new vscode.ThemeIcon(this.active ? LOADING_ICON : "play");
-        item.contextValue = "task";
+        item.contextValue = this.type === "command" ? "commandPlugin" : "task";
         item.accessibilityInformation = { label: this.name };
         item.command = {
             command: "swift.runTask",
@@ -477,8 +498,8 @@ export class ProjectPanelProvider implements vscode.TreeDataProvider<TreeNode> {
     private disposables: vscode.Disposable[] = [];
     private activeTasks: Set<string> = new Set();
     private lastComputedNodes: TreeNode[] = [];
-    private buildPluginOutputWatcher?: vscode.FileSystemWatcher;
-    private buildPluginFolderWatcher?: vscode.Disposable;
+    /** The dependency updates of each folder, checked again when its dependencies change */
+    private dependencyUpdates = new Map<FolderContext, Promise<Map<string, DependencyUpdate>>>();
 
     onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
 
@@ -498,6 +519,15 @@ export class ProjectPanelProvider implements vscode.TreeDataProvider<TreeNode> {
     observeTasks(ctx: WorkspaceContext) {
         this.disposables.push(new TaskPoller(() => this.didChangeTreeDataEmitter.fire()));
 
+        // Show the files build tool plugins generate as they are written
+        this.disposables.push(
+            ctx.generatedSources.onDidChange(folderPath => {
+                if (folderPath === ctx.currentFolder?.folder.fsPath) {
+                    this.didChangeTreeDataEmitter.fire();
+                }
+            })
+        );
+
         this.disposables.push(
             vscode.tasks.onDidStartTask(e => {
                 const taskId = e.execution.task.detail ?? e.execution.task.name;
@@ -559,7 +589,6 @@ export class ProjectPanelProvider implements vscode.TreeDataProvider<TreeNode> {
                         if (!folder) {
                             return;
                         }
-                        this.watchBuildPluginOutputs(folder);
                         treeView.title = `Swift Project (${folder.name})`;
                         this.didChangeTreeDataEmitter.fire();
                         break;
@@ -574,6 +603,12 @@ export class ProjectPanelProvider implements vscode.TreeDataProvider<TreeNode> {
                         if (!folder) {
                             return;
                         }
+                        if (
+                            operation === FolderOperation.workspaceStateUpdated ||
+                            operation === FolderOperation.resolvedUpdated
+                        ) {
+                            this.dependencyUpdates.delete(folder);
+                        }
                         if (folder === this.workspaceContext.currentFolder) {
                             this.didChangeTreeDataEmitter.fire();
                         }
@@ -582,33 +617,6 @@ export class ProjectPanelProvider implements vscode.TreeDataProvider<TreeNode> {
         );
     }
 
-    watchBuildPluginOutputs(folderContext: FolderContext) {
-        if (this.buildPluginOutputWatcher) {
-            this.buildPluginOutputWatcher.dispose();
-        }
-        if (this.buildPluginFolderWatcher) {
-            this.buildPluginFolderWatcher.dispose();
-        }
-
-        const fire = () => this.didChangeTreeDataEmitter.fire();
-        const buildPath = path.join(folderContext.folder.fsPath, ".build/plugins/outputs");
-        this.buildPluginFolderWatcher = watchForFolder(
-            buildPath,
-            () => {
-                this.buildPluginOutputWatcher = vscode.workspace.createFileSystemWatcher(
-                    new vscode.RelativePattern(buildPath, "{*,*/*}")
-                );
-                this.buildPluginOutputWatcher.onDidCreate(fire);
-                this.buildPluginOutputWatcher.onDidDelete(fire);
-                this.buildPluginOutputWatcher.onDidChange(fire);
-            },
-            () => {
-                this.buildPluginOutputWatcher?.dispose();
-                fire();
-            }
-        );
-    }
-
     getTreeItem(element: TreeNode): vscode.TreeItem {
         return element.toTreeItem();
     }
@@ -687,6 +695,15 @@ export class ProjectPanelProvider implements vscode.TreeDataProvider<TreeNode> {
         }
         const pkg = folderContext.swiftPackage;
         const rootDeps = await pkg.rootDependencies;
+        let updatesPromise = this.dependencyUpdates.get(folderContext);
+        if (!updatesPromise) {
+            updatesPromise = checkDependencyUpdates(
+                folderContext.folder.fsPath,
+                pkg.resolved?.pins ?? []
+            );
+            this.dependencyUpdates.set(folderContext, updatesPromise);
+        }
+        const updates = await updatesPromise;
         if (this.workspaceContext.contextKeys.flatDependenciesList) {
             const existenceMap = new Map<string, boolean>();
             const gatherChildren = (dependencies: ResolvedDependency[]): ResolvedDependency[] => {
@@ -703,10 +720,14 @@ export class ProjectPanelProvider implements vscode.TreeDataProvider<TreeNode> {
             };
 
             const allDeps = gatherChildren(rootDeps);
-            return allDeps.map(dependency => new PackageNode(dependency, () => []));
+            return allDeps.map(
+                dependency => new PackageNode(dependency, () => [], undefined, undefined, updates)
+            );
         } else {
             const childDeps = pkg.childDependencies.bind(pkg);
-            return rootDeps.map(dep => new PackageNode(dep, childDeps));
+            return rootDeps.map(
+                dep => new PackageNode(dep, childDeps, undefined, undefined, updates)
+            );
         }
     }
 
@@ -828,35 +849,3 @@ class TaskPoller implements vscode.Disposable {
         }
     }
 }
-
-/**
- * Polls for the existence of a folder at the given path every 2.5 seconds.
- * Notifies via the provided callbacks when the folder becomes available or is deleted.
- */
-function watchForFolder(
-    folderPath: string,
-    onAvailable: () => void,
-    onDeleted: () => void
-): vscode.Disposable {
-    const POLL_INTERVAL = 2500;
-    let folderExists = existsSync(folderPath);
-
-    if (folderExists) {
-        onAvailable();
-    }
-
-    const interval = setInterval(() => {
-        const nowExists = existsSync(folderPath);
-        if (nowExists && !folderExists) {
-            folderExists = true;
-            onAvailable();
-        } else if (!nowExists && folderExists) {
-            folderExists = false;
-            onDeleted();
-        }
-    }, POLL_INTERVAL);
-
-    return {
-        dispose: () => clearInterval(interval),
-    };
-}
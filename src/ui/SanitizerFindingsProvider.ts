@@ -0,0 +1,191 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import {
+    SanitizerFinding,
+    SanitizerStack,
+    SanitizerStackFrame,
+    frameRange,
+} from "../SanitizerFindings";
+import { WorkspaceContext } from "../WorkspaceContext";
+
+/** Returns a command that opens the location of a stack frame. */
+function openFrameCommand(frame: SanitizerStackFrame): vscode.Command | undefined {
+    if (!frame.file) {
+        return undefined;
+    }
+    return {
+        command: "vscode.open",
+        arguments: [vscode.Uri.file(frame.file), { selection: frameRange(frame) }],
+        title: "Open File",
+    };
+}
+
+function frameLocation(frame: SanitizerStackFrame): string | undefined {
+    return frame.file ? `${path.basename(frame.file)}:${frame.line}` : undefined;
+}
+
+/** An issue reported by a sanitizer. */
+class FindingNode {
+    constructor(
+        private finding: SanitizerFinding,
+        private workspaceContext: WorkspaceContext
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { report, count, origin } = this.finding;
+        const item = new vscode.TreeItem(report.kind, vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = `sanitizerFinding:${this.finding.key}`;
+        const frame = this.workspaceContext.sanitizerFindings.primaryFrame(this.finding);
+        const location = frame && frameLocation(frame);
+        item.description = [location, count > 1 ? `×${count}` : undefined]
+            .filter(part => part)
+            .join(" · ");
+        item.tooltip = `${report.message}\nReported ${count === 1 ? "once" : `${count} times`}, last by ${origin}`;
+        item.iconPath =
+            report.tool === "AddressSanitizer" || report.tool === "LeakSanitizer"
+                ? new vscode.ThemeIcon(
+                      "error",
+                      new vscode.ThemeColor("problemsErrorIcon.foreground")
+                  )
+                : new vscode.ThemeIcon(
+                      "warning",
+                      new vscode.ThemeColor("problemsWarningIcon.foreground")
+                  );
+        item.contextValue = "sanitizerFinding";
+        item.command = frame && openFrameCommand(frame);
+        return item;
+    }
+
+    getChildren(): TreeNode[] {
+        const stacks = this.finding.report.stacks;
+        if (stacks.length === 1 && !stacks[0].title) {
+            return stacks[0].frames.map(frame => new FrameNode(this.finding.key, frame));
+        }
+        return stacks.map((stack, index) => new StackNode(this.finding.key, index, stack));
+    }
+}
+
+/** A stack trace of a sanitizer report, such as where the memory was allocated. */
+class StackNode {
+    constructor(
+        private key: string,
+        private index: number,
+        private stack: SanitizerStack
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            this.stack.title || "Stack",
+            this.index === 0
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `sanitizerFinding:${this.key}:${this.index}`;
+        item.iconPath = new vscode.ThemeIcon("call-incoming");
+        return item;
+    }
+
+    getChildren(): TreeNode[] {
+        return this.stack.frames.map(frame => new FrameNode(`${this.key}:${this.index}`, frame));
+    }
+}
+
+/** A frame of a stack trace, which opens its location when it has one. */
+class FrameNode {
+    constructor(
+        private key: string,
+        private frame: SanitizerStackFrame
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            `#${this.frame.index} ${this.frame.symbol}`,
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.id = `sanitizerFinding:${this.key}:#${this.frame.index}`;
+        item.description = frameLocation(this.frame);
+        item.tooltip = this.frame.file
+            ? `${this.frame.symbol}\n${this.frame.file}:${this.frame.line}`
+            : this.frame.symbol;
+        item.iconPath = new vscode.ThemeIcon(this.frame.file ? "debug-stackframe" : "circle-small");
+        item.command = openFrameCommand(this.frame);
+        return item;
+    }
+
+    getChildren(): TreeNode[] {
+        return [];
+    }
+}
+
+type TreeNode = FindingNode | StackNode | FrameNode;
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that lists the issues sanitizers
+ * reported while running, testing and debugging, with their stack traces.
+ */
+export class SanitizerFindingsProvider
+    implements vscode.TreeDataProvider<TreeNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        TreeNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<TreeNode>;
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(workspaceContext.sanitizerFindings.onDidChange(() => this.refresh()));
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows the number of findings in the tree view */
+    observeTreeView(treeView: vscode.TreeView<TreeNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    refresh() {
+        if (this.treeView) {
+            const count = this.workspaceContext.sanitizerFindings.findings.length;
+            this.treeView.description =
+                count > 0 ? `${count} finding${count === 1 ? "" : "s"}` : undefined;
+            this.treeView.message =
+                count === 0
+                    ? "No sanitizer findings. Run, test or debug with a sanitizer enabled in the Swift: Sanitizer setting to find memory errors and data races."
+                    : undefined;
+        }
+        this.didChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: TreeNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: TreeNode): TreeNode[] {
+        if (element) {
+            return element.getChildren();
+        }
+        return this.workspaceContext.sanitizerFindings.findings.map(
+            finding => new FindingNode(finding, this.workspaceContext)
+        );
+    }
+}
@@ -0,0 +1,179 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as vscode from "vscode";
+
+import { FolderContext } from "../FolderContext";
+import { SlowTest } from "../TestExplorer/TestHistory";
+import { flattenTestItemCollection } from "../TestExplorer/TestUtils";
+import { FolderOperation, WorkspaceContext } from "../WorkspaceContext";
+import { formatDuration } from "./BuildTimelineProvider";
+
+/** The number of tests listed in the Slowest Tests view, along with any that got slower */
+const slowestTestCount = 25;
+
+const sparklineBlocks = "▁▂▃▄▅▆▇█";
+
+/** Draws values as a sparkline of block characters, such as `▁▃▂█`. */
+export function sparkline(values: number[]): string {
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min;
+    return values
+        .map(value => {
+            const level = range > 0 ? (value - min) / range : 0;
+            return sparklineBlocks[Math.round(level * (sparklineBlocks.length - 1))];
+        })
+        .join("");
+}
+
+/** Formats the duration of a test, such as `45ms` or `1.2s`. */
+export function formatTestDuration(milliseconds: number): string {
+    return milliseconds < 1000 ? `${Math.round(milliseconds)}ms` : formatDuration(milliseconds);
+}
+
+/** A test in the Slowest Tests view, which opens the test when it has a location. */
+class SlowTestNode {
+    constructor(
+        private test: SlowTest,
+        private testItem: vscode.TestItem | undefined
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { testId, durations, median, isRegression } = this.test;
+        const latest = durations[durations.length - 1];
+        const item = new vscode.TreeItem(
+            this.testItem?.label ?? testId,
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.id = `slowestTests:${testId}`;
+        const change =
+            isRegression && median !== undefined
+                ? `+${Math.round(((latest - median) / median) * 100)}% on median`
+                : undefined;
+        item.description = [formatTestDuration(latest), sparkline(durations), change]
+            .filter(part => part)
+            .join(" · ");
+        item.tooltip = [
+            testId,
+            `Latest: ${formatTestDuration(latest)}`,
+            median !== undefined ? `Median of earlier runs: ${formatTestDuration(median)}` : "",
+            `Runs: ${durations.map(formatTestDuration).join(", ")}`,
+        ]
+            .filter(line => line)
+            .join("\n");
+        item.iconPath = isRegression
+            ? new vscode.ThemeIcon(
+                  "warning",
+                  new vscode.ThemeColor("problemsWarningIcon.foreground")
+              )
+            : new vscode.ThemeIcon("watch");
+        if (this.testItem?.uri) {
+            item.command = {
+                command: "vscode.open",
+                arguments: [this.testItem.uri, { selection: this.testItem.range }],
+                title: "Open Test",
+            };
+        }
+        return item;
+    }
+}
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that lists the tests of the
+ * current folder that took longest in their latest run, with the trend of their durations.
+ * Tests that took much longer than the median of their earlier runs are flagged.
+ */
+export class SlowestTestsProvider
+    implements vscode.TreeDataProvider<SlowTestNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        SlowTestNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<SlowTestNode>;
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(
+            workspaceContext.testHistory.onDidChange(folderPath => {
+                if (folderPath === workspaceContext.currentFolder?.folder.fsPath) {
+                    this.refresh();
+                }
+            }),
+            workspaceContext.onDidChangeFolders(({ operation }) => {
+                if (operation === FolderOperation.focus || operation === FolderOperation.unfocus) {
+                    this.refresh();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration("swift.testDurationRegressionThreshold")) {
+                    this.refresh();
+                }
+            })
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows the number of slower tests, or a message until test durations are recorded */
+    observeTreeView(treeView: vscode.TreeView<SlowTestNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    refresh() {
+        if (this.treeView) {
+            const folderContext = this.workspaceContext.currentFolder;
+            const tests = folderContext ? this.slowestTests(folderContext) : [];
+            const regressions = tests.filter(test => test.isRegression).length;
+            this.treeView.description =
+                regressions > 0 ? `${regressions} slower than usual` : undefined;
+            this.treeView.message =
+                folderContext && tests.length === 0
+                    ? "Run tests to record how long they take."
+                    : undefined;
+        }
+        this.didChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: SlowTestNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: SlowTestNode): SlowTestNode[] {
+        const folderContext = this.workspaceContext.currentFolder;
+        if (element || !folderContext) {
+            return [];
+        }
+        const controller = folderContext.testExplorer?.controller;
+        const testItems = new Map(
+            (controller ? flattenTestItemCollection(controller.items) : []).map(item => [
+                item.id,
+                item,
+            ])
+        );
+        return this.slowestTests(folderContext).map(
+            test => new SlowTestNode(test, testItems.get(test.testId))
+        );
+    }
+
+    private slowestTests(folderContext: FolderContext): SlowTest[] {
+        return this.workspaceContext.testHistory
+            .slowestTests(folderContext.folder.fsPath)
+            .filter((test, index) => index < slowestTestCount || test.isRegression);
+    }
+}
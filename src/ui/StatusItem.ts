@@ -24,6 +24,15 @@ export class RunningTask {
     }
 }
 
+/**
+ * A problem shown in the {@link StatusItem} while no tasks are running.
+ */
+export interface StatusFlag {
+    message: string;
+    tooltip: string;
+    command?: string;
+}
+
 /**
  * Manages a {@link vscode.StatusBarItem StatusBarItem} to display the status
  * of tasks run by this extension.
@@ -31,6 +40,7 @@ export class RunningTask {
 export class StatusItem {
     private item: vscode.StatusBarItem;
     private runningTasks: RunningTask[] = [];
+    private flagged?: StatusFlag;
 
     constructor() {
         this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
@@ -102,6 +112,17 @@ export class StatusItem {
         }
     }
 
+    /**
+     * Flags a problem in the {@link vscode.StatusBarItem StatusBarItem}, or clears
+     * the flag if `undefined` is passed. The flag is shown whenever no tasks are running.
+     */
+    flag(flag: StatusFlag | undefined) {
+        this.flagged = flag;
+        if (this.runningTasks.length === 0) {
+            this.hide();
+        }
+    }
+
     /**
      * Show status item for task
      * @param task task to show status item for
@@ -126,14 +147,24 @@ export class StatusItem {
         this.item.text = message;
         this.item.accessibilityInformation = { label: accessibilityMessage ?? message };
         this.item.command = command;
+        this.item.tooltip = undefined;
+        this.item.backgroundColor = undefined;
         this.item.show();
     }
 
     /**
-     * Hides the {@link vscode.StatusBarItem StatusBarItem}.
+     * Hides the {@link vscode.StatusBarItem StatusBarItem}, or shows the flagged
+     * problem if there is one.
      */
     private hide() {
-        this.item.hide();
+        if (this.flagged) {
+            const { message, tooltip, command } = this.flagged;
+            this.show(`$(warning) ${message}`, tooltip, command);
+            this.item.tooltip = tooltip;
+            this.item.backgroundColor = new vscode.ThemeColor("statusBarItem.warningBackground");
+        } else {
+            this.item.hide();
+        }
     }
 
     dispose() {
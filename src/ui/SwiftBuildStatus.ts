@@ -15,21 +15,12 @@ import * as vscode from "vscode";
 
 import configuration, { ShowBuildStatusOptions } from "../configuration";
 import { SwiftExecution } from "../tasks/SwiftExecution";
-import { checkIfBuildComplete, lineBreakRegex } from "../utilities/tasks";
+import { checkIfBuildComplete, findBuildProgress, lineBreakRegex } from "../utilities/tasks";
 import { RunningTask, StatusItem } from "./StatusItem";
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 import stripAnsi = require("strip-ansi");
 
-/**
- * Progress of `swift` build, parsed from the
- * output, ex. `[6/7] Building main.swift`
- */
-interface SwiftProgress {
-    completed: number;
-    total: number;
-}
-
 /**
  * This class will handle detecting and updating the status
  * bar message as the `swift` process executes.
@@ -128,7 +119,7 @@ export class SwiftBuildStatus implements vscode.Disposable {
                     update(name);
                     return !isBuildTask;
                 }
-                const progress = this.findBuildProgress(line);
+                const progress = findBuildProgress(line);
                 if (progress) {
                     update(`${name}: [${progress.completed}/${progress.total}]`);
                     started = true;
@@ -161,12 +152,4 @@ export class SwiftBuildStatus implements vscode.Disposable {
         const fetchRegex = /^Fetching\s/gm;
         return !!fetchRegex.exec(line);
     }
-
-    private findBuildProgress(line: string): SwiftProgress | undefined {
-        const buildingRegex = /^\[(\d+)\/(\d+)\]/g;
-        const match = buildingRegex.exec(line);
-        if (match) {
-            return { completed: parseInt(match[1]), total: parseInt(match[2]) };
-        }
-    }
 }
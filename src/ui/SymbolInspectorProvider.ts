@@ -0,0 +1,324 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+import { LSPErrorCodes, ResponseError } from "vscode-languageclient";
+
+import { FolderContext } from "../FolderContext";
+import { WorkspaceContext } from "../WorkspaceContext";
+import { SymbolDetails, SymbolInfoRequest } from "../sourcekit-lsp/extensions";
+import { isPathInsidePath } from "../utilities/filesystem";
+import { getErrorDescription } from "../utilities/utilities";
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import throttle = require("lodash.throttle");
+
+/** The languages SourceKit-LSP can provide symbol information for. */
+const inspectableLanguages = ["swift", "c", "cpp", "objective-c", "objective-cpp"];
+
+/** The symbol details returned by SourceKit-LSP, with its locations converted for VS Code. */
+export interface InspectedSymbol {
+    details: SymbolDetails;
+    declaration?: vscode.Location;
+    /** The module of the declaration, if it is in a target of the package. */
+    module?: string;
+}
+
+/** A property of a symbol as a label, the value that is copied and where it jumps to, if anywhere. */
+export interface SymbolProperty {
+    label: string;
+    value: string;
+    location?: vscode.Location;
+}
+
+/**
+ * Returns the name of an LSP `SymbolKind`, which is numbered from 1 rather than
+ * from 0 like {@link vscode.SymbolKind}.
+ */
+function symbolKindName(kind: number): string | undefined {
+    return vscode.SymbolKind[kind - 1];
+}
+
+/**
+ * Lists the properties of a symbol shown in the Symbol Inspector, in the order they are shown.
+ */
+export function symbolProperties(symbol: InspectedSymbol, folder?: vscode.Uri): SymbolProperty[] {
+    const { details, declaration } = symbol;
+    const yesNo = (value: boolean) => (value ? "Yes" : "No");
+    const properties: SymbolProperty[] = [];
+    if (details.usr) {
+        properties.push({ label: "USR", value: details.usr });
+    }
+    const kind = details.kind !== undefined ? symbolKindName(details.kind) : undefined;
+    if (kind) {
+        properties.push({ label: "Kind", value: kind });
+    }
+    if (details.systemModule) {
+        const { moduleName, groupName } = details.systemModule;
+        properties.push({
+            label: "Module",
+            value: groupName ? `${moduleName}.${groupName}` : moduleName,
+        });
+    } else if (symbol.module) {
+        properties.push({ label: "Module", value: symbol.module });
+    }
+    if (details.isSystem !== undefined) {
+        properties.push({ label: "System", value: yesNo(details.isSystem) });
+    }
+    if (details.isDynamic !== undefined) {
+        properties.push({ label: "Dynamic", value: yesNo(details.isDynamic) });
+    }
+    for (const usr of details.receiverUsrs ?? []) {
+        properties.push({ label: "Receiver USR", value: usr });
+    }
+    if (declaration) {
+        let file = declaration.uri.toString();
+        if (declaration.uri.scheme === "file") {
+            file = folder
+                ? path.relative(folder.fsPath, declaration.uri.fsPath)
+                : declaration.uri.fsPath;
+        }
+        const { line, character } = declaration.range.start;
+        properties.push({
+            label: "Declaration",
+            value: `${file}:${line + 1}:${character + 1}`,
+            location: declaration,
+        });
+    }
+    return properties;
+}
+
+/**
+ * A property of a symbol in the Symbol Inspector {@link vscode.TreeView TreeView}.
+ */
+export class SymbolPropertyNode {
+    constructor(public readonly property: SymbolProperty) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { label, value, location } = this.property;
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        item.description = value;
+        item.tooltip = `${label}: ${value}`;
+        item.contextValue = location ? "symbolLocation" : "symbolProperty";
+        item.accessibilityInformation = { label: `${label}: ${value}` };
+        item.command = location
+            ? {
+                  command: "vscode.open",
+                  arguments: [location.uri, { selection: location.range }],
+                  title: "Go to Declaration",
+              }
+            : {
+                  command: "swift.copySymbolInspectorValue",
+                  arguments: [this],
+                  title: "Copy",
+              };
+        return item;
+    }
+
+    getChildren(): SymbolInspectorNode[] {
+        return [];
+    }
+}
+
+/**
+ * A symbol under the cursor in the Symbol Inspector {@link vscode.TreeView TreeView}.
+ */
+class SymbolNode {
+    constructor(
+        private symbol: InspectedSymbol,
+        private folder?: vscode.Uri
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const { name, containerName, kind } = this.symbol.details;
+        const item = new vscode.TreeItem(
+            name ?? "Unnamed Symbol",
+            vscode.TreeItemCollapsibleState.Expanded
+        );
+        item.description = containerName;
+        const kindName = kind !== undefined ? symbolKindName(kind) : undefined;
+        if (kindName) {
+            item.iconPath = new vscode.ThemeIcon(
+                `symbol-${kindName.replace(/([a-z])([A-Z])/g, "$1-$2").toLowerCase()}`
+            );
+        }
+        return item;
+    }
+
+    getChildren(): SymbolInspectorNode[] {
+        return symbolProperties(this.symbol, this.folder).map(
+            property => new SymbolPropertyNode(property)
+        );
+    }
+}
+
+/**
+ * A node in the Symbol Inspector {@link vscode.TreeView TreeView}.
+ */
+export type SymbolInspectorNode = SymbolNode | SymbolPropertyNode;
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that shows the result of the
+ * `textDocument/symbolInfo` request for the symbol under the cursor, so the USR and
+ * location SourceKit-LSP resolves a symbol to can be checked when debugging indexing.
+ */
+export class SymbolInspectorProvider
+    implements vscode.TreeDataProvider<SymbolInspectorNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        SymbolInspectorNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<SymbolInspectorNode>;
+    private symbols: InspectedSymbol[] = [];
+    private folder?: vscode.Uri;
+    private request = 0;
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(
+            this.didChangeTreeDataEmitter,
+            { dispose: () => this.inspect.cancel() },
+            vscode.window.onDidChangeTextEditorSelection(event => {
+                if (event.textEditor === vscode.window.activeTextEditor) {
+                    void this.inspect(event.textEditor);
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(editor => void this.inspect(editor))
+        );
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Inspects the symbol under the cursor whenever the tree view becomes visible */
+    observeTreeView(treeView: vscode.TreeView<SymbolInspectorNode>) {
+        this.treeView = treeView;
+        this.disposables.push(
+            treeView.onDidChangeVisibility(({ visible }) => {
+                if (visible) {
+                    void this.inspect(vscode.window.activeTextEditor);
+                }
+            })
+        );
+        void this.inspect(vscode.window.activeTextEditor);
+    }
+
+    getTreeItem(element: SymbolInspectorNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: SymbolInspectorNode): SymbolInspectorNode[] {
+        if (element) {
+            return element.getChildren();
+        }
+        return this.symbols.map(symbol => new SymbolNode(symbol, this.folder));
+    }
+
+    private inspect = throttle(
+        async (editor: vscode.TextEditor | undefined): Promise<void> => {
+            if (!this.treeView?.visible) {
+                return;
+            }
+            const request = ++this.request;
+            const update = (symbols: InspectedSymbol[], message?: string, folder?: vscode.Uri) => {
+                if (request !== this.request) {
+                    return;
+                }
+                this.symbols = symbols;
+                this.folder = folder;
+                if (this.treeView) {
+                    this.treeView.message = message;
+                }
+                this.didChangeTreeDataEmitter.fire();
+            };
+
+            const document = editor?.document;
+            if (!editor || !document || document.uri.scheme !== "file") {
+                return update([], "Place the cursor on a symbol in a Swift file.");
+            }
+            const folderContext = this.workspaceContext.folders.find(folderContext =>
+                isPathInsidePath(document.uri.fsPath, folderContext.folder.fsPath)
+            );
+            if (!folderContext || !inspectableLanguages.includes(document.languageId)) {
+                return update([], "Place the cursor on a symbol in a Swift file.");
+            }
+            try {
+                const symbols = await this.symbolInfo(
+                    folderContext,
+                    document,
+                    editor.selection.active
+                );
+                update(
+                    symbols,
+                    symbols.length === 0 ? "There is no symbol under the cursor." : undefined,
+                    folderContext.folder
+                );
+            } catch (error) {
+                if (
+                    error instanceof ResponseError &&
+                    error.code === LSPErrorCodes.RequestCancelled
+                ) {
+                    return;
+                }
+                const message = getErrorDescription(error);
+                this.workspaceContext.logger.error(
+                    `SourceKit-LSP request "${SymbolInfoRequest.method}" failed: ${message}`
+                );
+                update([], `Unable to inspect the symbol: ${message}`);
+            }
+        },
+        100 /* 10 times per second */,
+        { trailing: true }
+    );
+
+    private async symbolInfo(
+        folderContext: FolderContext,
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<InspectedSymbol[]> {
+        const languageClientManager =
+            this.workspaceContext.languageClientManager.get(folderContext);
+        const symbols = await languageClientManager.useLanguageClient(async (client, token) => {
+            const details = await client.sendRequest(
+                SymbolInfoRequest.type,
+                {
+                    textDocument: client.code2ProtocolConverter.asTextDocumentIdentifier(document),
+                    position: client.code2ProtocolConverter.asPosition(position),
+                },
+                token
+            );
+            return details.map(details => ({
+                details,
+                declaration: details.bestLocalDeclaration
+                    ? client.protocol2CodeConverter.asLocation(details.bestLocalDeclaration)
+                    : undefined,
+            }));
+        });
+        return Promise.all(
+            symbols.map(async (symbol): Promise<InspectedSymbol> => {
+                if (!symbol.declaration || symbol.declaration.uri.scheme !== "file") {
+                    return symbol;
+                }
+                const target = await folderContext.swiftPackage.getTarget(
+                    symbol.declaration.uri.fsPath
+                );
+                return { ...symbol, module: target?.c99name };
+            })
+        );
+    }
+}
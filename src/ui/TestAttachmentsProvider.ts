@@ -0,0 +1,167 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import * as path from "path";
+import * as vscode from "vscode";
+
+import {
+    TestAttachmentKind,
+    TestAttachmentRun,
+    TestAttachments,
+    attachmentKind,
+} from "../TestExplorer/TestAttachments";
+import { WorkspaceContext } from "../WorkspaceContext";
+
+const attachmentIcons: { [kind in TestAttachmentKind]: string } = {
+    image: "file-media",
+    json: "json",
+    text: "file-text",
+    other: "file",
+};
+
+/** A test run that recorded attachments. */
+class RunNode {
+    constructor(
+        private run: TestAttachmentRun,
+        private index: number
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(
+            `${this.run.name} at ${new Date(this.run.started).toLocaleTimeString()}`,
+            this.index === 0
+                ? vscode.TreeItemCollapsibleState.Expanded
+                : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `testAttachments:${this.run.started}`;
+        const count = this.run.tests.reduce((acc, test) => acc + test.attachments.length, 0);
+        item.description = `${this.run.folder} · ${count} attachment${count === 1 ? "" : "s"}`;
+        item.iconPath = new vscode.ThemeIcon("beaker");
+        return item;
+    }
+
+    getChildren(): TreeNode[] {
+        return this.run.tests.map(test => new TestNode(this.run, test));
+    }
+}
+
+/** A test that recorded attachments, which opens the test when it has a location. */
+class TestNode {
+    constructor(
+        private run: TestAttachmentRun,
+        private test: TestAttachments
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const item = new vscode.TreeItem(this.test.label, vscode.TreeItemCollapsibleState.Expanded);
+        item.id = `testAttachments:${this.run.started}:${this.test.testId}`;
+        item.tooltip = this.test.testId;
+        item.iconPath = new vscode.ThemeIcon("symbol-method");
+        if (this.test.uri) {
+            item.command = {
+                command: "vscode.open",
+                arguments: [this.test.uri],
+                title: "Open Test",
+            };
+        }
+        return item;
+    }
+
+    getChildren(): TreeNode[] {
+        return this.test.attachments.map(
+            attachment => new AttachmentNode(`${this.run.started}:${this.test.testId}`, attachment)
+        );
+    }
+}
+
+/** An attachment file, which opens in an editor or image preview. */
+class AttachmentNode {
+    constructor(
+        private key: string,
+        private attachment: string
+    ) {}
+
+    toTreeItem(): vscode.TreeItem {
+        const uri = vscode.Uri.file(this.attachment);
+        const item = new vscode.TreeItem(
+            path.basename(this.attachment),
+            vscode.TreeItemCollapsibleState.None
+        );
+        item.id = `testAttachments:${this.key}:${this.attachment}`;
+        item.resourceUri = uri;
+        item.tooltip = this.attachment;
+        item.iconPath = new vscode.ThemeIcon(attachmentIcons[attachmentKind(this.attachment)]);
+        item.command = { command: "vscode.open", arguments: [uri], title: "Open Attachment" };
+        return item;
+    }
+
+    getChildren(): TreeNode[] {
+        return [];
+    }
+}
+
+type TreeNode = RunNode | TestNode | AttachmentNode;
+
+/**
+ * A {@link vscode.TreeDataProvider<T> TreeDataProvider} that lists the attachments
+ * swift-testing tests recorded in the latest test runs, grouped by run and test.
+ */
+export class TestAttachmentsProvider
+    implements vscode.TreeDataProvider<TreeNode>, vscode.Disposable
+{
+    private didChangeTreeDataEmitter = new vscode.EventEmitter<
+        TreeNode | undefined | null | void
+    >();
+    private disposables: vscode.Disposable[] = [];
+    private treeView?: vscode.TreeView<TreeNode>;
+
+    onDidChangeTreeData = this.didChangeTreeDataEmitter.event;
+
+    constructor(private workspaceContext: WorkspaceContext) {
+        this.disposables.push(workspaceContext.testAttachments.onDidChange(() => this.refresh()));
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    /** Shows a message in the tree view when no test run recorded attachments */
+    observeTreeView(treeView: vscode.TreeView<TreeNode>) {
+        this.treeView = treeView;
+        this.refresh();
+    }
+
+    refresh() {
+        if (this.treeView) {
+            this.treeView.message =
+                this.workspaceContext.testAttachments.runs.length === 0
+                    ? "No attachments. Attachments recorded by swift-testing tests with Attachment.record() are listed here after the test run."
+                    : undefined;
+        }
+        this.didChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(element: TreeNode): vscode.TreeItem {
+        return element.toTreeItem();
+    }
+
+    getChildren(element?: TreeNode): TreeNode[] {
+        if (element) {
+            return element.getChildren();
+        }
+        return this.workspaceContext.testAttachments.runs.map(
+            (run, index) => new RunNode(run, index)
+        );
+    }
+}
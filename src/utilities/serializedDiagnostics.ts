@@ -0,0 +1,432 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+
+/**
+ * Severity of a serialized diagnostic, matching the values used by
+ * `clang::serialized_diags::Level`.
+ */
+export enum SerializedDiagnosticSeverity {
+    ignored = 0,
+    note = 1,
+    warning = 2,
+    error = 3,
+    fatal = 4,
+    remark = 5,
+}
+
+/** A 1-based location within a source file. */
+export interface SerializedLocation {
+    file: string;
+    line: number;
+    column: number;
+}
+
+/** A range within a source file, where `end` is exclusive. */
+export interface SerializedRange {
+    start: SerializedLocation;
+    end: SerializedLocation;
+}
+
+/** A compiler suggested replacement of a range of source with new text. */
+export interface SerializedFixIt {
+    range: SerializedRange;
+    text: string;
+}
+
+export interface SerializedDiagnostic {
+    severity: SerializedDiagnosticSeverity;
+    location?: SerializedLocation;
+    message: string;
+    category?: string;
+    flag?: string;
+    ranges: SerializedRange[];
+    fixIts: SerializedFixIt[];
+    notes: SerializedDiagnostic[];
+}
+
+// Abbreviation IDs that are defined by the LLVM bitstream format
+const END_BLOCK = 0;
+const ENTER_SUBBLOCK = 1;
+const DEFINE_ABBREV = 2;
+const UNABBREV_RECORD = 3;
+
+const BLOCKINFO_BLOCK_ID = 0;
+const BLOCKINFO_CODE_SETBID = 1;
+
+// Block and record IDs used by serialized diagnostics
+const BLOCK_DIAG = 9;
+const RECORD_DIAG = 2;
+const RECORD_SOURCE_RANGE = 3;
+const RECORD_DIAG_FLAG = 4;
+const RECORD_CATEGORY = 5;
+const RECORD_FILENAME = 6;
+const RECORD_FIXIT = 7;
+
+type AbbrevOp =
+    | { kind: "literal"; value: number }
+    | { kind: "fixed" | "vbr"; width: number }
+    | { kind: "array" | "char6" | "blob" };
+
+interface BitstreamRecord {
+    code: number;
+    fields: number[];
+    blob?: string;
+}
+
+/**
+ * Reads the primitives of the LLVM bitstream container format.
+ *
+ * @see https://llvm.org/docs/BitCodeFormat.html
+ */
+class BitstreamReader {
+    private bitOffset = 0;
+
+    constructor(private readonly data: Uint8Array) {}
+
+    get atEnd(): boolean {
+        return this.bitOffset >= this.data.length * 8;
+    }
+
+    read(width: number): number {
+        let result = 0;
+        for (let i = 0; i < width; i++) {
+            const byte = this.data[this.bitOffset >> 3];
+            if (byte === undefined) {
+                throw new Error("Unexpected end of serialized diagnostics");
+            }
+            // Use multiplication rather than shifts so values wider than 31 bits are preserved
+            result += ((byte >> (this.bitOffset & 7)) & 1) * 2 ** i;
+            this.bitOffset++;
+        }
+        return result;
+    }
+
+    readVBR(width: number): number {
+        const continuation = 2 ** (width - 1);
+        let result = 0;
+        let shift = 0;
+        for (;;) {
+            const piece = this.read(width);
+            result += (piece % continuation) * 2 ** shift;
+            if (piece < continuation) {
+                return result;
+            }
+            shift += width - 1;
+        }
+    }
+
+    readBytes(length: number): Uint8Array {
+        const start = this.bitOffset >> 3;
+        if (start + length > this.data.length) {
+            throw new Error("Unexpected end of serialized diagnostics");
+        }
+        this.bitOffset += length * 8;
+        return this.data.subarray(start, start + length);
+    }
+
+    skip(bits: number) {
+        this.bitOffset += bits;
+    }
+
+    alignTo32Bits() {
+        this.bitOffset = Math.ceil(this.bitOffset / 32) * 32;
+    }
+}
+
+/**
+ * Parses the contents of a `.dia` file written by `swiftc` or `clang` when
+ * passed `-serialize-diagnostics`. Notes are nested within the diagnostic
+ * they belong to.
+ *
+ * @param data The contents of the `.dia` file
+ * @throws If the data is not a valid serialized diagnostics file
+ */
+export function parseSerializedDiagnostics(data: Uint8Array): SerializedDiagnostic[] {
+    return new SerializedDiagnosticsParser(data).parse();
+}
+
+class SerializedDiagnosticsParser {
+    private reader: BitstreamReader;
+    private blockInfoAbbrevs = new Map<number, AbbrevOp[][]>();
+    private files = new Map<number, string>();
+    private categories = new Map<number, string>();
+    private flags = new Map<number, string>();
+
+    constructor(data: Uint8Array) {
+        this.reader = new BitstreamReader(data);
+    }
+
+    parse(): SerializedDiagnostic[] {
+        const magic = String.fromCharCode(...this.reader.readBytes(4));
+        if (magic !== "DIAG") {
+            throw new Error("Not a serialized diagnostics file");
+        }
+        const diagnostics: SerializedDiagnostic[] = [];
+        // The top level of a bitstream only contains blocks, using an abbreviation width of 2
+        while (!this.reader.atEnd) {
+            const abbrevId = this.reader.read(2);
+            if (abbrevId !== ENTER_SUBBLOCK) {
+                throw new Error(`Unexpected abbreviation ${abbrevId} at the top level`);
+            }
+            const diagnostic = this.readSubblock();
+            if (diagnostic) {
+                diagnostics.push(diagnostic);
+            }
+        }
+        return diagnostics;
+    }
+
+    private readSubblock(): SerializedDiagnostic | undefined {
+        const blockId = this.reader.readVBR(8);
+        const abbrevWidth = this.reader.readVBR(4);
+        this.reader.alignTo32Bits();
+        const lengthInWords = this.reader.read(32);
+        switch (blockId) {
+            case BLOCKINFO_BLOCK_ID:
+                this.readBlockInfo(abbrevWidth);
+                return undefined;
+            case BLOCK_DIAG:
+                return this.readDiagnostic(abbrevWidth);
+            default:
+                this.reader.skip(lengthInWords * 32);
+                return undefined;
+        }
+    }
+
+    private readBlockInfo(abbrevWidth: number) {
+        let currentBlockId: number | undefined;
+        for (;;) {
+            const abbrevId = this.reader.read(abbrevWidth);
+            switch (abbrevId) {
+                case END_BLOCK:
+                    this.reader.alignTo32Bits();
+                    return;
+                case ENTER_SUBBLOCK:
+                    this.readSubblock();
+                    break;
+                case DEFINE_ABBREV: {
+                    const abbrev = this.readAbbrevDefinition();
+                    if (currentBlockId !== undefined) {
+                        const abbrevs = this.blockInfoAbbrevs.get(currentBlockId) ?? [];
+                        this.blockInfoAbbrevs.set(currentBlockId, [...abbrevs, abbrev]);
+                    }
+                    break;
+                }
+                case UNABBREV_RECORD: {
+                    const record = this.readUnabbreviatedRecord();
+                    if (record.code === BLOCKINFO_CODE_SETBID) {
+                        currentBlockId = record.fields[0];
+                    }
+                    break;
+                }
+                default:
+                    throw new Error(`Unexpected abbreviation ${abbrevId} in block info`);
+            }
+        }
+    }
+
+    private readDiagnostic(abbrevWidth: number): SerializedDiagnostic | undefined {
+        const abbrevs = [...(this.blockInfoAbbrevs.get(BLOCK_DIAG) ?? [])];
+        const diagnostic: SerializedDiagnostic = {
+            severity: SerializedDiagnosticSeverity.ignored,
+            message: "",
+            ranges: [],
+            fixIts: [],
+            notes: [],
+        };
+        let hasDiagnosticRecord = false;
+        for (;;) {
+            const abbrevId = this.reader.read(abbrevWidth);
+            let record: BitstreamRecord;
+            switch (abbrevId) {
+                case END_BLOCK:
+                    this.reader.alignTo32Bits();
+                    return hasDiagnosticRecord ? diagnostic : undefined;
+                case ENTER_SUBBLOCK: {
+                    const note = this.readSubblock();
+                    if (note) {
+                        diagnostic.notes.push(note);
+                    }
+                    continue;
+                }
+                case DEFINE_ABBREV:
+                    abbrevs.push(this.readAbbrevDefinition());
+                    continue;
+                case UNABBREV_RECORD:
+                    record = this.readUnabbreviatedRecord();
+                    break;
+                default: {
+                    const abbrev = abbrevs[abbrevId - 4];
+                    if (!abbrev) {
+                        throw new Error(`Undefined abbreviation ${abbrevId}`);
+                    }
+                    record = this.readAbbreviatedRecord(abbrev);
+                    break;
+                }
+            }
+
+            const fields = record.fields;
+            switch (record.code) {
+                case RECORD_DIAG:
+                    // [severity, location (4 fields), category, flag, message length, message]
+                    hasDiagnosticRecord = true;
+                    diagnostic.severity = fields[0];
+                    diagnostic.location = this.location(fields, 1);
+                    diagnostic.category = this.categories.get(fields[5]);
+                    diagnostic.flag = this.flags.get(fields[6]);
+                    diagnostic.message = this.text(record, 8);
+                    break;
+                case RECORD_SOURCE_RANGE: {
+                    // [start location (4 fields), end location (4 fields)]
+                    const range = this.range(fields, 0);
+                    if (range) {
+                        diagnostic.ranges.push(range);
+                    }
+                    break;
+                }
+                case RECORD_FIXIT: {
+                    // [start location (4 fields), end location (4 fields), text length, text]
+                    const range = this.range(fields, 0);
+                    if (range) {
+                        diagnostic.fixIts.push({ range, text: this.text(record, 9) });
+                    }
+                    break;
+                }
+                case RECORD_FILENAME:
+                    // [file ID, size, modification time, name length, name]
+                    this.files.set(fields[0], this.text(record, 4));
+                    break;
+                case RECORD_CATEGORY:
+                    // [category ID, name length, name]
+                    this.categories.set(fields[0], this.text(record, 2));
+                    break;
+                case RECORD_DIAG_FLAG:
+                    // [flag ID, name length, name]
+                    this.flags.set(fields[0], this.text(record, 2));
+                    break;
+                default:
+                    // Ignore records that were added in newer compilers
+                    break;
+            }
+        }
+    }
+
+    private location(fields: number[], index: number): SerializedLocation | undefined {
+        const file = this.files.get(fields[index]);
+        if (!file) {
+            return undefined;
+        }
+        return { file, line: fields[index + 1], column: fields[index + 2] };
+    }
+
+    private range(fields: number[], index: number): SerializedRange | undefined {
+        const start = this.location(fields, index);
+        const end = this.location(fields, index + 4);
+        return start && end ? { start, end } : undefined;
+    }
+
+    /**
+     * Strings are stored in a blob when the record is abbreviated, otherwise
+     * each character is stored as a field following the string's length.
+     */
+    private text(record: BitstreamRecord, index: number): string {
+        if (record.blob !== undefined) {
+            return record.blob;
+        }
+        return Buffer.from(record.fields.slice(index)).toString("utf8");
+    }
+
+    private readAbbrevDefinition(): AbbrevOp[] {
+        const ops: AbbrevOp[] = [];
+        const count = this.reader.readVBR(5);
+        for (let i = 0; i < count; i++) {
+            if (this.reader.read(1) === 1) {
+                ops.push({ kind: "literal", value: this.reader.readVBR(8) });
+                continue;
+            }
+            const encoding = this.reader.read(3);
+            switch (encoding) {
+                case 1:
+                    ops.push({ kind: "fixed", width: this.reader.readVBR(5) });
+                    break;
+                case 2:
+                    ops.push({ kind: "vbr", width: this.reader.readVBR(5) });
+                    break;
+                case 3:
+                    ops.push({ kind: "array" });
+                    break;
+                case 4:
+                    ops.push({ kind: "char6" });
+                    break;
+                case 5:
+                    ops.push({ kind: "blob" });
+                    break;
+                default:
+                    throw new Error(`Unknown abbreviation encoding ${encoding}`);
+            }
+        }
+        return ops;
+    }
+
+    private readUnabbreviatedRecord(): BitstreamRecord {
+        const code = this.reader.readVBR(6);
+        const count = this.reader.readVBR(6);
+        const fields: number[] = [];
+        for (let i = 0; i < count; i++) {
+            fields.push(this.reader.readVBR(6));
+        }
+        return { code, fields };
+    }
+
+    private readAbbreviatedRecord(abbrev: AbbrevOp[]): BitstreamRecord {
+        const values: number[] = [];
+        let blob: string | undefined;
+        for (let i = 0; i < abbrev.length; i++) {
+            const op = abbrev[i];
+            if (op.kind === "array") {
+                const elementOp = abbrev[++i];
+                const length = this.reader.readVBR(6);
+                for (let j = 0; j < length; j++) {
+                    values.push(this.readScalar(elementOp));
+                }
+            } else if (op.kind === "blob") {
+                const length = this.reader.readVBR(6);
+                this.reader.alignTo32Bits();
+                blob = Buffer.from(this.reader.readBytes(length)).toString("utf8");
+                this.reader.alignTo32Bits();
+            } else {
+                values.push(this.readScalar(op));
+            }
+        }
+        const [code, ...fields] = values;
+        return { code, fields, blob };
+    }
+
+    private readScalar(op: AbbrevOp | undefined): number {
+        switch (op?.kind) {
+            case "literal":
+                return op.value;
+            case "fixed":
+                return this.reader.read(op.width);
+            case "vbr":
+                return this.reader.readVBR(op.width);
+            case "char6":
+                return "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789._".charCodeAt(
+                    this.reader.read(6)
+                );
+            default:
+                throw new Error("Invalid abbreviation operand");
+        }
+    }
+}
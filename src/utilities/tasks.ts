@@ -71,6 +71,29 @@ export function checkIfBuildComplete(line: string): boolean {
     return false;
 }
 
+/**
+ * Progress of a `swift` build, parsed from a line of its output such as
+ * `[6/7] Compiling MyLibrary main.swift`.
+ */
+export interface SwiftBuildProgress {
+    completed: number;
+    total: number;
+    /** The step that was started, such as `Compiling MyLibrary main.swift`. */
+    description: string;
+}
+
+export function findBuildProgress(line: string): SwiftBuildProgress | undefined {
+    const buildingRegex = /^\[(\d+)\/(\d+)\]\s*(.*)$/;
+    const match = buildingRegex.exec(line);
+    if (match) {
+        return {
+            completed: parseInt(match[1]),
+            total: parseInt(match[2]),
+            description: match[3].trim(),
+        };
+    }
+}
+
 export function packageName(folderContext: FolderContext): string | undefined {
     if (vscode.workspace.workspaceFile) {
         return folderContext.name;
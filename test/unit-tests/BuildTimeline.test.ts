@@ -0,0 +1,144 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+
+import {
+    BuildRecorder,
+    BuildStep,
+    moduleOfStep,
+    moduleTimings,
+    slowestSteps,
+} from "@src/BuildTimeline";
+
+suite("BuildTimeline Unit Test Suite", () => {
+    test("finds the module of a step", () => {
+        expect(moduleOfStep("Compiling MyLibrary main.swift, util.swift")).to.equal("MyLibrary");
+        expect(moduleOfStep("Compiling plugin GeneratePlugin")).to.equal("GeneratePlugin");
+        expect(moduleOfStep("Emitting module MyLibrary")).to.equal("MyLibrary");
+        expect(moduleOfStep("Linking ./.build/debug/MyExecutable")).to.equal("MyExecutable");
+        expect(moduleOfStep("Write swift-version--58304C5D6DBC2206.txt")).to.be.undefined;
+    });
+
+    suite("BuildRecorder", () => {
+        test("times each step until the next step starts", () => {
+            const recorder = new BuildRecorder("swift: Build All", 1000);
+            recorder.write("Building for debugging...\n", 1000);
+            recorder.write("[1/3] Compiling MyLib", 1100);
+            recorder.write(
+                "rary a.swift\n\u001b[1m[2/3] Emitting module MyLibrary\u001b[0m\n",
+                1500
+            );
+            recorder.write("[3/3] Linking MyExecutable\r", 2500);
+            recorder.write("[3/3] Linking MyExecutable\r", 2600);
+            recorder.write("Build complete! (2.00s)\n", 3000);
+            const build = recorder.finish(3000, true);
+            const compileStep = {
+                description: "Compiling MyLibrary a.swift",
+                module: "MyLibrary",
+                start: 500,
+                duration: 0,
+            };
+            const emitModuleStep = {
+                description: "Emitting module MyLibrary",
+                module: "MyLibrary",
+                start: 500,
+                duration: 1000,
+            };
+            const linkStep = {
+                description: "Linking MyExecutable",
+                module: "MyExecutable",
+                start: 1500,
+                duration: 500,
+            };
+            expect(build).to.deep.equal({
+                task: "swift: Build All",
+                time: 1000,
+                duration: 2000,
+                succeeded: true,
+                stepCount: 3,
+                modules: [
+                    {
+                        module: "MyLibrary",
+                        start: 500,
+                        end: 1500,
+                        stepCount: 2,
+                        slowestSteps: [emitModuleStep, compileStep],
+                    },
+                    {
+                        module: "MyExecutable",
+                        start: 1500,
+                        end: 2000,
+                        stepCount: 1,
+                        slowestSteps: [linkStep],
+                    },
+                ],
+                slowestSteps: [emitModuleStep, linkStep, compileStep],
+            });
+        });
+
+        test("ignores tasks without build steps", () => {
+            const recorder = new BuildRecorder("swift: Run", 0);
+            recorder.write("Hello, world!\n", 10);
+            expect(recorder.finish(20, true)).to.be.undefined;
+        });
+    });
+
+    suite("moduleTimings", () => {
+        const steps: BuildStep[] = [
+            { description: "Planning build", start: 0, duration: 1000 },
+            { description: "Compiling B b.swift", module: "B", start: 1000, duration: 4000 },
+            { description: "Compiling A a.swift", module: "A", start: 5000, duration: 1000 },
+            { description: "Emitting module B", module: "B", start: 6000, duration: 3000 },
+            { description: "Linking A", module: "A", start: 9000, duration: 1000 },
+        ];
+
+        test("groups steps by module in the order they started", () => {
+            expect(
+                moduleTimings(steps).map(({ module, start, end, stepCount }) => ({
+                    module,
+                    start,
+                    end,
+                    stepCount,
+                }))
+            ).to.deep.equal([
+                { module: "B", start: 1000, end: 9000, stepCount: 2 },
+                { module: "A", start: 5000, end: 10000, stepCount: 2 },
+            ]);
+        });
+
+        test("lists the slowest steps first", () => {
+            expect(slowestSteps(steps).map(step => step.description)).to.deep.equal([
+                "Compiling B b.swift",
+                "Emitting module B",
+                "Planning build",
+                "Compiling A a.swift",
+                "Linking A",
+            ]);
+        });
+
+        test("only keeps the slowest steps", () => {
+            const manySteps = Array.from({ length: 20 }, (_, i) => ({
+                description: `Compiling A file${i}.swift`,
+                module: "A",
+                start: i * 100,
+                duration: i,
+            }));
+            const [timing] = moduleTimings(manySteps);
+            expect(timing.stepCount).to.equal(20);
+            expect(timing.slowestSteps.map(step => step.duration)).to.deep.equal([
+                19, 18, 17, 16, 15,
+            ]);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import {
+    HotspotKind,
+    HotspotSortOrder,
+    compileTimeAnalysisArgs,
+    isCompileTimeAnalysis,
+    parseHotspot,
+    sortHotspots,
+} from "@src/CompileTimeHotspots";
+
+suite("CompileTimeHotspots Unit Test Suite", () => {
+    const warning = (message: string, line = 0) =>
+        new vscode.Diagnostic(
+            new vscode.Range(line, 4, line, 10),
+            message,
+            vscode.DiagnosticSeverity.Warning
+        );
+
+    test("recognizes compile-time analysis builds", () => {
+        const args = compileTimeAnalysisArgs("/pkg", "MyLibrary", 150);
+        expect(args).to.include.members([
+            "--target",
+            "MyLibrary",
+            "--scratch-path",
+            path.join("/pkg", ".build", "hotspots"),
+            "-warn-long-function-bodies=150",
+            "-warn-long-expression-type-checking=150",
+        ]);
+        expect(isCompileTimeAnalysis(args)).to.be.true;
+        expect(isCompileTimeAnalysis(["build", "--target", "MyLibrary"])).to.be.false;
+    });
+
+    suite("parseHotspot", () => {
+        test("parses slow function bodies", () => {
+            const diagnostic = warning(
+                "Instance method 'layout()' took 312ms to type-check (limit: 100ms)"
+            );
+            expect(parseHotspot("/pkg/a.swift", diagnostic)).to.deep.equal({
+                kind: HotspotKind.function,
+                name: "Instance method 'layout()'",
+                duration: 312,
+                file: "/pkg/a.swift",
+                range: diagnostic.range,
+            });
+        });
+
+        test("parses slow expressions", () => {
+            const hotspot = parseHotspot(
+                "/pkg/a.swift",
+                warning("Expression took 1200ms to type-check (limit: 100ms)")
+            );
+            expect(hotspot?.kind).to.equal(HotspotKind.expression);
+            expect(hotspot?.duration).to.equal(1200);
+        });
+
+        test("ignores other diagnostics", () => {
+            expect(parseHotspot("/pkg/a.swift", warning("Variable 'x' was never used"))).to.be
+                .undefined;
+        });
+    });
+
+    test("sorts hotspots slowest first or by location", () => {
+        const hotspots = [
+            parseHotspot(
+                "/pkg/b.swift",
+                warning("Expression took 200ms to type-check (limit: 100ms)", 3)
+            ),
+            parseHotspot(
+                "/pkg/a.swift",
+                warning("Expression took 150ms to type-check (limit: 100ms)", 9)
+            ),
+            parseHotspot(
+                "/pkg/a.swift",
+                warning("Expression took 400ms to type-check (limit: 100ms)", 2)
+            ),
+        ].map(hotspot => hotspot!);
+        expect(
+            sortHotspots(hotspots, HotspotSortOrder.duration).map(h => h.duration)
+        ).to.deep.equal([400, 200, 150]);
+        expect(
+            sortHotspots(hotspots, HotspotSortOrder.location).map(h => h.range.start.line)
+        ).to.deep.equal([2, 9, 3]);
+    });
+});
@@ -0,0 +1,132 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as mockFS from "mock-fs";
+import * as path from "path";
+
+import {
+    UpdateKind,
+    checkDependencyUpdates,
+    isUpdateComplete,
+    latestRelease,
+    parseReleaseTag,
+    readTags,
+} from "@src/DependencyUpdateAdvisor";
+import { PackageResolvedPin } from "@src/SwiftPackage";
+
+suite("DependencyUpdateAdvisor Unit Test Suite", () => {
+    suite("parseReleaseTag", () => {
+        test("parses release versions", () => {
+            expect(parseReleaseTag("1.2.3")?.toString()).to.equal("1.2.3");
+            expect(parseReleaseTag("v2.0")?.toString()).to.equal("2.0.0");
+        });
+
+        test("ignores pre-releases and other tags", () => {
+            expect(parseReleaseTag("1.2.3-beta.1")).to.be.undefined;
+            expect(parseReleaseTag("swift-6.0-RELEASE")).to.be.undefined;
+        });
+    });
+
+    suite("latestRelease", () => {
+        test("returns undefined when the pin is up to date", () => {
+            expect(latestRelease("1.2.3", ["1.0.0", "1.2.3", "1.3.0-beta"])).to.be.undefined;
+        });
+
+        test("reports patch, minor and major updates", () => {
+            expect(latestRelease("1.2.3", ["1.2.4"])).to.deep.equal({
+                latest: "1.2.4",
+                kind: UpdateKind.patch,
+            });
+            expect(latestRelease("1.2.3", ["1.2.4", "1.3.0"])).to.deep.equal({
+                latest: "1.3.0",
+                kind: UpdateKind.minor,
+            });
+            expect(latestRelease("1.2.3", ["1.3.0", "v2.0.0"])).to.deep.equal({
+                latest: "v2.0.0",
+                kind: UpdateKind.major,
+            });
+        });
+    });
+
+    test("checks whether an update reached the latest release", () => {
+        const update = {
+            identity: "swift-log",
+            current: "1.4.0",
+            latest: "v2.1.0",
+            kind: UpdateKind.major,
+        };
+        expect(isUpdateComplete("2.1.0", update)).to.be.true;
+        expect(isUpdateComplete("1.6.2", update)).to.be.false;
+        expect(isUpdateComplete("1.4.0", update)).to.be.false;
+    });
+
+    suite("repositories", () => {
+        const repositories = path.normalize("/pkg/.build/repositories");
+        const collectionsConfig = `[core]
+\tbare = true
+[remote "origin"]
+\turl = https://github.com/apple/swift-collections.git
+\tfetch = +refs/*:refs/*
+\tmirror = true
+`;
+
+        setup(() => {
+            mockFS({
+                [repositories]: {
+                    "swift-collections-1a2b3c4d": {
+                        config: collectionsConfig,
+                        "packed-refs": [
+                            "# pack-refs with: peeled fully-peeled sorted",
+                            "1111111111111111111111111111111111111111 refs/heads/main",
+                            "2222222222222222222222222222222222222222 refs/tags/1.1.0",
+                            "3333333333333333333333333333333333333333 refs/tags/1.1.4",
+                        ].join("\n"),
+                        refs: { tags: { "1.2.0": "4444444444444444444444444444444444444444" } },
+                    },
+                },
+            });
+        });
+
+        teardown(() => {
+            mockFS.restore();
+        });
+
+        test("reads tags from packed and loose refs", async () => {
+            const tags = await readTags(path.join(repositories, "swift-collections-1a2b3c4d"));
+            expect(tags.sort()).to.deep.equal(["1.1.0", "1.1.4", "1.2.0"]);
+        });
+
+        test("compares pins with the tags of their repository", async () => {
+            const pin = (identity: string, location: string, version: string | null) =>
+                new PackageResolvedPin(identity, location, {
+                    branch: version ? null : "main",
+                    revision: "1111111111111111111111111111111111111111",
+                    version,
+                });
+            const updates = await checkDependencyUpdates(path.normalize("/pkg"), [
+                pin("swift-collections", "https://github.com/apple/swift-collections", "1.1.0"),
+                pin("swift-algorithms", "https://github.com/apple/swift-algorithms", "1.0.0"),
+                pin("swift-numerics", "https://github.com/apple/swift-numerics", null),
+            ]);
+            expect([...updates.values()]).to.deep.equal([
+                {
+                    identity: "swift-collections",
+                    current: "1.1.0",
+                    latest: "1.2.0",
+                    kind: UpdateKind.minor,
+                },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,126 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as path from "path";
+import * as vscode from "vscode";
+
+import {
+    BuildWarnings,
+    DiagnosticHistory,
+    WarningStatus,
+    buildWarnings,
+    classifyWarnings,
+} from "@src/DiagnosticHistory";
+
+suite("DiagnosticHistory Unit Test Suite", () => {
+    function build(time: number, ...messages: [file: string, line: number, message: string][]) {
+        return {
+            time,
+            warnings: messages.map(([file, line, message]) => ({ file, line, message })),
+        } as BuildWarnings;
+    }
+
+    suite("classifyWarnings", () => {
+        test("treats the warnings of the first build as long-standing", () => {
+            const result = classifyWarnings([build(1, ["a.swift", 1, "Unused"])]);
+            expect(result.map(w => w.status)).to.deep.equal([WarningStatus.longStanding]);
+        });
+
+        test("compares the latest build with the one before it", () => {
+            const result = classifyWarnings([
+                build(1, ["a.swift", 1, "Unused"], ["b.swift", 2, "Deprecated"]),
+                build(2, ["a.swift", 4, "Unused"], ["c.swift", 3, "Never mutated"]),
+            ]);
+            expect(result.map(w => [w.file, w.line, w.status])).to.deep.equal([
+                ["a.swift", 4, WarningStatus.longStanding],
+                ["c.swift", 3, WarningStatus.new],
+                ["b.swift", 2, WarningStatus.fixed],
+            ]);
+        });
+
+        test("counts repeated warnings in the same file", () => {
+            const result = classifyWarnings([
+                build(1, ["a.swift", 1, "Unused"]),
+                build(2, ["a.swift", 1, "Unused"], ["a.swift", 5, "Unused"]),
+            ]);
+            expect(result.map(w => w.status)).to.deep.equal([
+                WarningStatus.longStanding,
+                WarningStatus.new,
+            ]);
+        });
+
+        test("reports when a long-standing warning was first seen", () => {
+            const result = classifyWarnings([
+                build(1),
+                build(2, ["a.swift", 1, "Unused"]),
+                build(3, ["a.swift", 1, "Unused"]),
+                build(4, ["a.swift", 1, "Unused"]),
+            ]);
+            expect(result[0].firstSeen).to.equal(2);
+        });
+    });
+
+    suite("buildWarnings", () => {
+        test("records warnings relative to the folder", () => {
+            const folder = vscode.Uri.file("/pkg").fsPath;
+            const file = vscode.Uri.file("/pkg/Sources/main.swift").fsPath;
+            const warning = new vscode.Diagnostic(
+                new vscode.Range(2, 4, 2, 8),
+                "Unused",
+                vscode.DiagnosticSeverity.Warning
+            );
+            const error = new vscode.Diagnostic(
+                new vscode.Range(5, 0, 5, 1),
+                "Cannot find 'x' in scope",
+                vscode.DiagnosticSeverity.Error
+            );
+
+            const result = buildWarnings(
+                { folder, args: ["build"], diagnostics: new Map([[file, [warning, error]]]) },
+                10
+            );
+            expect(result.warnings).to.deep.equal([
+                { file: path.join("Sources", "main.swift"), line: 3, message: "Unused" },
+            ]);
+        });
+    });
+
+    suite("DiagnosticHistory", () => {
+        function memento(): vscode.Memento {
+            const values = new Map<string, unknown>();
+            return {
+                keys: () => [...values.keys()],
+                get: <T>(key: string, defaultValue?: T) =>
+                    (values.has(key) ? values.get(key) : defaultValue) as T,
+                update: async (key: string, value: unknown) => {
+                    values.set(key, value);
+                },
+            };
+        }
+
+        test("keeps a rolling history of builds", async () => {
+            const history = new DiagnosticHistory(memento());
+            for (let i = 0; i < DiagnosticHistory.maxBuilds + 2; i++) {
+                await history.record(
+                    { folder: "/pkg", args: ["build"], diagnostics: new Map() },
+                    i
+                );
+            }
+            const builds = history.builds("/pkg");
+            expect(builds).to.have.lengthOf(DiagnosticHistory.maxBuilds);
+            expect(builds[0].time).to.equal(2);
+            expect(history.builds("/other")).to.be.empty;
+        });
+    });
+});
@@ -0,0 +1,88 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as mockFS from "mock-fs";
+
+import {
+    GeneratedSourceChange,
+    compareGenerations,
+    parsePluginOutput,
+} from "@src/GeneratedSources";
+import { Version } from "@src/utilities/version";
+
+suite("GeneratedSources Unit Test Suite", () => {
+    teardown(() => {
+        mockFS.restore();
+    });
+
+    suite("parsePluginOutput", () => {
+        test("parses the plugin output layout of Swift 6", () => {
+            expect(
+                parsePluginOutput(
+                    "mypackage/MyTarget/destination/ProtobufPlugin",
+                    new Version(6, 0, 0)
+                )
+            ).to.deep.equal({
+                package: "mypackage",
+                target: "MyTarget",
+                plugin: "ProtobufPlugin",
+                folder: "mypackage/MyTarget/destination/ProtobufPlugin",
+            });
+        });
+
+        test("parses the plugin output layout before Swift 6", () => {
+            expect(
+                parsePluginOutput("mypackage\\MyTarget\\ProtobufPlugin", new Version(5, 10, 0))
+            ).to.deep.equal({
+                package: "mypackage",
+                target: "MyTarget",
+                plugin: "ProtobufPlugin",
+                folder: "mypackage/MyTarget/ProtobufPlugin",
+            });
+        });
+
+        test("ignores other folders", () => {
+            expect(parsePluginOutput("mypackage/MyTarget", new Version(6, 0, 0))).to.be.undefined;
+        });
+    });
+
+    suite("compareGenerations", () => {
+        test("finds added, modified and removed sources", async () => {
+            mockFS({
+                "/previous/pkg/Target/destination/Plugin": {
+                    "Same.swift": "struct Same {}",
+                    "Modified.swift": "struct Modified {}",
+                    "Removed.swift": "struct Removed {}",
+                },
+                "/current/pkg/Target/destination/Plugin": {
+                    "Same.swift": "struct Same {}",
+                    "Modified.swift": "struct Modified { var value: Int }",
+                    "Nested/Added.swift": "struct Added {}",
+                },
+            });
+            expect(await compareGenerations("/previous", "/current")).to.deep.equal({
+                "pkg/Target/destination/Plugin/Modified.swift": GeneratedSourceChange.modified,
+                "pkg/Target/destination/Plugin/Nested/Added.swift": GeneratedSourceChange.added,
+                "pkg/Target/destination/Plugin/Removed.swift": GeneratedSourceChange.removed,
+            });
+        });
+
+        test("treats every source as added without a previous generation", async () => {
+            mockFS({ "/current/pkg/Target/Plugin/Generated.swift": "" });
+            expect(await compareGenerations("/previous", "/current")).to.deep.equal({
+                "pkg/Target/Plugin/Generated.swift": GeneratedSourceChange.added,
+            });
+        });
+    });
+});
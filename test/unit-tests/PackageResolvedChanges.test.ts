@@ -0,0 +1,81 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+
+import { PinChangeKind, comparePackageResolved } from "@src/PackageResolvedChanges";
+import { PackageResolved, PackageResolvedPinState } from "@src/SwiftPackage";
+
+suite("PackageResolvedChanges Unit Test Suite", () => {
+    function resolved(pins: { [identity: string]: Partial<PackageResolvedPinState> }) {
+        return new PackageResolved(
+            JSON.stringify({
+                version: 2,
+                pins: Object.entries(pins).map(([identity, state]) => ({
+                    identity,
+                    kind: "remoteSourceControl",
+                    location: `https://github.com/example/${identity}.git`,
+                    state: { branch: null, version: null, ...state },
+                })),
+            })
+        );
+    }
+
+    test("ignores pins that did not change", () => {
+        const pins = { collections: { revision: "aaa", version: "1.0.0" } };
+        expect(comparePackageResolved(resolved(pins), resolved(pins))).to.be.empty;
+    });
+
+    test("lists added, removed, upgraded and downgraded pins", () => {
+        const changes = comparePackageResolved(
+            resolved({
+                algorithms: { revision: "aaa", version: "1.0.0" },
+                collections: { revision: "bbb", version: "1.1.0" },
+                numerics: { revision: "ccc", version: "1.0.2" },
+            }),
+            resolved({
+                algorithms: { revision: "ddd", version: "1.2.0" },
+                collections: { revision: "eee", version: "1.0.4" },
+                syntax: { revision: "fff", version: "600.0.0" },
+            })
+        );
+        expect(changes.map(change => [change.identity, change.kind])).to.deep.equal([
+            ["collections", PinChangeKind.downgraded],
+            ["algorithms", PinChangeKind.upgraded],
+            ["syntax", PinChangeKind.added],
+            ["numerics", PinChangeKind.removed],
+        ]);
+        expect(changes[0].previous?.revision).to.equal("bbb");
+        expect(changes[0].current?.revision).to.equal("eee");
+        expect(changes[0].warnings).to.deep.equal(["Downgraded from 1.1.0 to 1.0.4"]);
+        expect(changes[1].warnings).to.be.empty;
+    });
+
+    test("warns about pins to a branch", () => {
+        const changes = comparePackageResolved(
+            resolved({ collections: { revision: "aaa", version: "1.1.0" } }),
+            resolved({ collections: { revision: "bbb", branch: "main" } })
+        );
+        expect(changes).to.have.lengthOf(1);
+        expect(changes[0].kind).to.equal(PinChangeKind.changed);
+        expect(changes[0].warnings).to.deep.equal(['Pinned to branch "main"']);
+    });
+
+    test("treats every pin as added when there was no Package.resolved", () => {
+        const changes = comparePackageResolved(
+            undefined,
+            resolved({ collections: { revision: "aaa", version: "1.1.0" } })
+        );
+        expect(changes.map(change => change.kind)).to.deep.equal([PinChangeKind.added]);
+    });
+});
@@ -0,0 +1,215 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+
+import {
+    SanitizerReportParser,
+    parseStackFrame,
+    reportMentionsTest,
+    sanitizerFindingKey,
+} from "@src/SanitizerFindings";
+
+suite("SanitizerFindings Unit Test Suite", () => {
+    const addressSanitizerReport = [
+        "=================================================================",
+        "==4242==ERROR: AddressSanitizer: heap-use-after-free on address 0x602000000010 at pc 0x55d3 bp 0x7ffd sp 0x7ffc",
+        "READ of size 8 at 0x602000000010 thread T0",
+        "    #0 0x55d3 in Cache.value(for:) /home/user/App/Sources/App/Cache.swift:12:20",
+        "    #1 0x55e4 in main /home/user/App/Sources/App/main.swift:4:1",
+        "    #2 0x7f12 in __libc_start_main (/lib/x86_64-linux-gnu/libc.so.6+0x29d90)",
+        "",
+        "0x602000000010 is located 0 bytes inside of 16-byte region [0x602000000010,0x602000000020)",
+        "freed by thread T0 here:",
+        "    #0 0x4a1b in free (/home/user/App/.build/debug/App+0x4a1b)",
+        "    #1 0x55c2 in Cache.clear() /home/user/App/Sources/App/Cache.swift:20:9",
+        "",
+        "SUMMARY: AddressSanitizer: heap-use-after-free /home/user/App/Sources/App/Cache.swift:12:20 in Cache.value(for:)",
+        "Shadow bytes around the buggy address:",
+        "==4242==ABORTING",
+    ];
+
+    const threadSanitizerReport = [
+        "==================",
+        "WARNING: ThreadSanitizer: Swift access race (pid=977)",
+        "  Modifying access of Swift variable at 0x7b0800000010 by thread T2:",
+        "    #0 closure #1 in Counter.increment() Counter.swift:8 (CounterTests:arm64+0x1e3c)",
+        "",
+        "  Previous modifying access of Swift variable at 0x7b0800000010 by thread T1:",
+        "    #0 closure #1 in Counter.increment() Counter.swift:8 (CounterTests:arm64+0x1e3c)",
+        "",
+        "SUMMARY: ThreadSanitizer: Swift access race Counter.swift:8 in closure #1 in Counter.increment()",
+        "==================",
+    ];
+
+    suite("parseStackFrame", () => {
+        test("parses symbolized frames", () => {
+            expect(
+                parseStackFrame("    #1 0x55e4 in main /home/user/App/Sources/App/main.swift:4:1")
+            ).to.deep.equal({
+                index: 1,
+                symbol: "main",
+                file: "/home/user/App/Sources/App/main.swift",
+                line: 4,
+                column: 1,
+            });
+            expect(
+                parseStackFrame(
+                    "    #0 closure #1 in Counter.increment() Counter.swift:8 (CounterTests:arm64+0x1e3c)"
+                )
+            ).to.deep.equal({
+                index: 0,
+                symbol: "closure #1 in Counter.increment()",
+                file: "Counter.swift",
+                line: 8,
+                column: undefined,
+            });
+        });
+
+        test("parses frames without a location", () => {
+            expect(
+                parseStackFrame("    #2 0x7f12 in __libc_start_main (/lib/libc.so.6+0x29d90)")
+            ).to.deep.equal({ index: 2, symbol: "__libc_start_main" });
+        });
+
+        test("ignores other lines", () => {
+            expect(parseStackFrame("READ of size 8 at 0x602000000010 thread T0")).to.be.undefined;
+        });
+    });
+
+    suite("SanitizerReportParser", () => {
+        test("parses AddressSanitizer reports", () => {
+            const reports = new SanitizerReportParser().append(
+                addressSanitizerReport.join("\n") + "\n"
+            );
+            expect(reports).to.have.lengthOf(1);
+            expect(reports[0]).to.deep.include({
+                tool: "AddressSanitizer",
+                kind: "heap-use-after-free",
+                message:
+                    "AddressSanitizer: heap-use-after-free on address 0x602000000010 at pc 0x55d3 bp 0x7ffd sp 0x7ffc",
+            });
+            expect(reports[0].stacks.map(stack => stack.title)).to.deep.equal([
+                "",
+                "freed by thread T0 here",
+            ]);
+            expect(reports[0].stacks[0].frames.map(frame => frame.symbol)).to.deep.equal([
+                "Cache.value(for:)",
+                "main",
+                "__libc_start_main",
+            ]);
+        });
+
+        test("parses ThreadSanitizer reports written in chunks", () => {
+            const parser = new SanitizerReportParser();
+            const output = threadSanitizerReport.join("\r\n");
+            const reports = [
+                ...parser.append(output.substring(0, 100)),
+                ...parser.append(output.substring(100)),
+                ...parser.end(),
+            ];
+            expect(reports).to.have.lengthOf(1);
+            expect(reports[0]).to.deep.include({
+                tool: "ThreadSanitizer",
+                kind: "Swift access race",
+                message: "ThreadSanitizer: Swift access race",
+            });
+            expect(reports[0].stacks.map(stack => stack.title)).to.deep.equal([
+                "Modifying access of Swift variable at 0x7b0800000010 by thread T2",
+                "Previous modifying access of Swift variable at 0x7b0800000010 by thread T1",
+            ]);
+        });
+
+        test("parses UBSan runtime errors", () => {
+            const reports = new SanitizerReportParser().append(
+                "\x1b[1m/src/shim.c:7:12: runtime error: signed integer overflow: 2147483647 + 1 cannot be represented in type 'int'\x1b[0m\n"
+            );
+            expect(reports).to.deep.equal([
+                {
+                    tool: "UndefinedBehaviorSanitizer",
+                    kind: "signed integer overflow",
+                    message:
+                        "runtime error: signed integer overflow: 2147483647 + 1 cannot be represented in type 'int'",
+                    stacks: [
+                        {
+                            title: "",
+                            frames: [
+                                { index: 0, symbol: "", file: "/src/shim.c", line: 7, column: 12 },
+                            ],
+                        },
+                    ],
+                },
+            ]);
+        });
+
+        test("returns the report a crash ended in the middle of", () => {
+            const parser = new SanitizerReportParser();
+            expect(parser.append(addressSanitizerReport.slice(0, 5).join("\n"))).to.be.empty;
+            const reports = parser.end();
+            expect(reports).to.have.lengthOf(1);
+            expect(reports[0].stacks[0].frames).to.have.lengthOf(2);
+        });
+    });
+
+    test("identifies repeated reports of the same issue", () => {
+        const parse = (lines: string[]) =>
+            new SanitizerReportParser().append(lines.join("\n") + "\n")[0];
+        const report = parse(addressSanitizerReport);
+        const repeated = parse(
+            addressSanitizerReport.map(line =>
+                line.replace("4242", "5151").replace(/0x602000000010/g, "0x602000000090")
+            )
+        );
+        const other = parse(threadSanitizerReport);
+        expect(sanitizerFindingKey(repeated)).to.equal(sanitizerFindingKey(report));
+        expect(sanitizerFindingKey(other)).to.not.equal(sanitizerFindingKey(report));
+    });
+
+    suite("reportMentionsTest", () => {
+        const report = (...symbols: string[]) => ({
+            tool: "ThreadSanitizer",
+            kind: "data race",
+            message: "ThreadSanitizer: data race",
+            stacks: [{ title: "", frames: symbols.map((symbol, index) => ({ index, symbol })) }],
+        });
+
+        test("links XCTest tests", () => {
+            const testId = "CounterTests.CounterTests/testIncrement";
+            expect(
+                reportMentionsTest(
+                    report("closure #1 in CounterTests.CounterTests.testIncrement() -> ()"),
+                    testId
+                )
+            ).to.be.true;
+            expect(reportMentionsTest(report("CounterTests.testIncrement()"), testId)).to.be.true;
+            expect(reportMentionsTest(report("CounterTests.testIncrementTwice()"), testId)).to.be
+                .false;
+            expect(reportMentionsTest(report("OtherTests.testIncrement()"), testId)).to.be.false;
+        });
+
+        test("links swift-testing tests", () => {
+            expect(
+                reportMentionsTest(
+                    report("Counter.increment()", "CounterTests.Suite.concurrent(count:)"),
+                    "CounterTests.Suite/concurrent(count:)"
+                )
+            ).to.be.true;
+            expect(
+                reportMentionsTest(
+                    report("CounterTests.freeFunction()"),
+                    "CounterTests.freeFunction()/Tests.swift:12:2"
+                )
+            ).to.be.true;
+        });
+    });
+});
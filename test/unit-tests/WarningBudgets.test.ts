@@ -0,0 +1,90 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as vscode from "vscode";
+
+import { Target } from "@src/SwiftPackage";
+import { checkWarningBudgets, countWarningsByTarget } from "@src/WarningBudgets";
+
+suite("WarningBudgets Unit Test Suite", () => {
+    suite("countWarningsByTarget", () => {
+        function diagnostic(severity: vscode.DiagnosticSeverity) {
+            return new vscode.Diagnostic(new vscode.Range(0, 0, 0, 1), "message", severity);
+        }
+
+        test("counts the warnings of each target", async () => {
+            const targets: { [file: string]: string } = {
+                "/pkg/Sources/Library/a.swift": "Library",
+                "/pkg/Sources/Library/b.swift": "Library",
+                "/pkg/Sources/Tool/main.swift": "Tool",
+            };
+            const counts = await countWarningsByTarget(
+                {
+                    folder: "/pkg",
+                    args: ["build"],
+                    diagnostics: new Map([
+                        [
+                            "/pkg/Sources/Library/a.swift",
+                            [
+                                diagnostic(vscode.DiagnosticSeverity.Warning),
+                                diagnostic(vscode.DiagnosticSeverity.Error),
+                            ],
+                        ],
+                        [
+                            "/pkg/Sources/Library/b.swift",
+                            [diagnostic(vscode.DiagnosticSeverity.Warning)],
+                        ],
+                        [
+                            "/pkg/Sources/Tool/main.swift",
+                            [diagnostic(vscode.DiagnosticSeverity.Error)],
+                        ],
+                        ["/pkg/Other.swift", [diagnostic(vscode.DiagnosticSeverity.Warning)]],
+                    ]),
+                },
+                {
+                    getTarget: async (file: string) =>
+                        targets[file] ? ({ name: targets[file] } as Target) : undefined,
+                }
+            );
+            expect([...counts]).to.deep.equal([["Library", 2]]);
+        });
+    });
+
+    suite("checkWarningBudgets", () => {
+        test("reports targets over their budget", () => {
+            const counts = new Map([
+                ["Library", 5],
+                ["Tool", 2],
+                ["Tests", 40],
+            ]);
+            expect(checkWarningBudgets(counts, { Tool: 2, Library: 3 })).to.deep.equal([
+                { target: "Library", warnings: 5, budget: 3 },
+            ]);
+        });
+
+        test("treats targets without warnings as within budget", () => {
+            expect(checkWarningBudgets(new Map(), { Library: 0 })).to.be.empty;
+        });
+
+        test("reports every target over budget sorted by name", () => {
+            const counts = new Map([
+                ["Tool", 1],
+                ["Library", 1],
+            ]);
+            expect(
+                checkWarningBudgets(counts, { Tool: 0, Library: 0 }).map(v => v.target)
+            ).to.deep.equal(["Library", "Tool"]);
+        });
+    });
+});
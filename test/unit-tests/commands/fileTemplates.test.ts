@@ -0,0 +1,52 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+
+import { renderFileTemplate, typeNameFromFileName } from "@src/commands/fileTemplates";
+
+suite("File Templates Unit Test Suite", () => {
+    suite("typeNameFromFileName", () => {
+        test("converts file names to type names", () => {
+            expect(typeNameFromFileName("/pkg/Sources/Model.swift")).to.equal("Model");
+            expect(typeNameFromFileName("my-view model.swift")).to.equal("MyViewModel");
+            expect(typeNameFromFileName("2D.swift")).to.equal("_2D");
+            expect(typeNameFromFileName("-.swift")).to.equal("Untitled");
+        });
+    });
+
+    suite("renderFileTemplate", () => {
+        test("substitutes placeholders", () => {
+            const contents = renderFileTemplate("// ${target}\nstruct ${name}: ${module}.P {}", {
+                name: "Model",
+                module: "My_Library",
+                target: "My-Library",
+            });
+            expect(contents).to.equal("// My-Library\nstruct Model: My_Library.P {}");
+        });
+
+        test("removes lines with placeholders that have no value", () => {
+            const contents = renderFileTemplate(
+                "import XCTest\n@testable import ${testedModule}\nclass ${name} {}",
+                { name: "ModelTests" }
+            );
+            expect(contents).to.equal("import XCTest\nclass ModelTests {}");
+        });
+
+        test("leaves unknown placeholders alone", () => {
+            expect(renderFileTemplate("let x = ${value}", { name: "A" })).to.equal(
+                "let x = ${value}"
+            );
+        });
+    });
+});
@@ -12,34 +12,80 @@
 //
 //===----------------------------------------------------------------------===//
 import { expect } from "chai";
+import * as fs from "fs/promises";
 import * as path from "path";
 import { match } from "sinon";
 import * as vscode from "vscode";
 
+import { WorkspaceContext } from "@src/WorkspaceContext";
+import { builtInFileTemplates } from "@src/commands/fileTemplates";
 import { newSwiftFile } from "@src/commands/newFile";
 import { fileExists } from "@src/utilities/filesystem";
 import { TemporaryFolder } from "@src/utilities/tempFolder";
 
-import { mockGlobalObject } from "../../MockUtils";
+import { instance, mockGlobalObject, mockObject } from "../../MockUtils";
 
 suite("newSwiftFile Command Test Suite", () => {
     const workspaceMock = mockGlobalObject(vscode, "workspace");
     const windowMock = mockGlobalObject(vscode, "window");
     const languagesMock = mockGlobalObject(vscode, "languages");
+    const ctx = instance(mockObject<WorkspaceContext>({ folders: [], currentFolder: undefined }));
+
+    function selectTemplate(label: string) {
+        const template = builtInFileTemplates.find(template => template.label === label);
+        windowMock.showQuickPick.resolves({ label, template } as any);
+    }
 
     test("Creates a blank file if no URI is provided", async () => {
-        await newSwiftFile(undefined);
+        selectTemplate("Empty File");
+
+        await newSwiftFile(ctx, undefined);
 
-        expect(workspaceMock.openTextDocument).to.have.been.calledWith({ language: "swift" });
+        expect(workspaceMock.openTextDocument).to.have.been.calledWith({
+            language: "swift",
+            content: "",
+        });
         expect(windowMock.showTextDocument).to.have.been.calledOnce;
     });
 
+    test("Fills in the selected template if no URI is provided", async () => {
+        selectTemplate("Struct");
+
+        await newSwiftFile(ctx, undefined);
+
+        expect(windowMock.showQuickPick).to.have.been.calledOnce;
+        expect(workspaceMock.openTextDocument).to.have.been.calledWith({
+            language: "swift",
+            content: "struct Untitled {\n}\n",
+        });
+    });
+
+    test("Opens an untitled editor if no URI is provided with a folder open", async () => {
+        const folder = await TemporaryFolder.create();
+        selectTemplate("Struct");
+        const ctxWithFolder = instance(
+            mockObject<WorkspaceContext>({
+                folders: [],
+                currentFolder: { folder: vscode.Uri.file(folder.path) } as any,
+            })
+        );
+
+        await newSwiftFile(ctxWithFolder, undefined);
+
+        expect(windowMock.showSaveDialog).to.not.have.been.called;
+        expect(workspaceMock.openTextDocument).to.have.been.calledWith({
+            language: "swift",
+            content: "struct Untitled {\n}\n",
+        });
+    });
+
     test("Creates file at provided directory", async () => {
         const folder = await TemporaryFolder.create();
         const file = path.join(folder.path, "MyFile.swift");
+        selectTemplate("Empty File");
         windowMock.showSaveDialog.resolves(vscode.Uri.file(file));
 
-        await newSwiftFile(vscode.Uri.file(folder.path), () => Promise.resolve(true));
+        await newSwiftFile(ctx, vscode.Uri.file(folder.path), () => Promise.resolve(true));
 
         await expect(fileExists(file)).to.eventually.be.true;
 
@@ -50,4 +96,24 @@ suite("newSwiftFile Command Test Suite", () => {
         );
         expect(windowMock.showTextDocument).to.have.been.calledOnce;
     });
+
+    test("Fills in the selected template", async () => {
+        const folder = await TemporaryFolder.create();
+        const file = path.join(folder.path, "my-model.swift");
+        selectTemplate("Struct");
+        windowMock.showSaveDialog.resolves(vscode.Uri.file(file));
+
+        await newSwiftFile(ctx, vscode.Uri.file(folder.path), () => Promise.resolve(true));
+
+        await expect(fs.readFile(file, "utf-8")).to.eventually.equal("struct MyModel {\n}\n");
+    });
+
+    test("Does not create a file if no template is selected", async () => {
+        const folder = await TemporaryFolder.create();
+        windowMock.showQuickPick.resolves(undefined);
+
+        await newSwiftFile(ctx, vscode.Uri.file(folder.path), () => Promise.resolve(true));
+
+        expect(windowMock.showSaveDialog).to.not.have.been.called;
+    });
 });
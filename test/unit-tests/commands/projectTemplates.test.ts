@@ -0,0 +1,127 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as fs from "fs/promises";
+import * as mockFS from "mock-fs";
+import * as path from "path";
+
+import {
+    copyProjectTemplate,
+    loadCustomProjectTemplates,
+    moduleNameFromProjectName,
+    parseProjectTemplateManifest,
+    substituteTemplateVariables,
+} from "@src/commands/projectTemplates";
+
+suite("Project Templates Unit Test Suite", () => {
+    const manifest = JSON.stringify({
+        name: "Service",
+        description: "A server and client library",
+        variables: [{ name: "port", prompt: "Port", default: "8080" }],
+        postCreateCommands: [["git", "init"]],
+    });
+
+    teardown(() => {
+        mockFS.restore();
+    });
+
+    test("derives module names from project names", () => {
+        expect(moduleNameFromProjectName("my-service")).to.equal("my_service");
+        expect(moduleNameFromProjectName("2fa")).to.equal("_2fa");
+    });
+
+    test("substitutes known variables", () => {
+        expect(
+            substituteTemplateVariables("${projectName}:${port} ${unknown}", {
+                projectName: "app",
+                port: "80",
+            })
+        ).to.equal("app:80 ${unknown}");
+    });
+
+    suite("parseProjectTemplateManifest", () => {
+        test("parses a manifest", () => {
+            expect(parseProjectTemplateManifest(manifest, "/templates/service")).to.deep.equal({
+                name: "Service",
+                description: "A server and client library",
+                folder: "/templates/service",
+                variables: [{ name: "port", prompt: "Port", default: "8080" }],
+                postCreateCommands: [["git", "init"]],
+            });
+        });
+
+        test("defaults the name to the folder name", () => {
+            expect(parseProjectTemplateManifest("{}", "/templates/service")).to.deep.equal({
+                name: "service",
+                description: undefined,
+                folder: "/templates/service",
+                variables: [],
+                postCreateCommands: [],
+            });
+        });
+
+        test("rejects invalid post-create commands", () => {
+            expect(() =>
+                parseProjectTemplateManifest('{ "postCreateCommands": ["git init"] }', "/t")
+            ).to.throw(/postCreateCommands/);
+        });
+    });
+
+    suite("loadCustomProjectTemplates", () => {
+        test("loads templates and folders of templates", async () => {
+            mockFS({
+                "/service": { "swift-template.json": manifest },
+                "/templates": {
+                    library: { "swift-template.json": '{ "name": "Library" }' },
+                    broken: { "swift-template.json": "{" },
+                    other: {},
+                },
+            });
+            const { templates, errors } = await loadCustomProjectTemplates([
+                "/service",
+                "/templates",
+                "/missing",
+            ]);
+            expect(templates.map(template => template.name)).to.deep.equal(["Service", "Library"]);
+            expect(errors).to.have.lengthOf(1);
+            expect(errors[0]).to.contain(path.join("/templates", "broken"));
+        });
+    });
+
+    suite("copyProjectTemplate", () => {
+        test("copies files substituting variables in names and contents", async () => {
+            mockFS({
+                "/service": {
+                    "swift-template.json": manifest,
+                    "Package.swift": 'let package = Package(name: "${projectName}")',
+                    Sources: { "${moduleName}": { "main.swift": "let port = ${port}" } },
+                },
+                "/new": {},
+            });
+            const template = parseProjectTemplateManifest(manifest, "/service");
+            await copyProjectTemplate(template, "/new", {
+                projectName: "my-service",
+                moduleName: "my_service",
+                port: "80",
+            });
+            expect(await fs.readdir("/new")).to.have.members(["Package.swift", "Sources"]);
+            expect(await fs.readFile("/new/Package.swift", "utf8")).to.equal(
+                'let package = Package(name: "my-service")'
+            );
+            expect(await fs.readFile("/new/Sources/my_service/main.swift", "utf8")).to.equal(
+                "let port = 80"
+            );
+        });
+    });
+});
@@ -0,0 +1,115 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import { SinonStub, stub } from "sinon";
+import * as vscode from "vscode";
+
+import { FolderContext } from "@src/FolderContext";
+import { failedTestIds } from "@src/TestExplorer/TestHistory";
+import { TestKind } from "@src/TestExplorer/TestKind";
+import { TestRunProxy } from "@src/TestExplorer/TestRunner";
+import { WorkspaceContext } from "@src/WorkspaceContext";
+import { rerunFailedTests } from "@src/commands/rerunFailedTests";
+
+import { instance, mockGlobalObject, mockObject } from "../../MockUtils";
+
+suite("rerunFailedTests Command Test Suite", () => {
+    const windowMock = mockGlobalObject(vscode, "window");
+    const commandsMock = mockGlobalObject(vscode, "commands");
+    let controller: vscode.TestController;
+    let passingTest: vscode.TestItem;
+    let failingTest: vscode.TestItem;
+    let parameterizedTest: vscode.TestItem;
+    let argumentResult: vscode.TestItem;
+    let runStandard: SinonStub;
+    let runParallel: SinonStub;
+    let folder: FolderContext;
+    let ctx: WorkspaceContext;
+
+    setup(() => {
+        controller = vscode.tests.createTestController("rerunFailedTests", "");
+        const target = controller.createTestItem("MyTests", "MyTests");
+        passingTest = controller.createTestItem("MyTests.passes()", "passes()");
+        failingTest = controller.createTestItem("MyTests.fails()", "fails()");
+        parameterizedTest = controller.createTestItem("MyTests.arguments(_:)", "arguments(_:)");
+        argumentResult = controller.createTestItem("MyTests.arguments(_:)/1", "1");
+        argumentResult.tags = [new vscode.TestTag(TestRunProxy.Tags.PARAMETERIZED_TEST_RESULT)];
+        parameterizedTest.children.replace([argumentResult]);
+        target.children.replace([passingTest, failingTest, parameterizedTest]);
+        controller.items.add(target);
+
+        runStandard = stub().resolves();
+        runParallel = stub().resolves();
+        const testRunProfiles = [
+            { label: TestKind.standard, runHandler: runStandard },
+            { label: TestKind.parallel, runHandler: runParallel },
+        ];
+        folder = {
+            testExplorer: { controller, testRunProfiles },
+            latestFailedTestIds: undefined,
+        } as unknown as FolderContext;
+        ctx = instance(mockObject<WorkspaceContext>({ currentFolder: folder }));
+    });
+
+    teardown(() => {
+        controller.dispose();
+    });
+
+    test("runs the failed tests with the profile of the test kind", async () => {
+        folder.latestFailedTestIds = [failingTest.id];
+
+        await rerunFailedTests(ctx, TestKind.parallel);
+
+        expect(runStandard).to.not.have.been.called;
+        expect(runParallel).to.have.been.calledOnce;
+        const [request] = runParallel.firstCall.args;
+        expect(request.include).to.deep.equal([failingTest]);
+        expect(request.profile.label).to.equal(TestKind.parallel);
+        expect(commandsMock.executeCommand).to.have.been.calledWith("testing.showMostRecentOutput");
+    });
+
+    test("runs parameterized tests in place of their failed arguments", async () => {
+        folder.latestFailedTestIds = failedTestIds({
+            ...TestRunProxy.initialTestRunState(),
+            passed: [passingTest],
+            failed: [{ test: argumentResult, message: new vscode.TestMessage("Failed") }],
+        });
+
+        await rerunFailedTests(ctx, TestKind.standard);
+
+        const [request] = runStandard.firstCall.args;
+        expect(request.include).to.deep.equal([parameterizedTest]);
+    });
+
+    test("tells the user when no tests failed", async () => {
+        folder.latestFailedTestIds = [];
+
+        await rerunFailedTests(ctx, TestKind.standard);
+
+        expect(runStandard).to.not.have.been.called;
+        expect(windowMock.showInformationMessage).to.have.been.calledWith(
+            "No tests failed in the last test run."
+        );
+    });
+
+    test("does nothing without a profile for the test kind", async () => {
+        folder.latestFailedTestIds = [failingTest.id];
+
+        await rerunFailedTests(ctx, TestKind.coverage);
+
+        expect(runStandard).to.not.have.been.called;
+        expect(runParallel).to.not.have.been.called;
+        expect(windowMock.showInformationMessage).to.not.have.been.called;
+    });
+});
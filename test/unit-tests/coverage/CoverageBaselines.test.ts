@@ -0,0 +1,138 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as vscode from "vscode";
+
+import {
+    CoverageBaselineStore,
+    CoverageSnapshot,
+    createCoverageSnapshot,
+    diffCoverage,
+} from "@src/coverage/CoverageBaselines";
+
+suite("CoverageBaselines Unit Test Suite", () => {
+    function snapshot(
+        name: string,
+        files: { [path: string]: { covered: number[]; uncovered: number[] } }
+    ): CoverageSnapshot {
+        const result: CoverageSnapshot = { name, created: 0, files: {} };
+        for (const [path, { covered, uncovered }] of Object.entries(files)) {
+            result.files[path] = { coveredLines: covered, uncoveredLines: uncovered };
+        }
+        return result;
+    }
+
+    suite("createCoverageSnapshot", () => {
+        test("stores files relative to the folder", () => {
+            const result = createCoverageSnapshot(
+                "main",
+                [
+                    {
+                        title: "",
+                        file: vscode.Uri.file("/pkg/Sources/Lib/Lib.swift").fsPath,
+                        lines: {
+                            hit: 1,
+                            found: 2,
+                            details: [
+                                { line: 1, hit: 4 },
+                                { line: 2, hit: 0 },
+                            ],
+                        },
+                        functions: { hit: 0, found: 0, details: [] },
+                        branches: { hit: 0, found: 0, details: [] },
+                    },
+                ],
+                vscode.Uri.file("/pkg").fsPath
+            );
+
+            expect(result.name).to.equal("main");
+            expect(result.files).to.deep.equal({
+                "Sources/Lib/Lib.swift": { coveredLines: [1], uncoveredLines: [2] },
+            });
+        });
+    });
+
+    suite("diffCoverage", () => {
+        test("reports lines that lost and gained coverage", () => {
+            const baseline = snapshot("main", {
+                "Lib.swift": { covered: [1, 2, 3], uncovered: [4] },
+            });
+            const current = snapshot("current", {
+                "Lib.swift": { covered: [1, 4], uncovered: [2, 3] },
+            });
+
+            const [delta] = diffCoverage(baseline, current);
+            expect(delta.relativePath).to.equal("Lib.swift");
+            expect(delta.baselinePercent).to.equal(75);
+            expect(delta.currentPercent).to.equal(50);
+            expect(delta.delta).to.equal(-25);
+            expect(delta.regressedLines).to.deep.equal([2, 3]);
+            expect(delta.improvedLines).to.deep.equal([4]);
+        });
+
+        test("omits files whose coverage did not change", () => {
+            const files = { "Lib.swift": { covered: [1], uncovered: [2] } };
+            expect(diffCoverage(snapshot("main", files), snapshot("current", files))).to.be
+                .empty;
+        });
+
+        test("sorts the largest regressions first", () => {
+            const baseline = snapshot("main", {
+                "A.swift": { covered: [1], uncovered: [2] },
+                "B.swift": { covered: [1, 2], uncovered: [] },
+            });
+            const current = snapshot("current", {
+                "A.swift": { covered: [1, 2], uncovered: [] },
+                "B.swift": { covered: [], uncovered: [1, 2] },
+            });
+
+            expect(diffCoverage(baseline, current).map(d => d.relativePath)).to.deep.equal([
+                "B.swift",
+                "A.swift",
+            ]);
+        });
+    });
+
+    suite("CoverageBaselineStore", () => {
+        function memento(): vscode.Memento {
+            const values = new Map<string, unknown>();
+            return {
+                keys: () => [...values.keys()],
+                get: <T>(key: string, defaultValue?: T) =>
+                    (values.has(key) ? values.get(key) : defaultValue) as T,
+                update: async (key: string, value: unknown) => {
+                    values.set(key, value);
+                },
+            };
+        }
+
+        test("saving a baseline makes it active", async () => {
+            const store = new CoverageBaselineStore(memento());
+            await store.save("/pkg", snapshot("main", {}));
+
+            expect(store.activeBaseline("/pkg")?.name).to.equal("main");
+            expect(store.activeBaseline("/other")).to.be.undefined;
+        });
+
+        test("deleting the active baseline clears it", async () => {
+            const store = new CoverageBaselineStore(memento());
+            await store.save("/pkg", snapshot("main", {}));
+            await store.save("/pkg", snapshot("feature", {}));
+            await store.delete("/pkg", "feature");
+
+            expect(store.activeBaseline("/pkg")).to.be.undefined;
+            expect(store.baselines("/pkg").map(b => b.name)).to.deep.equal(["main"]);
+        });
+    });
+});
@@ -0,0 +1,106 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as lcov from "lcov-parse";
+import * as vscode from "vscode";
+
+import { toCobertura, toHtml, toLcov } from "@src/coverage/CoverageExport";
+
+suite("CoverageExport Unit Test Suite", () => {
+    const folderPath = vscode.Uri.file("/pkg").fsPath;
+    const filePath = vscode.Uri.file("/pkg/Sources/Lib/Lib.swift").fsPath;
+    const file: lcov.LcovFile = {
+        title: "",
+        file: filePath,
+        lines: {
+            hit: 1,
+            found: 2,
+            details: [
+                { line: 1, hit: 3 },
+                { line: 2, hit: 0 },
+            ],
+        },
+        functions: { hit: 1, found: 1, details: [{ name: "main", line: 1, hit: 3 }] },
+        branches: {
+            hit: 1,
+            found: 2,
+            details: [
+                { line: 1, block: 0, branch: 0, taken: 2 },
+                { line: 1, block: 0, branch: 1, taken: 0 },
+            ],
+        },
+    };
+
+    suite("toLcov", () => {
+        test("writes a tracefile record for each file", () => {
+            expect(toLcov([file]).split("\n")).to.deep.equal([
+                "TN:",
+                `SF:${filePath}`,
+                "FN:1,main",
+                "FNDA:3,main",
+                "FNF:1",
+                "FNH:1",
+                "BRDA:1,0,0,2",
+                "BRDA:1,0,1,0",
+                "BRF:2",
+                "BRH:1",
+                "DA:1,3",
+                "DA:2,0",
+                "LF:2",
+                "LH:1",
+                "end_of_record",
+                "",
+            ]);
+        });
+    });
+
+    suite("toCobertura", () => {
+        test("groups files into packages by directory", () => {
+            const xml = toCobertura([file], folderPath, 0);
+            expect(xml).to.contain(
+                '<coverage line-rate="0.5000" branch-rate="0.5000" lines-covered="1" lines-valid="2" branches-covered="1" branches-valid="2"'
+            );
+            expect(xml).to.contain('<package name="Sources.Lib"');
+            expect(xml).to.contain('<class name="Lib.swift" filename="Sources/Lib/Lib.swift"');
+        });
+
+        test("reports condition coverage for lines with branches", () => {
+            const xml = toCobertura([file], folderPath, 0);
+            expect(xml).to.contain(
+                '<line number="1" hits="3" branch="true" condition-coverage="50% (1/2)"/>'
+            );
+            expect(xml).to.contain('<line number="2" hits="0" branch="false"/>');
+        });
+    });
+
+    suite("toHtml", () => {
+        test("annotates source lines with their coverage", () => {
+            const html = toHtml(
+                [file],
+                folderPath,
+                new Map([[filePath, "let a = 1 < 2\nprint(a)"]])
+            );
+            expect(html).to.contain("Lines: 50.0% (1/2)");
+            expect(html).to.contain('<tr class="hit"><td class="ln">1</td><td class="count">3</td>');
+            expect(html).to.contain("<pre>let a = 1 &lt; 2</pre>");
+            expect(html).to.contain('<tr class="miss"><td class="ln">2</td>');
+        });
+
+        test("only summarizes files without source", () => {
+            const html = toHtml([file], folderPath, new Map());
+            expect(html).to.contain("Sources/Lib/Lib.swift");
+            expect(html).to.not.contain('class="source"');
+        });
+    });
+});
@@ -0,0 +1,119 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as lcov from "lcov-parse";
+import * as vscode from "vscode";
+
+import { TestCoverage } from "@src/coverage/LcovResults";
+
+suite("TestCoverage Unit Test Suite", () => {
+    function lcovFile(partial: Partial<lcov.LcovFile>): lcov.LcovFile {
+        return {
+            title: "",
+            file: "/path/to/Sources/Lib/Lib.swift",
+            lines: { hit: 0, found: 0, details: [] },
+            functions: { hit: 0, found: 0, details: [] },
+            branches: { hit: 0, found: 0, details: [] },
+            ...partial,
+        };
+    }
+
+    suite("detailedCoverage", () => {
+        test("converts lines to statement coverage", () => {
+            const details = TestCoverage.detailedCoverage(
+                lcovFile({
+                    lines: {
+                        hit: 1,
+                        found: 2,
+                        details: [
+                            { line: 1, hit: 3 },
+                            { line: 2, hit: 0 },
+                        ],
+                    },
+                })
+            );
+
+            expect(details).to.have.lengthOf(2);
+            expect(details[0]).to.be.instanceOf(vscode.StatementCoverage);
+            expect(details[0].executed).to.equal(3);
+            expect((details[0] as vscode.StatementCoverage).location).to.deep.equal(
+                new vscode.Position(0, 0)
+            );
+            expect(details[1].executed).to.equal(0);
+        });
+
+        test("attaches branches to the statement on the same line", () => {
+            const details = TestCoverage.detailedCoverage(
+                lcovFile({
+                    lines: { hit: 1, found: 1, details: [{ line: 4, hit: 2 }] },
+                    branches: {
+                        hit: 1,
+                        found: 2,
+                        details: [
+                            { line: 4, block: 0, branch: 0, taken: 2 },
+                            { line: 4, block: 0, branch: 1, taken: 0 },
+                        ],
+                    },
+                })
+            );
+
+            expect(details).to.have.lengthOf(1);
+            const statement = details[0] as vscode.StatementCoverage;
+            expect(statement.branches.map(b => b.executed)).to.deep.equal([2, 0]);
+            expect(statement.branches.map(b => b.label)).to.deep.equal(["Branch 1", "Branch 2"]);
+        });
+
+        test("creates a statement for branches without line coverage", () => {
+            const details = TestCoverage.detailedCoverage(
+                lcovFile({
+                    branches: {
+                        hit: 0,
+                        found: 1,
+                        details: [{ line: 7, block: 0, branch: 0, taken: 0 }],
+                    },
+                })
+            );
+
+            expect(details).to.have.lengthOf(1);
+            const statement = details[0] as vscode.StatementCoverage;
+            expect(statement.executed).to.be.false;
+            expect(statement.branches).to.have.lengthOf(1);
+        });
+
+        test("converts functions to declaration coverage", () => {
+            const details = TestCoverage.detailedCoverage(
+                lcovFile({
+                    functions: {
+                        hit: 1,
+                        found: 1,
+                        details: [
+                            { name: "$s3Lib3fooyyF", line: 10, hit: 5 },
+                            { name: "$s3Lib3baryyF", line: 20, hit: 0 },
+                        ],
+                    },
+                }),
+                new Map([["$s3Lib3fooyyF", "foo()"]])
+            );
+
+            expect(details).to.have.lengthOf(2);
+            expect(details[0]).to.be.instanceOf(vscode.DeclarationCoverage);
+            const declaration = details[0] as vscode.DeclarationCoverage;
+            expect(declaration.name).to.equal("foo()");
+            expect(declaration.executed).to.equal(5);
+            expect(declaration.location).to.deep.equal(new vscode.Position(9, 0));
+            // Functions that couldn't be demangled keep their symbol name
+            expect((details[1] as vscode.DeclarationCoverage).name).to.equal("$s3Lib3baryyF");
+        });
+    });
+});
@@ -135,6 +135,26 @@ suite("LLDBDebugConfigurationProvider Tests", () => {
         expect(launchConfig).to.be.null;
     });
 
+    test("shows an error when debugging tests without a Swift package", async () => {
+        const configProvider = new LLDBDebugConfigurationProvider(
+            "darwin",
+            instance(mockWorkspaceContext),
+            instance(mockLogger)
+        );
+        const launchConfig = await configProvider.resolveDebugConfigurationWithSubstitutedVariables(
+            undefined,
+            {
+                name: "Debug Tests",
+                type: SWIFT_LAUNCH_CONFIG_TYPE,
+                request: "launch",
+                testType: "swift-testing",
+                testTags: ["parsing"],
+            }
+        );
+        expect(launchConfig).to.be.undefined;
+        expect(mockWindow.showErrorMessage).to.have.been.calledOnce;
+    });
+
     suite("CodeLLDB selected in settings", () => {
         let mockLldbConfiguration: MockedObject<vscode.WorkspaceConfiguration>;
         const mockLLDB = mockGlobalModule(lldb);
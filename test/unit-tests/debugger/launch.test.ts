@@ -56,8 +56,10 @@ suite("Launch Configurations Test", () => {
     setup(() => {
         mockFolderConfiguration = mockObject<FolderConfiguration>({
             autoGenerateLaunchConfigurations: true,
+            launchProfiles: {},
         });
         mockConfiguration.folder.returns(mockFolderConfiguration);
+        mockConfiguration.sanitizer = "off";
         mockLaunchWSConfig = mockObject<vscode.WorkspaceConfiguration>({
             get: mockFn(),
             update: mockFn(),
@@ -284,4 +286,200 @@ suite("Launch Configurations Test", () => {
         expect(await makeDebugConfigurations(instance(folder), { yes: true })).to.be.false;
         expect(mockLaunchWSConfig.update).to.not.have.been.called;
     });
+
+    test("generates launch configurations for each executable with each launch profile", async () => {
+        mockFolderConfiguration.launchProfiles = {
+            staging: {
+                args: ["--port", "8080"],
+                env: { ENVIRONMENT: "staging" },
+                cwd: "${workspaceFolder:folder}/Fixtures",
+            },
+            perf: { configuration: "release", sanitizer: "thread" },
+            plain: { sanitizer: "off" },
+        };
+
+        expect(await makeDebugConfigurations(instance(folder), { yes: true })).to.be.true;
+        expect(mockLaunchWSConfig.update).to.have.been.calledWith(
+            "configurations",
+            [
+                {
+                    type: SWIFT_LAUNCH_CONFIG_TYPE,
+                    request: "launch",
+                    args: [],
+                    cwd: "${workspaceFolder:folder}",
+                    name: "Debug executable",
+                    program: "${workspaceFolder:folder}/.build/debug/executable",
+                    preLaunchTask: "swift: Build Debug executable",
+                },
+                {
+                    type: SWIFT_LAUNCH_CONFIG_TYPE,
+                    request: "launch",
+                    args: [],
+                    cwd: "${workspaceFolder:folder}",
+                    name: "Release executable",
+                    program: "${workspaceFolder:folder}/.build/release/executable",
+                    preLaunchTask: "swift: Build Release executable",
+                },
+                {
+                    type: SWIFT_LAUNCH_CONFIG_TYPE,
+                    request: "launch",
+                    args: ["--port", "8080"],
+                    cwd: "${workspaceFolder:folder}/Fixtures",
+                    env: { ENVIRONMENT: "staging" },
+                    name: "Debug executable (staging)",
+                    program: "${workspaceFolder:folder}/.build/debug/executable",
+                    preLaunchTask: "swift: Build Debug executable",
+                },
+                {
+                    type: SWIFT_LAUNCH_CONFIG_TYPE,
+                    request: "launch",
+                    args: [],
+                    cwd: "${workspaceFolder:folder}",
+                    name: "Release executable (perf)",
+                    program:
+                        "${workspaceFolder:folder}/.build/sanitizers/thread/release/executable",
+                    preLaunchTask: "swift: Build Release executable - Thread Sanitizer",
+                },
+                {
+                    type: SWIFT_LAUNCH_CONFIG_TYPE,
+                    request: "launch",
+                    args: [],
+                    cwd: "${workspaceFolder:folder}",
+                    name: "Debug executable (plain)",
+                    program: "${workspaceFolder:folder}/.build/debug/executable",
+                    preLaunchTask: "swift: Build Debug executable",
+                },
+            ],
+            vscode.ConfigurationTarget.WorkspaceFolder
+        );
+    });
+
+    test("builds launch profiles without a sanitizer when the sanitizer setting is on", async () => {
+        mockConfiguration.sanitizer = "address";
+        mockFolderConfiguration.launchProfiles = {
+            plain: { sanitizer: "off" },
+            checked: { sanitizer: "address" },
+        };
+
+        expect(await makeDebugConfigurations(instance(folder), { yes: true })).to.be.true;
+        const [, configs] = mockLaunchWSConfig.update.firstCall.args;
+        expect(
+            configs.slice(2).map((config: vscode.DebugConfiguration) => ({
+                program: config.program,
+                preLaunchTask: config.preLaunchTask,
+            }))
+        ).to.deep.equal([
+            {
+                program: "${workspaceFolder:folder}/.build/sanitizers/off/debug/executable",
+                preLaunchTask: "swift: Build Debug executable - No Sanitizer",
+            },
+            {
+                program: "${workspaceFolder:folder}/.build/debug/executable",
+                preLaunchTask: "swift: Build Debug executable",
+            },
+        ]);
+    });
+
+    test("removes the launch configurations of launch profiles that no longer exist", async () => {
+        mockFolderConfiguration.launchProfiles = {
+            production: { args: ["--verbose"] },
+        };
+        const customConfig = {
+            type: SWIFT_LAUNCH_CONFIG_TYPE,
+            request: "launch",
+            args: [],
+            cwd: "${workspaceFolder:folder}",
+            name: "Debug executable (custom)",
+            program: "${workspaceFolder:folder}/.build/debug/executable",
+        };
+        mockLaunchWSConfig.get.withArgs("configurations").returns([
+            {
+                type: SWIFT_LAUNCH_CONFIG_TYPE,
+                request: "launch",
+                args: [],
+                cwd: "${workspaceFolder:folder}",
+                name: "Debug executable",
+                program: "${workspaceFolder:folder}/.build/debug/executable",
+                preLaunchTask: "swift: Build Debug executable",
+            },
+            {
+                type: SWIFT_LAUNCH_CONFIG_TYPE,
+                request: "launch",
+                args: [],
+                cwd: "${workspaceFolder:folder}",
+                name: "Release executable",
+                program: "${workspaceFolder:folder}/.build/release/executable",
+                preLaunchTask: "swift: Build Release executable",
+            },
+            {
+                type: SWIFT_LAUNCH_CONFIG_TYPE,
+                request: "launch",
+                args: ["--verbose"],
+                cwd: "${workspaceFolder:folder}",
+                name: "Debug executable (staging)",
+                program: "${workspaceFolder:folder}/.build/debug/executable",
+                preLaunchTask: "swift: Build Debug executable",
+            },
+            customConfig,
+        ]);
+
+        expect(await makeDebugConfigurations(instance(folder), { yes: true })).to.be.true;
+        const [, configs] = mockLaunchWSConfig.update.firstCall.args;
+        expect(configs.map((config: vscode.DebugConfiguration) => config.name)).to.deep.equal([
+            "Debug executable",
+            "Release executable",
+            "Debug executable (custom)",
+            "Debug executable (production)",
+        ]);
+    });
+
+    test("updates the arguments and environment of launch profile configurations", async () => {
+        mockFolderConfiguration.launchProfiles = {
+            staging: { args: ["--verbose"] },
+        };
+        mockLaunchWSConfig.get.withArgs("configurations").returns([
+            {
+                type: SWIFT_LAUNCH_CONFIG_TYPE,
+                request: "launch",
+                args: [],
+                cwd: "${workspaceFolder:folder}",
+                name: "Debug executable",
+                program: "${workspaceFolder:folder}/.build/debug/executable",
+                preLaunchTask: "swift: Build Debug executable",
+            },
+            {
+                type: SWIFT_LAUNCH_CONFIG_TYPE,
+                request: "launch",
+                args: [],
+                cwd: "${workspaceFolder:folder}",
+                name: "Release executable",
+                program: "${workspaceFolder:folder}/.build/release/executable",
+                preLaunchTask: "swift: Build Release executable",
+            },
+            {
+                type: SWIFT_LAUNCH_CONFIG_TYPE,
+                request: "launch",
+                args: ["--quiet"],
+                cwd: "${workspaceFolder:folder}",
+                env: { ENVIRONMENT: "staging" },
+                stopOnEntry: true,
+                name: "Debug executable (staging)",
+                program: "${workspaceFolder:folder}/.build/debug/executable",
+                preLaunchTask: "swift: Build Debug executable",
+            },
+        ]);
+
+        expect(await makeDebugConfigurations(instance(folder), { yes: true })).to.be.true;
+        const [, configs] = mockLaunchWSConfig.update.firstCall.args;
+        expect(configs[2]).to.deep.equal({
+            type: SWIFT_LAUNCH_CONFIG_TYPE,
+            request: "launch",
+            args: ["--verbose"],
+            cwd: "${workspaceFolder:folder}",
+            stopOnEntry: true,
+            name: "Debug executable (staging)",
+            program: "${workspaceFolder:folder}/.build/debug/executable",
+            preLaunchTask: "swift: Build Debug executable",
+        });
+    });
 });
@@ -0,0 +1,105 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as vscode from "vscode";
+
+import { SWIFT_LAUNCH_CONFIG_TYPE } from "@src/debugger/debugAdapter";
+import { isTestLaunchConfig, selectTests } from "@src/debugger/testLaunch";
+
+suite("Test Launch Configuration Unit Test Suite", () => {
+    let controller: vscode.TestController;
+
+    setup(() => {
+        controller = vscode.tests.createTestController("testLaunchTests", "");
+        const target = (id: string, label: string) => {
+            const item = controller.createTestItem(id, label);
+            item.tags = [new vscode.TestTag("test-target")];
+            controller.items.add(item);
+            return item;
+        };
+        const test = (parent: vscode.TestItem, id: string, tags: string[]) => {
+            const item = controller.createTestItem(id, id);
+            item.tags = tags.map(tag => new vscode.TestTag(tag));
+            parent.children.add(item);
+            return item;
+        };
+        const parserTests = test(target("ParserTests", "Parser Tests"), "ParserTests.Parsing", [
+            "swift-testing",
+            "parsing",
+        ]);
+        test(parserTests, "ParserTests.Parsing/empty()", ["swift-testing", "parsing"]);
+        test(parserTests, "ParserTests.Parsing/nested()", ["swift-testing", "parsing", "slow"]);
+        const lexerTests = test(target("LexerTests", "LexerTests"), "LexerTests.LexerTests", [
+            "XCTest",
+        ]);
+        test(lexerTests, "LexerTests.LexerTests/testTokens", ["XCTest"]);
+        test(lexerTests, "LexerTests.LexerTests/testComments", ["XCTest"]);
+    });
+
+    teardown(() => {
+        controller.dispose();
+    });
+
+    const ids = (items: vscode.TestItem[]) => items.map(item => item.id);
+
+    test("debugs tests when a test type is set without a program", () => {
+        const config = { type: SWIFT_LAUNCH_CONFIG_TYPE, request: "launch", name: "Tests" };
+        expect(isTestLaunchConfig({ ...config, testType: "XCTest" })).to.be.true;
+        expect(isTestLaunchConfig({ ...config, testType: "XCTest", program: "/a.xctest" })).to.be
+            .false;
+        expect(isTestLaunchConfig({ ...config, program: "/path/to/exe" })).to.be.false;
+    });
+
+    test("selects test targets by name or identifier", () => {
+        expect(ids(selectTests(controller.items, { testTargets: ["Parser Tests"] }))).to.deep.equal(
+            ["ParserTests"]
+        );
+        expect(
+            ids(selectTests(controller.items, { testTargets: ["ParserTests", "LexerTests"] }))
+        ).to.have.members(["ParserTests", "LexerTests"]);
+    });
+
+    test("selects suites and tests matching a filter", () => {
+        expect(
+            ids(selectTests(controller.items, { testFilter: ["LexerTests\\.LexerTests$"] }))
+        ).to.deep.equal(["LexerTests.LexerTests"]);
+        expect(ids(selectTests(controller.items, { testFilter: ["/test"] }))).to.deep.equal([
+            "LexerTests.LexerTests/testTokens",
+            "LexerTests.LexerTests/testComments",
+        ]);
+    });
+
+    test("selects tests with a tag", () => {
+        expect(ids(selectTests(controller.items, { testTags: ["slow"] }))).to.deep.equal([
+            "ParserTests.Parsing/nested()",
+        ]);
+        expect(ids(selectTests(controller.items, { testTags: ["parsing"] }))).to.deep.equal([
+            "ParserTests.Parsing",
+        ]);
+    });
+
+    test("selects tests matching every attribute", () => {
+        expect(
+            ids(
+                selectTests(controller.items, {
+                    testTargets: ["LexerTests"],
+                    testFilter: ["Parsing", "Comments"],
+                })
+            )
+        ).to.deep.equal(["LexerTests.LexerTests/testComments"]);
+        expect(
+            selectTests(controller.items, { testTargets: ["LexerTests"], testTags: ["parsing"] })
+        ).to.be.empty;
+    });
+});
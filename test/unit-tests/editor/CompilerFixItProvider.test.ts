@@ -0,0 +1,65 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as vscode from "vscode";
+
+import { DiagnosticFix } from "@src/DiagnosticsManager";
+import { combineFixes } from "@src/editor/CompilerFixItProvider";
+
+suite("CompilerFixItProvider Unit Test Suite", () => {
+    const uri = vscode.Uri.file("/pkg/Sources/main.swift");
+
+    function fix(line: number, start: number, end: number, newText: string): DiagnosticFix {
+        return {
+            title: `Fix ${newText}`,
+            edits: [{ uri, range: new vscode.Range(line, start, line, end), newText }],
+        };
+    }
+
+    suite("combineFixes", () => {
+        test("orders edits by position", () => {
+            const edits = combineFixes([fix(4, 0, 3, "var"), fix(1, 4, 10, "_")]);
+            expect(edits.map(e => e.newText)).to.deep.equal(["_", "var"]);
+        });
+
+        test("applies duplicate fixes once", () => {
+            const edits = combineFixes([fix(1, 4, 10, "_"), fix(1, 4, 10, "_")]);
+            expect(edits).to.have.lengthOf(1);
+        });
+
+        test("drops edits overlapping an earlier edit", () => {
+            const edits = combineFixes([fix(1, 0, 10, "let x"), fix(1, 4, 6, "y")]);
+            expect(edits.map(e => e.newText)).to.deep.equal(["let x"]);
+        });
+
+        test("drops every edit of a fix that overlaps an earlier fix", () => {
+            const edits = combineFixes([
+                fix(1, 0, 10, "let x"),
+                {
+                    title: "Fix y",
+                    edits: [
+                        { uri, range: new vscode.Range(0, 0, 0, 0), newText: "import Y\n" },
+                        { uri, range: new vscode.Range(1, 4, 1, 6), newText: "y" },
+                    ],
+                },
+            ]);
+            expect(edits.map(e => e.newText)).to.deep.equal(["let x"]);
+        });
+
+        test("keeps edits that are adjacent", () => {
+            const edits = combineFixes([fix(1, 0, 4, "a"), fix(1, 4, 6, "b")]);
+            expect(edits.map(e => e.newText)).to.deep.equal(["a", "b"]);
+        });
+    });
+});
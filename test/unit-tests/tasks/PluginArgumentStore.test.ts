@@ -0,0 +1,101 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as vscode from "vscode";
+
+import { PackagePlugin } from "@src/SwiftPackage";
+import {
+    PluginArgumentStore,
+    joinArguments,
+    pluginKey,
+    splitArguments,
+} from "@src/tasks/PluginArgumentStore";
+
+suite("PluginArgumentStore Unit Test Suite", () => {
+    const plugin: PackagePlugin = { command: "generate", name: "Generate", package: "MyPackage" };
+
+    function memento(): vscode.Memento {
+        const values = new Map<string, unknown>();
+        return {
+            keys: () => [...values.keys()],
+            get: <T>(key: string, defaultValue?: T) =>
+                (values.has(key) ? values.get(key) : defaultValue) as T,
+            update: async (key: string, value: unknown) => {
+                values.set(key, value);
+            },
+        };
+    }
+
+    test("identifies plugins by package and command", () => {
+        expect(pluginKey(plugin)).to.equal("MyPackage:generate");
+    });
+
+    suite("splitArguments", () => {
+        test("splits on whitespace", () => {
+            expect(splitArguments("  --output  out \t-v ")).to.deep.equal([
+                "--output",
+                "out",
+                "-v",
+            ]);
+            expect(splitArguments("")).to.deep.equal([]);
+        });
+
+        test("keeps quoted text together", () => {
+            expect(splitArguments(`--message "hello world" 'it"s' ""`)).to.deep.equal([
+                "--message",
+                "hello world",
+                'it"s',
+                "",
+            ]);
+            expect(splitArguments(`--name=a" b"`)).to.deep.equal(["--name=a b"]);
+        });
+
+        test("escapes characters with a backslash", () => {
+            expect(splitArguments(`a\\ b "c\\"d"`)).to.deep.equal(["a b", 'c"d']);
+        });
+
+        test("splits joined arguments back into the same arguments", () => {
+            const args = ["--path", "My Folder", "", 'say "hi"', "back\\slash", "it's"];
+            expect(splitArguments(joinArguments(args))).to.deep.equal(args);
+            expect(joinArguments(["--verbose", "a b"])).to.equal('--verbose "a b"');
+        });
+    });
+
+    suite("PluginArgumentStore", () => {
+        test("keeps the most recent arguments first without duplicates", async () => {
+            const store = new PluginArgumentStore(memento());
+            for (let i = 0; i < PluginArgumentStore.maxRecent + 2; i++) {
+                await store.addRecent(plugin, [`${i}`]);
+            }
+            await store.addRecent(plugin, ["5"]);
+            const recent = store.recent(plugin);
+            expect(recent).to.have.lengthOf(PluginArgumentStore.maxRecent);
+            expect(recent.slice(0, 3)).to.deep.equal([["5"], ["11"], ["10"]]);
+            expect(store.recent({ ...plugin, command: "other" })).to.be.empty;
+        });
+
+        test("saves and deletes presets by name", async () => {
+            const store = new PluginArgumentStore(memento());
+            await store.savePreset(plugin, { name: "Release", args: ["-c", "release"] });
+            await store.savePreset(plugin, { name: "Debug", args: ["-c", "debug"] });
+            await store.savePreset(plugin, { name: "Release", args: ["--release"] });
+            expect(store.presets(plugin)).to.deep.equal([
+                { name: "Debug", args: ["-c", "debug"] },
+                { name: "Release", args: ["--release"] },
+            ]);
+            await store.deletePreset(plugin, "Debug");
+            expect(store.presets(plugin).map(preset => preset.name)).to.deep.equal(["Release"]);
+        });
+    });
+});
@@ -0,0 +1,81 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as mockFS from "mock-fs";
+import * as vscode from "vscode";
+
+import {
+    TestAttachmentStore,
+    attachmentKind,
+    attachmentMessage,
+} from "@src/TestExplorer/TestAttachments";
+
+suite("TestAttachments Unit Test Suite", () => {
+    teardown(() => {
+        mockFS.restore();
+    });
+
+    test("previews attachments based on their file extension", () => {
+        expect(attachmentKind("/attachments/snapshot.PNG")).to.equal("image");
+        expect(attachmentKind("/attachments/response.json")).to.equal("json");
+        expect(attachmentKind("/attachments/request.log")).to.equal("text");
+        expect(attachmentKind("/attachments/archive.zip")).to.equal("other");
+        expect(attachmentKind("/attachments/data")).to.equal("other");
+    });
+
+    test("creates a message previewing the attachments", async () => {
+        mockFS({
+            "/attachments/snapshot.png": "",
+            "/attachments/response.json": '{"status":"ok"}',
+            "/attachments/request.log": "GET /status",
+        });
+        const message = await attachmentMessage([
+            "/attachments/snapshot.png",
+            "/attachments/response.json",
+            "/attachments/request.log",
+            "/attachments/missing.txt",
+        ]);
+        const markdown = (message.message as vscode.MarkdownString).value;
+        expect(markdown).to.contain("**4 attachments**");
+        expect(markdown).to.contain("![snapshot.png](file:///attachments/snapshot.png)");
+        expect(markdown).to.contain('```json\n{\n  "status": "ok"\n}\n```');
+        expect(markdown).to.contain("```\nGET /status\n```");
+        expect(markdown).to.contain("[missing.txt](file:///attachments/missing.txt)");
+        expect(markdown).to.contain("The attachment could not be read.");
+    });
+
+    test("keeps the attachments of the latest runs", () => {
+        const store = new TestAttachmentStore();
+        const run = (started: number, tests = 1) => ({
+            name: "Run Tests",
+            folder: "pkg",
+            started,
+            tests: Array.from({ length: tests }, (_, index) => ({
+                testId: `MyTests.test${index}()`,
+                label: `test${index}()`,
+                attachments: [`/attachments/${started}-${index}.txt`],
+            })),
+        });
+        store.add(run(0, 0));
+        expect(store.runs).to.be.empty;
+        for (let started = 1; started <= TestAttachmentStore.maxRuns + 1; started++) {
+            store.add(run(started));
+        }
+        expect(store.runs).to.have.lengthOf(TestAttachmentStore.maxRuns);
+        expect(store.runs[0].started).to.equal(TestAttachmentStore.maxRuns + 1);
+        store.clear();
+        expect(store.runs).to.be.empty;
+        store.dispose();
+    });
+});
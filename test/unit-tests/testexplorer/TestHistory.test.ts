@@ -0,0 +1,228 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as vscode from "vscode";
+
+import {
+    TestHistoryStore,
+    durationRegression,
+    failedTestIds,
+    flakinessScore,
+    median,
+    testRunResults,
+} from "@src/TestExplorer/TestHistory";
+import { TestKind } from "@src/TestExplorer/TestKind";
+import { TestRunProxy, TestRunState } from "@src/TestExplorer/TestRunner";
+
+suite("TestHistory Unit Test Suite", () => {
+    let controller: vscode.TestController;
+    let suiteItem: vscode.TestItem;
+    let stableTest: vscode.TestItem;
+    let flakyTest: vscode.TestItem;
+
+    setup(() => {
+        controller = vscode.tests.createTestController("testHistoryTests", "");
+        suiteItem = controller.createTestItem("MyTests.MyTests", "MyTests");
+        stableTest = controller.createTestItem("MyTests.MyTests/testStable", "testStable");
+        flakyTest = controller.createTestItem("MyTests.MyTests/testFlaky", "testFlaky");
+        suiteItem.children.replace([stableTest, flakyTest]);
+        controller.items.add(suiteItem);
+    });
+
+    teardown(() => {
+        controller.dispose();
+    });
+
+    function memento(): vscode.Memento {
+        const values = new Map<string, unknown>();
+        return {
+            keys: () => [...values.keys()],
+            get: <T>(key: string, defaultValue?: T) =>
+                (values.has(key) ? values.get(key) : defaultValue) as T,
+            update: async (key: string, value: unknown) => {
+                values.set(key, value);
+            },
+        };
+    }
+
+    function runState(
+        passed: vscode.TestItem[],
+        failed: vscode.TestItem[],
+        durations: [vscode.TestItem, number][] = []
+    ): TestRunState {
+        return {
+            ...TestRunProxy.initialTestRunState(),
+            passed,
+            failed: failed.map(test => ({ test, message: new vscode.TestMessage("Failed") })),
+            durations: new Map(durations),
+        };
+    }
+
+    test("scores how often the result of a test changes", () => {
+        const results = (outcomes: string) =>
+            [...outcomes].map(outcome => ({ passed: outcome === "P", time: 0 }));
+        expect(flakinessScore(results(""))).to.equal(0);
+        expect(flakinessScore(results("PPPP"))).to.equal(0);
+        expect(flakinessScore(results("FFFF"))).to.equal(0);
+        expect(flakinessScore(results("PFPF"))).to.equal(1);
+        expect(flakinessScore(results("PPFFP"))).to.equal(0.5);
+    });
+
+    test("records the results of test cases", () => {
+        const parameterizedResult = controller.createTestItem(
+            "MyTests.MyTests/testStable/argument",
+            "argument"
+        );
+        parameterizedResult.tags = [
+            new vscode.TestTag(TestRunProxy.Tags.PARAMETERIZED_TEST_RESULT),
+        ];
+        stableTest.children.add(parameterizedResult);
+
+        expect(
+            testRunResults(
+                runState(
+                    [suiteItem, stableTest, parameterizedResult, flakyTest],
+                    [flakyTest],
+                    [[stableTest, 12]]
+                )
+            )
+        ).to.deep.equal([
+            { testId: flakyTest.id, passed: false, duration: undefined },
+            { testId: stableTest.id, passed: true, duration: 12 },
+        ]);
+    });
+
+    test("finds flaky tests", async () => {
+        const store = new TestHistoryStore(memento());
+        for (let run = 0; run < TestHistoryStore.minResults; run++) {
+            await store.record(
+                "/pkg",
+                TestKind.standard,
+                run % 2 === 0
+                    ? runState([stableTest, flakyTest], [])
+                    : runState([stableTest], [flakyTest])
+            );
+        }
+
+        expect(store.results("/pkg", stableTest.id)).to.have.lengthOf(TestHistoryStore.minResults);
+        expect(store.flakyTests("/pkg")).to.deep.equal([{ testId: flakyTest.id, score: 1 }]);
+        expect(store.flakyTests("/other")).to.be.empty;
+
+        await store.clear("/pkg");
+        expect(store.flakyTests("/pkg")).to.be.empty;
+        store.dispose();
+    });
+
+    test("keeps the latest results of each test", async () => {
+        const store = new TestHistoryStore(memento());
+        for (let run = 0; run < TestHistoryStore.maxResults; run++) {
+            await store.record("/pkg", TestKind.standard, runState([], [stableTest]));
+        }
+        await store.record("/pkg", TestKind.standard, runState([stableTest], []));
+
+        const results = store.results("/pkg", stableTest.id);
+        expect(results).to.have.lengthOf(TestHistoryStore.maxResults);
+        expect(results[results.length - 1].passed).to.be.true;
+        store.dispose();
+    });
+
+    test("only records plain test runs", async () => {
+        const store = new TestHistoryStore(memento());
+        for (const kind of [
+            TestKind.threadSanitizer,
+            TestKind.coverage,
+            TestKind.debug,
+            TestKind.release,
+        ]) {
+            await store.record("/pkg", kind, runState([], [stableTest], [[stableTest, 900]]));
+        }
+        expect(store.results("/pkg", stableTest.id)).to.be.empty;
+
+        await store.record("/pkg", TestKind.parallel, runState([stableTest], []));
+        expect(store.results("/pkg", stableTest.id)).to.have.lengthOf(1);
+        store.dispose();
+    });
+
+    test("computes the median", () => {
+        expect(median([])).to.be.undefined;
+        expect(median([30, 10, 20])).to.equal(20);
+        expect(median([40, 10, 30, 20])).to.equal(25);
+    });
+
+    test("flags durations that went up sharply compared with the median", () => {
+        expect(durationRegression([100, 110, 90, 200], 50)).to.deep.equal({
+            median: 100,
+            isRegression: true,
+        });
+        expect(durationRegression([100, 110, 90, 140], 50).isRegression).to.be.false;
+        // Needs enough earlier runs
+        expect(durationRegression([100, 110, 200], 50).isRegression).to.be.false;
+        // Ignores small increases in short tests
+        expect(durationRegression([2, 2, 2, 10], 50).isRegression).to.be.false;
+        // Only the latest runs count towards the median
+        const durations = [1000, 1000, 1000, ...new Array(10).fill(100), 300];
+        expect(durationRegression(durations, 50).median).to.equal(100);
+    });
+
+    test("lists the slowest tests", async () => {
+        const store = new TestHistoryStore(memento());
+        for (const duration of [100, 100, 100, 400]) {
+            await store.record(
+                "/pkg",
+                TestKind.standard,
+                runState(
+                    [stableTest, flakyTest],
+                    [],
+                    [
+                        [stableTest, duration],
+                        [flakyTest, 200],
+                    ]
+                )
+            );
+        }
+        await store.record("/pkg", TestKind.standard, runState([suiteItem], []));
+
+        expect(store.slowestTests("/pkg")).to.deep.equal([
+            {
+                testId: stableTest.id,
+                durations: [100, 100, 100, 400],
+                median: 100,
+                isRegression: true,
+            },
+            {
+                testId: flakyTest.id,
+                durations: [200, 200, 200, 200],
+                median: 200,
+                isRegression: false,
+            },
+        ]);
+        store.dispose();
+    });
+
+    test("reruns parameterized tests in place of their failed arguments", () => {
+        const argumentResults = ["1", "2"].map(argument => {
+            const item = controller.createTestItem(`${flakyTest.id}/${argument}`, argument);
+            item.tags = [new vscode.TestTag(TestRunProxy.Tags.PARAMETERIZED_TEST_RESULT)];
+            return item;
+        });
+        flakyTest.children.replace(argumentResults);
+
+        expect(
+            failedTestIds({
+                ...runState([], [suiteItem, stableTest, ...argumentResults]),
+                errored: [stableTest],
+            })
+        ).to.deep.equal([stableTest.id, flakyTest.id]);
+    });
+});
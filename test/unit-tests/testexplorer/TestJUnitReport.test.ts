@@ -0,0 +1,117 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as vscode from "vscode";
+
+import { createJUnitReport } from "@src/TestExplorer/TestJUnitReport";
+import { TestRunProxy } from "@src/TestExplorer/TestRunner";
+
+suite("TestJUnitReport Unit Test Suite", () => {
+    let controller: vscode.TestController;
+    let target: vscode.TestItem;
+    let passingTest: vscode.TestItem;
+    let failingTest: vscode.TestItem;
+    let skippedTest: vscode.TestItem;
+
+    setup(() => {
+        controller = vscode.tests.createTestController("junitReportTests", "");
+        target = controller.createTestItem("ParserTests", "ParserTests");
+        const suiteItem = controller.createTestItem(
+            "ParserTests.ParserTests",
+            "ParserTests",
+            vscode.Uri.file("/pkg/Tests/ParserTests/ParserTests.swift")
+        );
+        passingTest = controller.createTestItem("ParserTests.ParserTests/parses()", "parses()");
+        failingTest = controller.createTestItem(
+            "ParserTests.ParserTests/rejects()",
+            "rejects()",
+            vscode.Uri.file("/pkg/Tests/ParserTests/ParserTests.swift")
+        );
+        failingTest.range = new vscode.Range(11, 4, 11, 4);
+        skippedTest = controller.createTestItem("ParserTests.freeFunction()", "freeFunction()");
+        suiteItem.children.replace([passingTest, failingTest]);
+        target.children.replace([suiteItem, skippedTest]);
+        controller.items.add(target);
+    });
+
+    teardown(() => {
+        controller.dispose();
+    });
+
+    test("creates a test suite for each test target", () => {
+        const failure = new vscode.TestMessage("Expectation failed: (a → 1) < 0");
+        failure.location = new vscode.Location(
+            vscode.Uri.file("/pkg/Tests/ParserTests/ParserTests.swift"),
+            new vscode.Position(13, 8)
+        );
+        const runState = {
+            ...TestRunProxy.initialTestRunState(),
+            passed: [passingTest, target],
+            failed: [{ test: failingTest, message: [failure] }],
+            skipped: [skippedTest],
+            durations: new Map([
+                [passingTest, 12],
+                [failingTest, 1500],
+            ]),
+            output: ["\x1b[1mBuilding...\x1b[0m\r\n", "Test run started.\r\n"],
+            testOutput: new Map([[failingTest, ["\x07value: \x1b[31m1\x1b[0m\r\n"]]]),
+        };
+
+        expect(createJUnitReport("Run Tests", runState, Date.UTC(2025, 0, 2, 3, 4, 5))).to.equal(
+            [
+                `<?xml version="1.0" encoding="UTF-8"?>`,
+                `<testsuites name="Run Tests" tests="3" failures="1" errors="0" skipped="1" time="1.512" timestamp="2025-01-02T03:04:05.000Z">`,
+                `  <testsuite name="ParserTests" tests="3" failures="1" errors="0" skipped="1" time="1.512">`,
+                `    <testcase classname="ParserTests.ParserTests" name="rejects()" time="1.500" file="/pkg/Tests/ParserTests/ParserTests.swift" line="12">`,
+                `      <failure message="Expectation failed: (a → 1) &lt; 0" type="failure">Expectation failed: (a → 1) &lt; 0`,
+                `at /pkg/Tests/ParserTests/ParserTests.swift:14:9</failure>`,
+                `      <system-out>value: 1`,
+                `</system-out>`,
+                `    </testcase>`,
+                `    <testcase classname="ParserTests.ParserTests" name="parses()" time="0.012"/>`,
+                `    <testcase classname="ParserTests" name="freeFunction()" time="0.000">`,
+                `      <skipped/>`,
+                `    </testcase>`,
+                `    <system-out>Building...`,
+                `Test run started.`,
+                `</system-out>`,
+                `  </testsuite>`,
+                `</testsuites>`,
+                ``,
+            ].join("\n")
+        );
+    });
+
+    test("describes errored tests", () => {
+        const runState = {
+            ...TestRunProxy.initialTestRunState(),
+            errored: [passingTest],
+        };
+
+        expect(createJUnitReport("Run Tests", runState, 0)).to.include(
+            `      <error message="Test errored" type="error">Test errored</error>`
+        );
+    });
+
+    test("creates an empty report when no tests ran", () => {
+        expect(createJUnitReport("Run Tests", TestRunProxy.initialTestRunState(), 0)).to.equal(
+            [
+                `<?xml version="1.0" encoding="UTF-8"?>`,
+                `<testsuites name="Run Tests" tests="0" failures="0" errors="0" skipped="0" time="0.000" timestamp="1970-01-01T00:00:00.000Z">`,
+                `</testsuites>`,
+                ``,
+            ].join("\n")
+        );
+    });
+});
@@ -0,0 +1,30 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+
+import { formatTestDuration, sparkline } from "@src/ui/SlowestTestsProvider";
+
+suite("SlowestTestsProvider Unit Test Suite", () => {
+    test("draws durations as a sparkline", () => {
+        expect(sparkline([100, 200, 300, 800])).to.equal("▁▂▃█");
+        expect(sparkline([50, 50])).to.equal("▁▁");
+        expect(sparkline([10])).to.equal("▁");
+    });
+
+    test("formats test durations", () => {
+        expect(formatTestDuration(4.4)).to.equal("4ms");
+        expect(formatTestDuration(999)).to.equal("999ms");
+        expect(formatTestDuration(1250)).to.equal("1.3s");
+    });
+});
@@ -0,0 +1,80 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+import * as path from "path";
+import * as vscode from "vscode";
+import { SymbolKind } from "vscode-languageclient";
+
+import { symbolProperties } from "@src/ui/SymbolInspectorProvider";
+
+suite("SymbolInspectorProvider Unit Test Suite", () => {
+    suite("symbolProperties", () => {
+        test("lists the properties of a symbol in the package", () => {
+            const declaration = new vscode.Location(
+                vscode.Uri.file("/pkg/Sources/Library/Library.swift"),
+                new vscode.Range(4, 9, 4, 12)
+            );
+            const properties = symbolProperties(
+                {
+                    details: {
+                        name: "run()",
+                        usr: "s:7Library3runyyF",
+                        kind: SymbolKind.Function,
+                        isSystem: false,
+                        isDynamic: false,
+                    },
+                    declaration,
+                    module: "Library",
+                },
+                vscode.Uri.file("/pkg")
+            );
+            expect(properties).to.deep.equal([
+                { label: "USR", value: "s:7Library3runyyF" },
+                { label: "Kind", value: "Function" },
+                { label: "Module", value: "Library" },
+                { label: "System", value: "No" },
+                { label: "Dynamic", value: "No" },
+                {
+                    label: "Declaration",
+                    value: `${path.join("Sources", "Library", "Library.swift")}:5:10`,
+                    location: declaration,
+                },
+            ]);
+        });
+
+        test("uses the system module of SDK symbols", () => {
+            const properties = symbolProperties({
+                details: {
+                    usr: "s:SS",
+                    kind: SymbolKind.Struct,
+                    isSystem: true,
+                    systemModule: { moduleName: "Swift", groupName: "String" },
+                },
+                module: "Library",
+            });
+            expect(properties.find(p => p.label === "Module")?.value).to.equal("Swift.String");
+        });
+
+        test("lists the receivers of dynamic calls", () => {
+            const properties = symbolProperties({
+                details: { isDynamic: true, receiverUsrs: ["s:4Main1BC", "s:4Main1CC"] },
+            });
+            expect(properties).to.deep.equal([
+                { label: "Dynamic", value: "Yes" },
+                { label: "Receiver USR", value: "s:4Main1BC" },
+                { label: "Receiver USR", value: "s:4Main1CC" },
+            ]);
+        });
+    });
+});
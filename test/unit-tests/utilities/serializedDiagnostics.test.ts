@@ -0,0 +1,192 @@
+//===----------------------------------------------------------------------===//
+//
+// This source file is part of the VS Code Swift open source project
+//
+// Copyright (c) 2025 the VS Code Swift project authors
+// Licensed under Apache License v2.0
+//
+// See LICENSE.txt for license information
+// See CONTRIBUTORS.txt for the list of VS Code Swift project authors
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+//===----------------------------------------------------------------------===//
+import { expect } from "chai";
+
+import {
+    SerializedDiagnosticSeverity,
+    parseSerializedDiagnostics,
+} from "@src/utilities/serializedDiagnostics";
+
+/** Writes the subset of the LLVM bitstream format used by serialized diagnostics. */
+class BitstreamWriter {
+    private bits: number[] = [];
+
+    constructor() {
+        for (const c of "DIAG") {
+            this.fixed(c.charCodeAt(0), 8);
+        }
+    }
+
+    fixed(value: number, width: number) {
+        for (let i = 0; i < width; i++) {
+            this.bits.push(Math.floor(value / 2 ** i) % 2);
+        }
+    }
+
+    vbr(value: number, width: number) {
+        const continuation = 2 ** (width - 1);
+        while (value >= continuation) {
+            this.fixed((value % continuation) + continuation, width);
+            value = Math.floor(value / continuation);
+        }
+        this.fixed(value, width);
+    }
+
+    align() {
+        while (this.bits.length % 32 !== 0) {
+            this.bits.push(0);
+        }
+    }
+
+    enterBlock(abbrevWidth: number, blockId: number, newAbbrevWidth: number) {
+        this.fixed(1, abbrevWidth);
+        this.vbr(blockId, 8);
+        this.vbr(newAbbrevWidth, 4);
+        this.align();
+        this.fixed(0, 32);
+    }
+
+    endBlock(abbrevWidth: number) {
+        this.fixed(0, abbrevWidth);
+        this.align();
+    }
+
+    record(abbrevWidth: number, code: number, fields: number[], text?: string) {
+        const chars = [...Buffer.from(text ?? "")];
+        this.fixed(3, abbrevWidth);
+        this.vbr(code, 6);
+        this.vbr(fields.length + chars.length, 6);
+        for (const field of [...fields, ...chars]) {
+            this.vbr(field, 6);
+        }
+    }
+
+    /** Record using an abbreviation of `[literal code, vbr6..., vbr6 length, blob]` */
+    abbreviatedRecord(abbrevWidth: number, abbrevId: number, fields: number[], text: string) {
+        const bytes = Buffer.from(text);
+        this.fixed(abbrevId, abbrevWidth);
+        for (const field of fields) {
+            this.vbr(field, 6);
+        }
+        this.vbr(bytes.length, 6);
+        this.vbr(bytes.length, 6);
+        this.align();
+        for (const byte of bytes) {
+            this.fixed(byte, 8);
+        }
+        this.align();
+    }
+
+    defineAbbrev(abbrevWidth: number, code: number, scalarFields: number) {
+        this.fixed(2, abbrevWidth);
+        this.vbr(scalarFields + 3, 5);
+        this.fixed(1, 1);
+        this.vbr(code, 8);
+        for (let i = 0; i < scalarFields + 1; i++) {
+            this.fixed(0, 1);
+            this.fixed(2, 3);
+            this.vbr(6, 5);
+        }
+        this.fixed(0, 1);
+        this.fixed(5, 3);
+    }
+
+    data(): Uint8Array {
+        const bytes = new Uint8Array(this.bits.length / 8);
+        this.bits.forEach((bit, i) => (bytes[i >> 3] |= bit << (i & 7)));
+        return bytes;
+    }
+}
+
+suite("serializedDiagnostics Unit Test Suite", () => {
+    const DIAG = 9;
+    const width = 4;
+
+    function location(file: number, line: number, column: number): number[] {
+        return [file, line, column, 0];
+    }
+
+    function writeDiagnostics(): Uint8Array {
+        const writer = new BitstreamWriter();
+        // Block info defining an abbreviation for diagnostic records
+        writer.enterBlock(2, 0, width);
+        writer.record(width, 1, [DIAG]);
+        writer.defineAbbrev(width, 2, 7);
+        writer.endBlock(width);
+
+        writer.enterBlock(2, DIAG, width);
+        writer.record(width, 6, [1, 0, 0, 11], "/pkg/a.swift");
+        writer.record(width, 5, [1, 11], "deprecation");
+        writer.abbreviatedRecord(
+            width,
+            4,
+            [2, ...location(1, 3, 5), 1, 0],
+            "'foo()' is deprecated"
+        );
+        writer.record(width, 3, [...location(1, 3, 5), ...location(1, 3, 10)]);
+        // Note with a fix-it
+        writer.enterBlock(width, DIAG, width);
+        writer.abbreviatedRecord(width, 4, [1, ...location(1, 3, 5), 0, 0], "use 'bar()' instead");
+        writer.record(width, 7, [...location(1, 3, 5), ...location(1, 3, 8), 3], "bar");
+        writer.endBlock(width);
+        writer.endBlock(width);
+
+        // Diagnostic using unabbreviated records only
+        writer.enterBlock(2, DIAG, width);
+        writer.record(width, 2, [3, ...location(1, 7, 1), 0, 0, 13], "cannot find x");
+        writer.endBlock(width);
+        return writer.data();
+    }
+
+    test("parses diagnostics, ranges and categories", () => {
+        const [warning, error] = parseSerializedDiagnostics(writeDiagnostics());
+
+        expect(warning.severity).to.equal(SerializedDiagnosticSeverity.warning);
+        expect(warning.message).to.equal("'foo()' is deprecated");
+        expect(warning.category).to.equal("deprecation");
+        expect(warning.location).to.deep.equal({ file: "/pkg/a.swift", line: 3, column: 5 });
+        expect(warning.ranges).to.deep.equal([
+            {
+                start: { file: "/pkg/a.swift", line: 3, column: 5 },
+                end: { file: "/pkg/a.swift", line: 3, column: 10 },
+            },
+        ]);
+
+        expect(error.severity).to.equal(SerializedDiagnosticSeverity.error);
+        expect(error.message).to.equal("cannot find x");
+        expect(error.location).to.deep.equal({ file: "/pkg/a.swift", line: 7, column: 1 });
+    });
+
+    test("nests notes and their fix-its within the diagnostic", () => {
+        const [warning] = parseSerializedDiagnostics(writeDiagnostics());
+
+        expect(warning.notes).to.have.lengthOf(1);
+        const note = warning.notes[0];
+        expect(note.severity).to.equal(SerializedDiagnosticSeverity.note);
+        expect(note.message).to.equal("use 'bar()' instead");
+        expect(note.fixIts).to.deep.equal([
+            {
+                range: {
+                    start: { file: "/pkg/a.swift", line: 3, column: 5 },
+                    end: { file: "/pkg/a.swift", line: 3, column: 8 },
+                },
+                text: "bar",
+            },
+        ]);
+    });
+
+    test("rejects files that aren't serialized diagnostics", () => {
+        expect(() => parseSerializedDiagnostics(Buffer.from("BC\xc0\xde"))).to.throw();
+    });
+});